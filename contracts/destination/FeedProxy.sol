@@ -2,31 +2,117 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
-import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV2V3Interface.sol";
+import "../libraries/ChainlinkRoundIds.sol";
 
-contract FeedProxy is AggregatorV3Interface {
+contract FeedProxy is AggregatorV2V3Interface {
     
   
-    /// @dev Packed round data for gas efficiency (56 bytes → 2 slots)
+    /// @dev Packed round data for gas efficiency (60 bytes → 2 slots)
     struct RoundData {
         uint80 roundId;           // 10 bytes
-        uint80 answeredInRound;
-        uint256 startedAt;        // 10 bytes  
+        uint80 answeredInRound;   // 10 bytes
+        uint32 startedAt;         // 4 bytes (timestamp until year 2106)
         uint32 updatedAt;         // 4 bytes (timestamp until year 2106)
         int256 answer;            // 32 bytes (separate slot)
     }
+    
+    /// @dev Which price guard an update tripped
+    enum GuardViolation {
+        None,
+        BelowMinAnswer,
+        AboveMaxAnswer,
+        DeviationTooLarge
+    }
+    
+    /// @dev How latestRoundData() serves a round older than the heartbeat
+    enum StalenessPolicy {
+        PassThrough,
+        RevertOnStale,
+        FlagStale
+    }
+    
+    /// @dev Admin call waiting out the timelock
+    struct QueuedAction {
+        bytes32 id;
+        bytes data;
+        uint256 eta;
+    }
+    
+    /// @dev One historical round for backfillRounds()
+    struct BackfillRound {
+        uint80 roundId;
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
     uint8 private immutable _decimals;
     string private _description;
-    uint256 private immutable _heartbeat;
+    uint256 private _heartbeat;
+    /// @dev Age at which updates are rejected; 0 means twice the heartbeat
+    uint256 private _staleRejectionWindow;
+    /// @notice How latestRoundData() serves stale data
+    StalenessPolicy public stalenessPolicy;
     
     // Current state
     RoundData private _latestRound;
-    mapping(uint80 => RoundData) private _rounds;
+    /// @dev Rounds keyed by phase, then by the phase aggregator's round ID
+    mapping(uint16 => mapping(uint64 => RoundData)) private _phaseRounds;
+    
+    /// @notice Phase of the latest round, as encoded in Chainlink proxy round IDs
+    uint16 public phaseId;
+    /// @notice Origin aggregator behind each phase, recorded by the owner for reference
+    mapping(uint16 => address) public phaseAggregators;
     
     // Access control
     address public owner;
+    /// @notice Proposed owner; takes over once it calls acceptOwnership()
+    address public pendingOwner;
     mapping(address => bool) public authorizedSenders;
     bool public paused;
+    bool public backfillEnabled;
+    
+    // Reactive Network callbacks
+    /// @notice Callback proxy allowed to call updateRoundDataCallback(); zero disables it
+    address public callbackProxy;
+    /// @notice RVM ID (the reactor's deployer) callbacks must carry
+    address public rvmId;
+    
+    // Signed reports
+    bytes32 public constant REPORT_TYPEHASH = keccak256(
+        "Report(uint80 roundId,int256 answer,uint256 startedAt,uint256 updatedAt,uint80 answeredInRound)"
+    );
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    /// @dev secp256k1n / 2; higher s values are the malleable twin of a signature
+    uint256 private constant MAX_SIGNATURE_S =
+        0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+    address[] private _signers;
+    mapping(address => bool) public isSigner;
+    /// @notice Distinct signer signatures updateRoundDataSigned() needs; 0 disables it
+    uint256 public signatureThreshold;
+    /// @dev Signers that attested each round accepted through updateRoundDataSigned()
+    mapping(uint80 => address[]) private _roundSigners;
+    
+    // Price guards; zero disables a bound
+    int256 public minAnswer;
+    int256 public maxAnswer;
+    /// @notice Largest accepted move versus the latest round, in basis points
+    uint256 public maxDeviationBps;
+    /// @notice Hold guard-tripping updates for the owner instead of reverting
+    bool public quarantineEnabled;
+    mapping(uint80 => RoundData) private _quarantinedRounds;
+    
+    // Timelock
+    /// @notice Longest timelock delay the owner can set
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    /// @notice Wait between queueing and executing timelocked actions; 0 disables the timelock
+    uint256 public timelockDelay;
+    mapping(bytes32 => QueuedAction) private _queuedActions;
+    bytes32[] private _queuedActionIds;
+    uint256 private _actionNonce;
     
     // Monitoring
     uint256 public totalUpdates;
@@ -34,23 +120,32 @@ contract FeedProxy is AggregatorV3Interface {
     
     // ============ Events ============
     
-    event AnswerUpdated(
-        int256 indexed current,
-        uint256 indexed roundId,
-        uint256 updatedAt
-    );
-    
-    event NewRound(
-        uint256 indexed roundId,
-        address indexed startedBy,
-        uint256 startedAt
-    );
+    // AnswerUpdated and NewRound come from AggregatorInterface
     
     event AuthorizedSenderUpdated(address indexed sender, bool authorized);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event EmergencyPaused(address indexed by);
     event EmergencyUnpaused(address indexed by);
     event StaleDataRejected(uint80 roundId, uint256 timeSinceUpdate);
+    event HeartbeatUpdated(uint256 previousHeartbeat, uint256 heartbeat);
+    event StaleRejectionWindowUpdated(uint256 window);
+    event StalenessPolicyUpdated(StalenessPolicy policy);
+    event TimelockDelayUpdated(uint256 delay);
+    event ActionQueued(bytes32 indexed actionId, bytes data, uint256 eta);
+    event ActionExecuted(bytes32 indexed actionId);
+    event ActionCancelled(bytes32 indexed actionId);
+    event BackfillModeUpdated(bool enabled);
+    event ReactiveCallbackUpdated(address callbackProxy, address rvmId);
+    event PhaseChanged(uint16 indexed previousPhaseId, uint16 indexed phaseId, uint80 firstRoundId);
+    event PhaseAggregatorUpdated(uint16 indexed phaseId, address aggregator);
+    event RoundsBackfilled(uint80 firstRoundId, uint80 lastRoundId, uint256 written);
+    event SignersUpdated(address[] signers, uint256 threshold);
+    event ReportVerified(uint80 indexed roundId, address[] signers);
+    event PriceGuardsUpdated(int256 minAnswer, int256 maxAnswer, uint256 maxDeviationBps, bool quarantineEnabled);
+    event RoundQuarantined(uint80 indexed roundId, int256 answer, GuardViolation violation);
+    event QuarantinedRoundApplied(uint80 indexed roundId);
+    event QuarantinedRoundDiscarded(uint80 indexed roundId);
     
     // ============ Errors ============
     
@@ -61,6 +156,19 @@ contract FeedProxy is AggregatorV3Interface {
     error StaleData();
     error NoDataAvailable();
     error InvalidAddress();
+    error BackfillDisabled();
+    error InvalidTimestamp();
+    error InvalidSignerSet();
+    error InvalidSignature();
+    error InsufficientSignatures();
+    error InvalidPriceGuards();
+    error PriceGuardTripped(GuardViolation violation);
+    error InvalidStalenessConfig();
+    error TimelockRequired();
+    error TimelockDisabled();
+    error InvalidTimelockDelay();
+    error ActionNotQueued();
+    error ActionNotReady(uint256 eta);
     
     // ============ Modifiers ============
     
@@ -74,6 +182,16 @@ contract FeedProxy is AggregatorV3Interface {
         _;
     }
     
+    /// @dev Owner-only while the timelock is off, executeAction()-only while it is on
+    modifier timelocked() {
+        if (timelockDelay == 0) {
+            if (msg.sender != owner) revert Unauthorized();
+        } else if (msg.sender != address(this)) {
+            revert TimelockRequired();
+        }
+        _;
+    }
+    
     modifier whenNotPaused() {
         if (paused) revert Paused();
         _;
@@ -96,44 +214,205 @@ contract FeedProxy is AggregatorV3Interface {
     
     // ============ Core Update Function ============
     
+    /**
+     * @notice Store a new round with the origin round's startedAt
+     */
+    function updateRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external onlyAuthorizedSender whenNotPaused {
+        _updateRoundData(roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+    
+    /**
+     * @notice Store a new round without a startedAt
+     * @dev Kept for senders built against the original signature; startedAt
+     *      is recorded as updatedAt, as OCR aggregators report it
+     */
     function updateRoundData(
         uint80 roundId,
         int256 answer,
         uint256 updatedAt,
         uint80 answeredInRound
     ) external onlyAuthorizedSender whenNotPaused {
+        _updateRoundData(roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+    
+    /**
+     * @notice Store a round sent by ChainlinkFeedReactor.react() through a
+     *         Reactive Network Callback
+     * @dev Reactive Network overwrites the first argument of every callback
+     *      payload with the RVM ID of the contract that emitted it, so the
+     *      reactor leaves it as a placeholder. msg.sender is the destination
+     *      chain's callback proxy.
+     * @param rvm RVM ID filled in by Reactive Network
+     */
+    function updateRoundDataCallback(
+        address rvm,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external whenNotPaused {
+        if (callbackProxy == address(0) || msg.sender != callbackProxy || rvm != rvmId) revert Unauthorized();
+        _updateRoundData(roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+    
+    /**
+     * @notice Store a new round attested by the configured signer set
+     * @dev Callable by anyone: trust comes from the EIP-712 signatures over
+     *      the report, not from the sender. Signatures must be ordered by
+     *      ascending signer address, which also rules out duplicates, and
+     *      every one must come from a current signer.
+     */
+    function updateRoundDataSigned(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound,
+        bytes[] calldata signatures
+    ) external whenNotPaused {
+        address[] memory signers = _verifyReport(
+            reportDigest(roundId, answer, startedAt, updatedAt, answeredInRound),
+            signatures
+        );
+        _updateRoundData(roundId, answer, startedAt, updatedAt, answeredInRound);
+        // A quarantined report is not accepted until the owner applies it
+        if (_latestRound.roundId == roundId) {
+            _roundSigners[roundId] = signers;
+            emit ReportVerified(roundId, signers);
+        }
+    }
+    
+    function _updateRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) private {
         uint256 gasStart = gasleft();
         
-        // Validation
+        // Validation: a newer phase may restart its aggregator round IDs, but
+        // its proxy IDs still order above every round of an older phase
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(roundId);
+        if (aggregatorRoundId == 0 || phase < phaseId) revert InvalidRound();
         if (roundId <= _latestRound.roundId) revert InvalidRound();
         if (answer <= 0) revert InvalidAnswer();
+        if (startedAt == 0 || startedAt > updatedAt) revert InvalidTimestamp();
         
 
         uint256 secondsSinceUpdate = block.timestamp - updatedAt;
-        if (secondsSinceUpdate > _heartbeat * 2) {
+        if (secondsSinceUpdate > staleRejectionWindow()) {
             emit StaleDataRejected(roundId, secondsSinceUpdate);
             revert StaleData();
         }
         
-        // Store new round data
         RoundData memory newRound = RoundData({
             roundId: roundId,
             answeredInRound: answeredInRound,
-            startedAt: updatedAt,
+            startedAt: uint32(startedAt),
             updatedAt: uint32(updatedAt),
             answer: answer
         });
         
-        _latestRound = newRound;
-        _rounds[roundId] = newRound;
+        // An answer outside the owner's bounds is never published directly
+        GuardViolation violation = _checkPriceGuards(answer);
+        if (violation != GuardViolation.None) {
+            if (!quarantineEnabled) revert PriceGuardTripped(violation);
+            _quarantinedRounds[roundId] = newRound;
+            emit RoundQuarantined(roundId, answer, violation);
+            return;
+        }
+        
+        _storeRound(newRound);
         
         // Update metrics
         totalUpdates++;
         lastUpdateGasUsed = gasStart - gasleft();
+    }
+    
+    /// @dev Make a validated round the latest one and emit the Chainlink events
+    function _storeRound(RoundData memory round) private {
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(round.roundId);
+        if (phase != phaseId) {
+            emit PhaseChanged(phaseId, phase, round.roundId);
+            phaseId = phase;
+        }
+        
+        _latestRound = round;
+        _phaseRounds[phase][aggregatorRoundId] = round;
+        
+        emit NewRound(round.roundId, msg.sender, round.startedAt);
+        emit AnswerUpdated(round.answer, round.roundId, round.updatedAt);
+    }
+    
+    function _checkPriceGuards(int256 answer) private view returns (GuardViolation) {
+        if (minAnswer != 0 && answer < minAnswer) return GuardViolation.BelowMinAnswer;
+        if (maxAnswer != 0 && answer > maxAnswer) return GuardViolation.AboveMaxAnswer;
+        
+        int256 previous = _latestRound.answer;
+        if (maxDeviationBps == 0 || previous <= 0) return GuardViolation.None;
+        
+        uint256 last = uint256(previous);
+        uint256 change = answer > previous
+            ? uint256(answer) - last
+            : last - uint256(answer);
+        // Split so last * bps cannot overflow for any positive int256
+        uint256 allowed = (last / 10000) * maxDeviationBps
+            + ((last % 10000) * maxDeviationBps) / 10000;
+        return change > allowed ? GuardViolation.DeviationTooLarge : GuardViolation.None;
+    }
+    
+    /**
+     * @notice Write historical rounds so getRoundData() can serve them
+     * @dev Only while the owner has enabled backfill mode. Rounds must be
+     *      older than the latest round (any ID before the first update) and
+     *      skip the staleness check; _latestRound is never touched, and rounds
+     *      already stored are left as they are so a batch can be re-sent.
+     *      No AnswerUpdated is emitted, since these are not new answers.
+     */
+    function backfillRounds(BackfillRound[] calldata rounds)
+        external
+        onlyAuthorizedSender
+        whenNotPaused
+    {
+        if (!backfillEnabled) revert BackfillDisabled();
+        
+        uint80 latestRoundId = _latestRound.roundId;
+        uint256 written;
+        for (uint256 i = 0; i < rounds.length; i++) {
+            BackfillRound calldata round = rounds[i];
+            (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(round.roundId);
+            
+            if (aggregatorRoundId == 0) revert InvalidRound();
+            if (latestRoundId != 0 && round.roundId >= latestRoundId) revert InvalidRound();
+            if (round.answer <= 0) revert InvalidAnswer();
+            if (round.updatedAt == 0 || round.updatedAt > block.timestamp) revert InvalidTimestamp();
+            if (round.startedAt == 0 || round.startedAt > round.updatedAt) revert InvalidTimestamp();
+            if (minAnswer != 0 && round.answer < minAnswer) revert PriceGuardTripped(GuardViolation.BelowMinAnswer);
+            if (maxAnswer != 0 && round.answer > maxAnswer) revert PriceGuardTripped(GuardViolation.AboveMaxAnswer);
+            
+            if (_phaseRounds[phase][aggregatorRoundId].updatedAt != 0) continue;
+            
+            _phaseRounds[phase][aggregatorRoundId] = RoundData({
+                roundId: round.roundId,
+                answeredInRound: round.answeredInRound,
+                startedAt: uint32(round.startedAt),
+                updatedAt: uint32(round.updatedAt),
+                answer: round.answer
+            });
+            written++;
+        }
         
-        // Emit events
-        emit NewRound(roundId, msg.sender, updatedAt);
-        emit AnswerUpdated(answer, roundId, updatedAt);
+        if (rounds.length > 0) {
+            emit RoundsBackfilled(rounds[0].roundId, rounds[rounds.length - 1].roundId, written);
+        }
     }
     
     // ============ AggregatorV3Interface Implementation ============
@@ -165,13 +444,19 @@ contract FeedProxy is AggregatorV3Interface {
         if (_latestRound.updatedAt == 0) revert NoDataAvailable();
         
         RoundData memory latest = _latestRound;
+        answeredInRound = latest.answeredInRound;
+        if (_isStale(latest.updatedAt)) {
+            if (stalenessPolicy == StalenessPolicy.RevertOnStale) revert StaleData();
+            // Consumers checking answeredInRound >= roundId see the round as stale
+            if (stalenessPolicy == StalenessPolicy.FlagStale) answeredInRound = 0;
+        }
         
         return (
             latest.roundId,
             latest.answer,
-            latest.updatedAt, // Using updatedAt as startedAt (approximation)
+            latest.startedAt,
             latest.updatedAt,
-            latest.answeredInRound
+            answeredInRound
         );
     }
     
@@ -187,18 +472,133 @@ contract FeedProxy is AggregatorV3Interface {
             uint80 answeredInRound
         )
     {
-        RoundData memory round = _rounds[_roundId];
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(_roundId);
+        RoundData memory round = _phaseRounds[phase][aggregatorRoundId];
         if (round.updatedAt == 0) revert NoDataAvailable();
         
         return (
             round.roundId,
             round.answer,
-            round.updatedAt,
+            round.startedAt,
             round.updatedAt,
             round.answeredInRound
         );
     }
     
+    // ============ Signed Reports ============
+    
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256("FeedProxy"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+    
+    /// @notice EIP-712 digest signers sign for a report
+    function reportDigest(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(REPORT_TYPEHASH, roundId, answer, startedAt, updatedAt, answeredInRound)
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+    
+    /// @notice A round held back by the price guards; reverts if there is none
+    function getQuarantinedRound(uint80 roundId)
+        external
+        view
+        returns (int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        RoundData memory round = _quarantinedRounds[roundId];
+        if (round.updatedAt == 0) revert NoDataAvailable();
+        return (round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+    
+    function getSigners() external view returns (address[] memory) {
+        return _signers;
+    }
+    
+    /// @notice Signers that attested a round; empty for rounds from authorized senders
+    function getRoundSigners(uint80 roundId) external view returns (address[] memory) {
+        return _roundSigners[roundId];
+    }
+    
+    function _verifyReport(bytes32 digest, bytes[] calldata signatures)
+        private
+        view
+        returns (address[] memory signers)
+    {
+        if (signatureThreshold == 0 || signatures.length < signatureThreshold) {
+            revert InsufficientSignatures();
+        }
+        
+        signers = new address[](signatures.length);
+        address previous;
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = _recover(digest, signatures[i]);
+            if (!isSigner[signer] || signer <= previous) revert InvalidSignature();
+            signers[i] = signer;
+            previous = signer;
+        }
+    }
+    
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address signer) {
+        if (signature.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 sigS = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(sigS) > MAX_SIGNATURE_S || (v != 27 && v != 28)) revert InvalidSignature();
+        
+        signer = ecrecover(digest, v, r, sigS);
+        if (signer == address(0)) revert InvalidSignature();
+    }
+    
+    // ============ AggregatorInterface (V2) Implementation ============
+    
+    /**
+     * @dev Like EACAggregatorProxy, the V2 getters return 0 instead of
+     *      reverting when there is no data for a round. latestAnswer() honours
+     *      RevertOnStale; it has no field to flag stale data with.
+     */
+    function latestAnswer() external view override returns (int256) {
+        if (
+            stalenessPolicy == StalenessPolicy.RevertOnStale &&
+            _latestRound.updatedAt != 0 &&
+            _isStale(_latestRound.updatedAt)
+        ) revert StaleData();
+        return _latestRound.answer;
+    }
+    
+    function latestTimestamp() external view override returns (uint256) {
+        return _latestRound.updatedAt;
+    }
+    
+    function latestRound() external view override returns (uint256) {
+        return _latestRound.roundId;
+    }
+    
+    function getAnswer(uint256 _roundId) external view override returns (int256) {
+        if (_roundId > type(uint80).max) return 0;
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(uint80(_roundId));
+        return _phaseRounds[phase][aggregatorRoundId].answer;
+    }
+    
+    function getTimestamp(uint256 _roundId) external view override returns (uint256) {
+        if (_roundId > type(uint80).max) return 0;
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(uint80(_roundId));
+        return _phaseRounds[phase][aggregatorRoundId].updatedAt;
+    }
+    
     // ============ View Functions for Monitoring ============
     
     /**
@@ -207,7 +607,7 @@ contract FeedProxy is AggregatorV3Interface {
      */
     function isFeedFresh() external view returns (bool) {
         if (_latestRound.updatedAt == 0) return false;
-        return (block.timestamp - _latestRound.updatedAt) <= _heartbeat;
+        return !_isStale(_latestRound.updatedAt);
     }
     
     /**
@@ -243,12 +643,25 @@ contract FeedProxy is AggregatorV3Interface {
     
     // ============ Admin Functions ============
     
-    function addAuthorizedSender(address sender) external onlyOwner {
+    function addAuthorizedSender(address sender) external timelocked {
         if (sender == address(0)) revert InvalidAddress();
         authorizedSenders[sender] = true;
         emit AuthorizedSenderUpdated(sender, true);
     }
     
+    /**
+     * @notice Accept Callbacks from a reactor through the destination chain's
+     *         callback proxy
+     * @param callbackProxy_ Reactive Network callback proxy; zero disables
+     *        updateRoundDataCallback()
+     * @param rvmId_ RVM ID of the reactor, i.e. the account that deployed it
+     */
+    function setReactiveCallback(address callbackProxy_, address rvmId_) external timelocked {
+        callbackProxy = callbackProxy_;
+        rvmId = rvmId_;
+        emit ReactiveCallbackUpdated(callbackProxy_, rvmId_);
+    }
+    
     function removeAuthorizedSender(address sender) external onlyOwner {
         authorizedSenders[sender] = false;
         emit AuthorizedSenderUpdated(sender, false);
@@ -259,25 +672,228 @@ contract FeedProxy is AggregatorV3Interface {
         emit EmergencyPaused(msg.sender);
     }
     
-    function unpause() external onlyOwner {
+    function unpause() external timelocked {
         paused = false;
         emit EmergencyUnpaused(msg.sender);
     }
     
-    function updateDescription(string memory newDescription) external onlyOwner {
+    function setPhaseAggregator(uint16 phase, address aggregator) external timelocked {
+        if (aggregator == address(0)) revert InvalidAddress();
+        phaseAggregators[phase] = aggregator;
+        emit PhaseAggregatorUpdated(phase, aggregator);
+    }
+    
+    /**
+     * @notice Replace the signer set and threshold for signed reports
+     * @dev An empty set with a zero threshold turns updateRoundDataSigned() off
+     */
+    function setSigners(address[] calldata signers, uint256 threshold) external timelocked {
+        if (threshold > signers.length || (threshold == 0 && signers.length != 0)) {
+            revert InvalidSignerSet();
+        }
+        
+        for (uint256 i = 0; i < _signers.length; i++) {
+            isSigner[_signers[i]] = false;
+        }
+        for (uint256 i = 0; i < signers.length; i++) {
+            if (signers[i] == address(0)) revert InvalidAddress();
+            if (isSigner[signers[i]]) revert InvalidSignerSet();
+            isSigner[signers[i]] = true;
+        }
+        _signers = signers;
+        signatureThreshold = threshold;
+        
+        emit SignersUpdated(signers, threshold);
+    }
+    
+    /**
+     * @notice Configure the price guards applied to every new round
+     * @dev Zero disables a bound. maxDeviationBps is capped at 1,000,000
+     *      (a 100x move); backfilled rounds only check the answer bounds.
+     */
+    function setPriceGuards(
+        int256 minAnswer_,
+        int256 maxAnswer_,
+        uint256 maxDeviationBps_,
+        bool quarantineEnabled_
+    ) external timelocked {
+        if (minAnswer_ < 0 || maxAnswer_ < 0 || maxDeviationBps_ > 1_000_000) revert InvalidPriceGuards();
+        if (maxAnswer_ != 0 && minAnswer_ > maxAnswer_) revert InvalidPriceGuards();
+        
+        minAnswer = minAnswer_;
+        maxAnswer = maxAnswer_;
+        maxDeviationBps = maxDeviationBps_;
+        quarantineEnabled = quarantineEnabled_;
+        emit PriceGuardsUpdated(minAnswer_, maxAnswer_, maxDeviationBps_, quarantineEnabled_);
+    }
+    
+    /**
+     * @notice Publish a quarantined round, overriding the price guards
+     * @dev It must still be newer than the latest round; the staleness
+     *      check is not repeated, since the owner is vouching for the answer
+     */
+    function applyQuarantinedRound(uint80 roundId) external onlyOwner {
+        RoundData memory round = _quarantinedRounds[roundId];
+        if (round.updatedAt == 0) revert NoDataAvailable();
+        if (roundId <= _latestRound.roundId || ChainlinkRoundIds.phaseOf(roundId) < phaseId) {
+            revert InvalidRound();
+        }
+        
+        delete _quarantinedRounds[roundId];
+        _storeRound(round);
+        totalUpdates++;
+        emit QuarantinedRoundApplied(roundId);
+    }
+    
+    function discardQuarantinedRound(uint80 roundId) external onlyOwner {
+        if (_quarantinedRounds[roundId].updatedAt == 0) revert NoDataAvailable();
+        delete _quarantinedRounds[roundId];
+        emit QuarantinedRoundDiscarded(roundId);
+    }
+    
+    function setBackfillMode(bool enabled) external timelocked {
+        backfillEnabled = enabled;
+        emit BackfillModeUpdated(enabled);
+    }
+    
+    function updateDescription(string memory newDescription) external timelocked {
         _description = newDescription;
     }
     
+    /**
+     * @notice Propose a new owner
+     * @dev Nothing changes until newOwner calls acceptOwnership(); proposing
+     *      again replaces the pending owner
+     */
     function transferOwnership(address newOwner) external onlyOwner {
         if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert Unauthorized();
         address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(oldOwner, msg.sender);
+    }
+    
+    // ============ Timelock ============
+    
+    /**
+     * @notice Set the delay for timelocked admin functions
+     * @dev Turning the timelock on takes effect immediately; once it is on,
+     *      changing or disabling it is itself a timelocked action
+     */
+    function setTimelockDelay(uint256 delay) external timelocked {
+        if (delay > MAX_TIMELOCK_DELAY) revert InvalidTimelockDelay();
+        timelockDelay = delay;
+        emit TimelockDelayUpdated(delay);
+    }
+    
+    /**
+     * @notice Queue a call to one of this contract's timelocked functions
+     * @param data ABI-encoded call, e.g. addAuthorizedSender(sender)
+     * @return actionId Identifier for executeAction() and cancelAction()
+     */
+    function queueAction(bytes calldata data) external onlyOwner returns (bytes32 actionId) {
+        if (timelockDelay == 0) revert TimelockDisabled();
+        
+        uint256 eta = block.timestamp + timelockDelay;
+        actionId = keccak256(abi.encode(data, eta, _actionNonce++));
+        _queuedActions[actionId] = QueuedAction({id: actionId, data: data, eta: eta});
+        _queuedActionIds.push(actionId);
+        emit ActionQueued(actionId, data, eta);
+    }
+    
+    /**
+     * @notice Run a queued action once its delay has passed
+     * @dev A reverting call reverts with the call's own error and stays queued
+     */
+    function executeAction(bytes32 actionId) external onlyOwner {
+        QueuedAction memory action = _queuedActions[actionId];
+        if (action.eta == 0) revert ActionNotQueued();
+        if (block.timestamp < action.eta) revert ActionNotReady(action.eta);
+        
+        _removeQueuedAction(actionId);
+        (bool success, bytes memory result) = address(this).call(action.data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        emit ActionExecuted(actionId);
     }
     
-    // ============ Getter for Heartbeat ============
+    function cancelAction(bytes32 actionId) external onlyOwner {
+        if (_queuedActions[actionId].eta == 0) revert ActionNotQueued();
+        _removeQueuedAction(actionId);
+        emit ActionCancelled(actionId);
+    }
+    
+    function getQueuedActions() external view returns (QueuedAction[] memory actions) {
+        actions = new QueuedAction[](_queuedActionIds.length);
+        for (uint256 i = 0; i < actions.length; i++) {
+            actions[i] = _queuedActions[_queuedActionIds[i]];
+        }
+    }
+    
+    function _removeQueuedAction(bytes32 actionId) private {
+        delete _queuedActions[actionId];
+        uint256 last = _queuedActionIds.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (_queuedActionIds[i] == actionId) {
+                _queuedActionIds[i] = _queuedActionIds[last];
+                _queuedActionIds.pop();
+                return;
+            }
+        }
+    }
+    
+    /**
+     * @notice Change the expected update interval of the origin feed
+     * @dev Fails if it would exceed an explicitly set rejection window
+     */
+    function setHeartbeat(uint256 heartbeat_) external timelocked {
+        if (heartbeat_ == 0) revert InvalidStalenessConfig();
+        if (_staleRejectionWindow != 0 && heartbeat_ > _staleRejectionWindow) {
+            revert InvalidStalenessConfig();
+        }
+        
+        uint256 previousHeartbeat = _heartbeat;
+        _heartbeat = heartbeat_;
+        emit HeartbeatUpdated(previousHeartbeat, heartbeat_);
+    }
+    
+    /**
+     * @notice Set the age at which updates are rejected as stale
+     * @dev 0 restores the default of twice the heartbeat. The window may not
+     *      be shorter than the heartbeat, or fresh rounds would be rejected.
+     */
+    function setStaleRejectionWindow(uint256 window) external timelocked {
+        if (window != 0 && window < _heartbeat) revert InvalidStalenessConfig();
+        _staleRejectionWindow = window;
+        emit StaleRejectionWindowUpdated(window);
+    }
+    
+    function setStalenessPolicy(StalenessPolicy policy) external timelocked {
+        stalenessPolicy = policy;
+        emit StalenessPolicyUpdated(policy);
+    }
+    
+    // ============ Staleness ============
     
     function heartbeat() external view returns (uint256) {
         return _heartbeat;
     }
+    
+    /// @notice Age at which updateRoundData() rejects a round as stale
+    function staleRejectionWindow() public view returns (uint256) {
+        return _staleRejectionWindow == 0 ? _heartbeat * 2 : _staleRejectionWindow;
+    }
+    
+    function _isStale(uint256 updatedAt) private view returns (bool) {
+        return block.timestamp - updatedAt > _heartbeat;
+    }
 }
\ No newline at end of file
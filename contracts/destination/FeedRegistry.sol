@@ -0,0 +1,488 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../libraries/ChainlinkRoundIds.sol";
+import "./FeedRegistryAggregator.sol";
+
+/**
+ * @title FeedRegistry
+ * @notice Destination-side store for many mirrored feeds, so one contract
+ *         with one set of authorized senders and one pause switch can
+ *         replace a FeedProxy per pair
+ * @dev Feeds are keyed by the reactor's feedId and, optionally, by a
+ *      (base, quote) pair for reads shaped like Chainlink's
+ *      FeedRegistryInterface. Rounds follow the same validation as FeedProxy.
+ *      deployAggregator() creates a FeedRegistryAggregator view per feed for
+ *      consumers (and senders) that expect a single AggregatorV2V3Interface.
+ */
+contract FeedRegistry {
+
+    struct Feed {
+        address base;
+        address quote;
+        uint8 decimals;
+        uint16 phaseId;
+        bool registered;
+        address aggregator;
+        uint256 heartbeat;
+        string description;
+    }
+
+    /// @notice A stored round; all zero when the round is unknown
+    struct Round {
+        uint80 roundId;
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
+    /// @dev One entry of updateRoundDataBatch()
+    struct RoundUpdate {
+        bytes32 feedId;
+        uint80 roundId;
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
+    mapping(bytes32 => Feed) private _feeds;
+    bytes32[] private _feedIds;
+    mapping(bytes32 => Round) private _latestRounds;
+    /// @dev Rounds keyed by feed, then phase, then the phase aggregator's round ID
+    mapping(bytes32 => mapping(uint16 => mapping(uint64 => Round))) private _rounds;
+
+    /// @notice Feed registered for a (base, quote) pair
+    mapping(address => mapping(address => bytes32)) public pairFeeds;
+    /// @notice Feed served by each deployed FeedRegistryAggregator
+    mapping(address => bytes32) public aggregatorFeeds;
+
+    // Access control
+    address public owner;
+    mapping(address => bool) public authorizedSenders;
+    bool public paused;
+
+    // Reactive Network callbacks
+    /// @notice Callback proxy allowed to update feeds through their views; zero disables it
+    address public callbackProxy;
+    /// @notice RVM ID (the reactor's deployer) callbacks must carry
+    address public rvmId;
+
+    // Monitoring
+    uint256 public totalUpdates;
+
+    // ============ Events ============
+
+    event FeedRegistered(
+        bytes32 indexed feedId,
+        address indexed base,
+        address indexed quote,
+        uint8 decimals,
+        string description,
+        uint256 heartbeat
+    );
+    event AggregatorDeployed(bytes32 indexed feedId, address aggregator);
+    event RoundUpdated(
+        bytes32 indexed feedId,
+        uint80 indexed roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt
+    );
+    event PhaseChanged(bytes32 indexed feedId, uint16 previousPhaseId, uint16 phaseId);
+    event AuthorizedSenderUpdated(address indexed sender, bool authorized);
+    event ReactiveCallbackUpdated(address callbackProxy, address rvmId);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event EmergencyPaused(address indexed by);
+    event EmergencyUnpaused(address indexed by);
+    event StaleDataRejected(bytes32 indexed feedId, uint80 roundId, uint256 timeSinceUpdate);
+
+    // ============ Errors ============
+
+    error Unauthorized();
+    error Paused();
+    error InvalidRound();
+    error InvalidAnswer();
+    error StaleData();
+    error NoDataAvailable();
+    error InvalidAddress();
+    error InvalidTimestamp();
+    error FeedNotFound();
+    error FeedAlreadyRegistered();
+
+    // ============ Modifiers ============
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert Unauthorized();
+        _;
+    }
+
+    modifier onlyAuthorizedSender() {
+        if (!authorizedSenders[msg.sender]) revert Unauthorized();
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (paused) revert Paused();
+        _;
+    }
+
+    // ============ Constructor ============
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    // ============ Feed Management ============
+
+    /**
+     * @notice Register a feed under its reactor feedId
+     * @dev base and quote are both set or both zero; a feed without a pair
+     *      is only readable by feedId and through its aggregator view
+     */
+    function registerFeed(
+        bytes32 feedId,
+        address base,
+        address quote,
+        uint8 decimals_,
+        string calldata description_,
+        uint256 heartbeat_
+    ) external onlyOwner {
+        if (feedId == bytes32(0)) revert FeedNotFound();
+        if (_feeds[feedId].registered) revert FeedAlreadyRegistered();
+        if ((base == address(0)) != (quote == address(0))) revert InvalidAddress();
+        if (heartbeat_ == 0) revert InvalidAnswer();
+
+        if (base != address(0)) {
+            if (pairFeeds[base][quote] != bytes32(0)) revert FeedAlreadyRegistered();
+            pairFeeds[base][quote] = feedId;
+        }
+
+        _feeds[feedId] = Feed({
+            base: base,
+            quote: quote,
+            decimals: decimals_,
+            phaseId: 0,
+            registered: true,
+            aggregator: address(0),
+            heartbeat: heartbeat_,
+            description: description_
+        });
+        _feedIds.push(feedId);
+
+        emit FeedRegistered(feedId, base, quote, decimals_, description_, heartbeat_);
+    }
+
+    /**
+     * @notice Deploy the AggregatorV2V3Interface view of a feed
+     * @dev One view per feed; getFeed() returns it for the feed's pair
+     */
+    function deployAggregator(bytes32 feedId) external onlyOwner returns (address aggregator) {
+        Feed storage feed = _feed(feedId);
+        if (feed.aggregator != address(0)) revert FeedAlreadyRegistered();
+
+        aggregator = address(new FeedRegistryAggregator(this, feedId));
+        feed.aggregator = aggregator;
+        aggregatorFeeds[aggregator] = feedId;
+
+        emit AggregatorDeployed(feedId, aggregator);
+    }
+
+    // ============ Core Update Functions ============
+
+    function updateRoundData(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external onlyAuthorizedSender whenNotPaused {
+        _updateRoundData(feedId, roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+
+    /**
+     * @notice Update several feeds in one transaction
+     * @dev All-or-nothing: any invalid entry reverts the whole batch
+     */
+    function updateRoundDataBatch(RoundUpdate[] calldata updates)
+        external
+        onlyAuthorizedSender
+        whenNotPaused
+    {
+        for (uint256 i = 0; i < updates.length; i++) {
+            RoundUpdate calldata update = updates[i];
+            _updateRoundData(
+                update.feedId,
+                update.roundId,
+                update.answer,
+                update.startedAt,
+                update.updatedAt,
+                update.answeredInRound
+            );
+        }
+    }
+
+    /**
+     * @notice Entry point for FeedRegistryAggregator.updateRoundData()
+     * @dev The view passes on its caller, who must be an authorized sender
+     *      of the registry; the view itself only picks the feed
+     */
+    function updateRoundDataFromAggregator(
+        address sender,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external whenNotPaused {
+        bytes32 feedId = aggregatorFeeds[msg.sender];
+        if (feedId == bytes32(0) || !authorizedSenders[sender]) revert Unauthorized();
+        _updateRoundData(feedId, roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+
+    /**
+     * @notice Entry point for FeedRegistryAggregator.updateRoundDataCallback()
+     * @dev The view passes on its caller, which must be the callback proxy,
+     *      and the RVM ID Reactive Network filled into the callback
+     */
+    function updateRoundDataCallbackFromAggregator(
+        address sender,
+        address rvm,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external whenNotPaused {
+        bytes32 feedId = aggregatorFeeds[msg.sender];
+        if (feedId == bytes32(0) || callbackProxy == address(0) || sender != callbackProxy || rvm != rvmId) {
+            revert Unauthorized();
+        }
+        _updateRoundData(feedId, roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+
+    function _updateRoundData(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) private {
+        Feed storage feed = _feed(feedId);
+
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(roundId);
+        if (aggregatorRoundId == 0 || phase < feed.phaseId) revert InvalidRound();
+        if (roundId <= _latestRounds[feedId].roundId) revert InvalidRound();
+        if (answer <= 0) revert InvalidAnswer();
+        if (startedAt == 0 || startedAt > updatedAt) revert InvalidTimestamp();
+
+        uint256 secondsSinceUpdate = block.timestamp - updatedAt;
+        if (secondsSinceUpdate > feed.heartbeat * 2) {
+            emit StaleDataRejected(feedId, roundId, secondsSinceUpdate);
+            revert StaleData();
+        }
+
+        Round memory round = Round({
+            roundId: roundId,
+            answer: answer,
+            startedAt: startedAt,
+            updatedAt: updatedAt,
+            answeredInRound: answeredInRound
+        });
+
+        if (phase != feed.phaseId) {
+            emit PhaseChanged(feedId, feed.phaseId, phase);
+            feed.phaseId = phase;
+        }
+
+        _latestRounds[feedId] = round;
+        _rounds[feedId][phase][aggregatorRoundId] = round;
+        totalUpdates++;
+
+        emit RoundUpdated(feedId, roundId, answer, startedAt, updatedAt);
+    }
+
+    // ============ Reads by feedId ============
+
+    function getAllFeeds() external view returns (bytes32[] memory) {
+        return _feedIds;
+    }
+
+    function getFeedConfig(bytes32 feedId) external view returns (Feed memory) {
+        return _feed(feedId);
+    }
+
+    /// @notice Latest round of a feed, all zero before its first update
+    function getLatestRound(bytes32 feedId) public view returns (Round memory) {
+        _feed(feedId);
+        return _latestRounds[feedId];
+    }
+
+    /// @notice A stored round of a feed, all zero when unknown
+    function getRound(bytes32 feedId, uint256 roundId) public view returns (Round memory round) {
+        _feed(feedId);
+        if (roundId > type(uint80).max) return round;
+        (uint16 phase, uint64 aggregatorRoundId) = ChainlinkRoundIds.parse(uint80(roundId));
+        return _rounds[feedId][phase][aggregatorRoundId];
+    }
+
+    function latestRoundDataByFeedId(bytes32 feedId)
+        public
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return _unpack(getLatestRound(feedId));
+    }
+
+    function getRoundDataByFeedId(bytes32 feedId, uint80 _roundId)
+        public
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return _unpack(getRound(feedId, _roundId));
+    }
+
+    // ============ FeedRegistryInterface-style Reads ============
+
+    function getFeed(address base, address quote) external view returns (address) {
+        return _feeds[_pairFeed(base, quote)].aggregator;
+    }
+
+    function decimals(address base, address quote) external view returns (uint8) {
+        return _feeds[_pairFeed(base, quote)].decimals;
+    }
+
+    function description(address base, address quote) external view returns (string memory) {
+        return _feeds[_pairFeed(base, quote)].description;
+    }
+
+    function version(address, address) external pure returns (uint256) {
+        return 1;
+    }
+
+    function latestRoundData(address base, address quote)
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return latestRoundDataByFeedId(_pairFeed(base, quote));
+    }
+
+    function getRoundData(address base, address quote, uint80 _roundId)
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return getRoundDataByFeedId(_pairFeed(base, quote), _roundId);
+    }
+
+    /// @dev The V2 getters return 0 instead of reverting when there is no data
+    function latestAnswer(address base, address quote) external view returns (int256) {
+        return getLatestRound(_pairFeed(base, quote)).answer;
+    }
+
+    function latestTimestamp(address base, address quote) external view returns (uint256) {
+        return getLatestRound(_pairFeed(base, quote)).updatedAt;
+    }
+
+    function latestRound(address base, address quote) external view returns (uint256) {
+        return getLatestRound(_pairFeed(base, quote)).roundId;
+    }
+
+    function getAnswer(address base, address quote, uint256 roundId) external view returns (int256) {
+        return getRound(_pairFeed(base, quote), roundId).answer;
+    }
+
+    function getTimestamp(address base, address quote, uint256 roundId) external view returns (uint256) {
+        return getRound(_pairFeed(base, quote), roundId).updatedAt;
+    }
+
+    // ============ Admin Functions ============
+
+    function addAuthorizedSender(address sender) external onlyOwner {
+        if (sender == address(0)) revert InvalidAddress();
+        authorizedSenders[sender] = true;
+        emit AuthorizedSenderUpdated(sender, true);
+    }
+
+    /**
+     * @notice Accept Callbacks from a reactor, through the feeds' views
+     * @param callbackProxy_ Reactive Network callback proxy; zero disables callbacks
+     * @param rvmId_ RVM ID of the reactor, i.e. the account that deployed it
+     */
+    function setReactiveCallback(address callbackProxy_, address rvmId_) external onlyOwner {
+        callbackProxy = callbackProxy_;
+        rvmId = rvmId_;
+        emit ReactiveCallbackUpdated(callbackProxy_, rvmId_);
+    }
+
+    function removeAuthorizedSender(address sender) external onlyOwner {
+        authorizedSenders[sender] = false;
+        emit AuthorizedSenderUpdated(sender, false);
+    }
+
+    function pause() external onlyOwner {
+        paused = true;
+        emit EmergencyPaused(msg.sender);
+    }
+
+    function unpause() external onlyOwner {
+        paused = false;
+        emit EmergencyUnpaused(msg.sender);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    // ============ Internal Functions ============
+
+    function _feed(bytes32 feedId) private view returns (Feed storage feed) {
+        feed = _feeds[feedId];
+        if (!feed.registered) revert FeedNotFound();
+    }
+
+    function _pairFeed(address base, address quote) private view returns (bytes32 feedId) {
+        feedId = pairFeeds[base][quote];
+        if (feedId == bytes32(0)) revert FeedNotFound();
+    }
+
+    function _unpack(Round memory round)
+        private
+        pure
+        returns (uint80, int256, uint256, uint256, uint80)
+    {
+        if (round.updatedAt == 0) revert NoDataAvailable();
+        return (round.roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+}
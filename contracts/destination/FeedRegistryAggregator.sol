@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV2V3Interface.sol";
+import "./FeedRegistry.sol";
+
+/**
+ * @title FeedRegistryAggregator
+ * @notice AggregatorV2V3Interface view of one FeedRegistry feed
+ * @dev Deployed by FeedRegistry.deployAggregator(). Reads come from the
+ *      registry; updateRoundData() is passed on to it with the caller, so the
+ *      view can stand in for a FeedProxy as a reactor destination. Answer
+ *      events are emitted by the registry, not by the view.
+ */
+contract FeedRegistryAggregator is AggregatorV2V3Interface {
+
+    FeedRegistry public immutable registry;
+    bytes32 public immutable feedId;
+
+    constructor(FeedRegistry registry_, bytes32 feedId_) {
+        registry = registry_;
+        feedId = feedId_;
+    }
+
+    // ============ Updates ============
+
+    function updateRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        registry.updateRoundDataFromAggregator(msg.sender, roundId, answer, startedAt, updatedAt, answeredInRound);
+    }
+
+    function updateRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        registry.updateRoundDataFromAggregator(msg.sender, roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+
+    /// @notice Reactive Network Callback entry, like FeedProxy.updateRoundDataCallback()
+    function updateRoundDataCallback(
+        address rvm,
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        registry.updateRoundDataCallbackFromAggregator(
+            msg.sender,
+            rvm,
+            roundId,
+            answer,
+            startedAt,
+            updatedAt,
+            answeredInRound
+        );
+    }
+
+    // ============ AggregatorV3Interface Implementation ============
+
+    function decimals() external view override returns (uint8) {
+        return registry.getFeedConfig(feedId).decimals;
+    }
+
+    function description() external view override returns (string memory) {
+        return registry.getFeedConfig(feedId).description;
+    }
+
+    function version() external pure override returns (uint256) {
+        return 1;
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return registry.latestRoundDataByFeedId(feedId);
+    }
+
+    function getRoundData(uint80 _roundId)
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return registry.getRoundDataByFeedId(feedId, _roundId);
+    }
+
+    // ============ AggregatorInterface (V2) Implementation ============
+
+    function latestAnswer() external view override returns (int256) {
+        return registry.getLatestRound(feedId).answer;
+    }
+
+    function latestTimestamp() external view override returns (uint256) {
+        return registry.getLatestRound(feedId).updatedAt;
+    }
+
+    function latestRound() external view override returns (uint256) {
+        return registry.getLatestRound(feedId).roundId;
+    }
+
+    function getAnswer(uint256 roundId) external view override returns (int256) {
+        return registry.getRound(feedId, roundId).answer;
+    }
+
+    function getTimestamp(uint256 roundId) external view override returns (uint256) {
+        return registry.getRound(feedId, roundId).updatedAt;
+    }
+}
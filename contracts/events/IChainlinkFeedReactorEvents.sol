@@ -12,8 +12,8 @@ interface IChainlinkFeedReactorEvents {
      * @param feedId Unique identifier for the feed
      * @param originChainId Chain ID where Chainlink feed exists
      * @param feedAddress Address of Chainlink aggregator
-     * @param destinationChainId Chain ID where feed should be mirrored
-     * @param destinationProxy Address of FeedProxy contract on destination
+     * @param destinationChainId Chain ID of the first destination (index 0)
+     * @param destinationProxy Address of FeedProxy contract on the first destination
      */
     event FeedRegistered(
         bytes32 indexed feedId,
@@ -24,8 +24,123 @@ interface IChainlinkFeedReactorEvents {
     );
     
     /**
-     * @notice Emitted when an update is forwarded to destination chain
+     * @notice Emitted when a composite feed is registered, after its FeedRegistered
+     * @param feedId Composite feed identifier
+     * @param baseFeedId Numerator (Ratio) or first factor (Product)
+     * @param quoteFeedId Denominator (Ratio) or second factor (Product)
+     * @param op How the two inputs' answers are combined
+     */
+    event CompositeRegistered(
+        bytes32 indexed feedId,
+        bytes32 indexed baseFeedId,
+        bytes32 indexed quoteFeedId,
+        CompositeOp op
+    );
+    
+    /**
+     * @notice Emitted when an aggregate feed is registered, after its FeedRegistered
+     * @param feedId Aggregate feed identifier
+     * @param sourceIds Source feeds, in source index order
+     * @param minSources Fresh sources needed for a round
+     * @param stalenessWindow Largest lag behind the newest source, in seconds
+     */
+    event AggregateRegistered(
+        bytes32 indexed feedId,
+        bytes32[] sourceIds,
+        uint8 minSources,
+        uint32 stalenessWindow
+    );
+    
+    /**
+     * @notice Emitted when a feed is removed; its metrics are archived and its
+     *         ID can be registered again
+     * @param feedId Feed identifier
+     */
+    event FeedDeregistered(bytes32 indexed feedId);
+    
+    /**
+     * @notice Emitted when a deactivated feed is processed again
+     * @param feedId Feed identifier
+     */
+    event FeedActivated(bytes32 indexed feedId);
+    
+    /**
+     * @notice Emitted when a feed stops being processed, without losing its state
+     * @param feedId Feed identifier
+     */
+    event FeedDeactivated(bytes32 indexed feedId);
+    
+    /**
+     * @notice Emitted when a feed's thresholds or TWAP window change
+     * @param feedId Feed identifier
+     * @param deviationThreshold Fixed threshold in basis points
+     * @param heartbeat Maximum time between updates, in seconds
+     * @param deviationMode How the threshold is chosen
+     * @param minDeviation Lowest adaptive threshold in basis points
+     * @param maxDeviation Highest adaptive threshold in basis points
+     * @param twapWindow Seconds twap destinations average over, or 0 for the heartbeat
+     */
+    event FeedConfigUpdated(
+        bytes32 indexed feedId,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        DeviationMode deviationMode,
+        uint256 minDeviation,
+        uint256 maxDeviation,
+        uint256 twapWindow
+    );
+    
+    /**
+     * @notice Emitted when a destination is added to a feed, including the
+     *         first one at registration
+     * @param feedId Feed identifier
+     * @param destinationIndex Index of the new destination
+     * @param chainId Chain ID where the feed is mirrored
+     * @param proxy Address of FeedProxy contract on that chain
+     * @param deviationThreshold Deviation override in basis points (0 = feed default)
+     * @param heartbeat Heartbeat override in seconds (0 = feed default)
+     * @param twap Whether the destination receives the feed's TWAP instead of each answer
+     */
+    event DestinationAdded(
+        bytes32 indexed feedId,
+        uint256 destinationIndex,
+        uint64 chainId,
+        address proxy,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        bool twap
+    );
+    
+    /**
+     * @notice Emitted when a destination's deviation/heartbeat overrides change
+     * @param feedId Feed identifier
+     * @param destinationIndex Destination index
+     * @param deviationThreshold Deviation override in basis points (0 = feed default)
+     * @param heartbeat Heartbeat override in seconds (0 = feed default)
+     */
+    event DestinationOverridesUpdated(
+        bytes32 indexed feedId,
+        uint256 destinationIndex,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    );
+    
+    /**
+     * @notice Emitted when mirroring to a destination is paused or resumed
+     * @param feedId Feed identifier
+     * @param destinationIndex Destination index
+     * @param active Whether the destination receives updates
+     */
+    event DestinationActiveUpdated(
+        bytes32 indexed feedId,
+        uint256 destinationIndex,
+        bool active
+    );
+    
+    /**
+     * @notice Emitted when an update is forwarded to a destination chain
      * @param feedId Feed identifier
+     * @param destinationIndex Destination the update is forwarded to
      * @param roundId Chainlink round ID
      * @param price Price value
      * @param updatedAt Timestamp when price was updated
@@ -33,6 +148,7 @@ interface IChainlinkFeedReactorEvents {
      */
     event UpdateForwarded(
         bytes32 indexed feedId,
+        uint256 destinationIndex,
         uint80 roundId,
         int256 price,
         uint256 updatedAt,
@@ -40,19 +156,157 @@ interface IChainlinkFeedReactorEvents {
     );
     
     /**
-     * @notice Emitted when an update is skipped (filtered out)
+     * @notice Emitted when an update is skipped (filtered out) for a destination
      * @param feedId Feed identifier
+     * @param destinationIndex Destination the update is skipped for
      * @param roundId Chainlink round ID
      * @param price Price value
      * @param reason Reason for skipping the update
      */
     event UpdateSkipped(
         bytes32 indexed feedId,
+        uint256 destinationIndex,
         uint80 roundId,
         int256 price,
         SkipReason reason
     );
     
+    /**
+     * @notice Emitted when a feed's rounds move to a new Chainlink phase,
+     *         i.e. the origin proxy switched to a new aggregator
+     * @param feedId Feed identifier
+     * @param previousPhaseId Phase of the previously processed round
+     * @param phaseId Phase of the round just processed
+     */
+    event FeedPhaseChanged(bytes32 indexed feedId, uint16 previousPhaseId, uint16 phaseId);
+    
+    /**
+     * @notice Emitted when a pollFeeds() entry reverts; the rest of the batch
+     *         is still processed
+     * @param feedId Feed identifier
+     * @param roundId Round the entry carried
+     * @param reason Revert data of the failed entry
+     */
+    event PollFailed(bytes32 indexed feedId, uint80 roundId, bytes reason);
+    
+    /**
+     * @notice Emitted when the owner changes how a feed is triggered
+     * @param feedId Feed identifier
+     * @param mode Entry points that may process the feed's rounds
+     */
+    event TriggerModeUpdated(bytes32 indexed feedId, TriggerMode mode);
+    
+    /**
+     * @notice Emitted when the reactor subscribes to a feed's AnswerUpdated logs
+     * @param feedId Feed identifier
+     * @param originChainId Chain ID where the Chainlink feed exists
+     * @param feedAddress Address of the Chainlink aggregator
+     */
+    event FeedSubscribed(
+        bytes32 indexed feedId,
+        uint64 originChainId,
+        address feedAddress
+    );
+    
+    /**
+     * @notice Emitted when the reactor drops a feed's AnswerUpdated subscription
+     * @param feedId Feed identifier
+     * @param originChainId Chain ID where the Chainlink feed exists
+     * @param feedAddress Address of the Chainlink aggregator
+     */
+    event FeedUnsubscribed(
+        bytes32 indexed feedId,
+        uint64 originChainId,
+        address feedAddress
+    );
+    
+    /**
+     * @notice Emitted when the system contract address is set or changed
+     * @param previousSystemContract Previous system contract (zero on deployment)
+     * @param newSystemContract New system contract
+     */
+    event SystemContractUpdated(
+        address previousSystemContract,
+        address newSystemContract
+    );
+    
+    /**
+     * @notice Emitted when an account is added to or removed from the relayer allowlist
+     * @param relayer Account allowed to call pollFeed() and confirmForward()
+     * @param authorized Whether the account is now authorized
+     */
+    event AuthorizedRelayerUpdated(address indexed relayer, bool authorized);
+    
+    /**
+     * @notice Emitted when confirmForward() settles a pending forward
+     * @param feedId Feed identifier
+     * @param destinationIndex Destination the forward was sent to
+     * @param roundId Round the pending forward was recorded for
+     */
+    event ForwardConfirmed(bytes32 indexed feedId, uint256 destinationIndex, uint80 roundId);
+    
+    /**
+     * @notice Emitted when an unconfirmed pending forward is cleared after expiry
+     * @param feedId Feed identifier
+     * @param destinationIndex Destination the forward was meant for
+     * @param roundId Round the pending forward was recorded for
+     */
+    event PendingForwardExpired(bytes32 indexed feedId, uint256 destinationIndex, uint80 roundId);
+    
+    /**
+     * @notice Emitted when the owner realigns a destination's last-sent state with its proxy
+     * @param feedId Feed identifier
+     * @param destinationIndex Destination index
+     * @param answer Answer the destination serves
+     * @param updatedAt Timestamp the destination serves
+     */
+    event LastSentRealigned(
+        bytes32 indexed feedId,
+        uint256 destinationIndex,
+        int256 answer,
+        uint256 updatedAt
+    );
+    
+    /**
+     * @notice Emitted when the owner proposes a new owner
+     * @param previousOwner Current owner
+     * @param newOwner Account that must call acceptOwnership()
+     */
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    
+    /**
+     * @notice Emitted when the pending owner accepts ownership
+     * @param previousOwner Owner being replaced
+     * @param newOwner New owner
+     */
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    
+    /**
+     * @notice Emitted when the timelock delay changes
+     * @param delay Seconds between queueing and executing an action (0 = disabled)
+     */
+    event TimelockDelayUpdated(uint256 delay);
+    
+    /**
+     * @notice Emitted when the owner queues a timelocked admin call
+     * @param actionId Identifier for executeAction() and cancelAction()
+     * @param data ABI-encoded call to the reactor
+     * @param eta Earliest time the action can be executed
+     */
+    event ActionQueued(bytes32 indexed actionId, bytes data, uint256 eta);
+    
+    /**
+     * @notice Emitted when a queued action is executed
+     * @param actionId Action identifier
+     */
+    event ActionExecuted(bytes32 indexed actionId);
+    
+    /**
+     * @notice Emitted when the owner cancels a queued action
+     * @param actionId Action identifier
+     */
+    event ActionCancelled(bytes32 indexed actionId);
+    
     // Note: Callback event is inherited from IReactive interface
     // No need to redefine it here
     
@@ -62,7 +316,38 @@ interface IChainlinkFeedReactorEvents {
     enum UpdateReason {
         FirstUpdate,
         DeviationThreshold,
-        HeartbeatExpired
+        HeartbeatExpired,
+        AdaptiveDeviation
+    }
+    
+    /**
+     * @notice How a feed's deviation threshold is chosen
+     * @dev Adaptive: twice the feed's average round-to-round move, within its
+     *      minDeviation/maxDeviation bounds. Destination overrides stay fixed.
+     */
+    enum DeviationMode {
+        Fixed,
+        Adaptive
+    }
+    
+    /**
+     * @notice How a composite feed combines its two input feeds
+     * @dev Ratio: base / quote, e.g. ETH/USD over BTC/USD for ETH/BTC.
+     *      Product: base * quote, e.g. LINK/ETH times ETH/USD for LINK/USD.
+     */
+    enum CompositeOp {
+        Ratio,
+        Product
+    }
+    
+    /**
+     * @notice Entry points allowed to process a feed's rounds
+     * @dev Any: both pollFeed() and react(); both share the duplicate-round guard
+     */
+    enum TriggerMode {
+        Any,
+        Poll,
+        React
     }
     
     /**
@@ -11,17 +11,6 @@ abstract contract AbstractReactive {
     /// @dev Official Reactive Network value: 0xa65f96fc951c35ead38878e0f0b7a3c744a6f5ccc1476b313353ce31712313ad
     uint256 constant REACTIVE_IGNORE = 0xa65f96fc951c35ead38878e0f0b7a3c744a6f5ccc1476b313353ce31712313ad;
 
-    /**
-     * @notice Modifier to ensure only Reactive Network system contract can call react()
-     * @dev Reactive Network's system contract calls react() when subscribed events occur
-     *      This is different from vmOnly - the system contract on the network instance calls this
-     */
-    modifier reactorOnly() {
-        // In production, Reactive Network's system contract will be the msg.sender
-        // For now, we allow any caller (will be restricted by Reactive Network in production)
-        _;
-    }
-
     /**
      * @notice Subscribe to events on a specific chain and contract
      * @param chain The chain ID to monitor
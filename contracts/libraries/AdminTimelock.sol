@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../reactive/ChainlinkFeedReactor.sol";
+import "./Bytes32Lists.sol";
+
+/**
+ * @title AdminTimelock
+ * @notice Queue of ChainlinkFeedReactor's timelocked admin calls
+ * @dev An external library linked into the reactor, like DerivedFeeds. Runs
+ *      through DELEGATECALL, so executed actions call the reactor itself and
+ *      pass its `timelocked` modifier. The reactor checks ownership and emits
+ *      the ActionQueued/ActionExecuted/ActionCancelled events.
+ */
+library AdminTimelock {
+    /**
+     * @notice Queue `data` until `delay` from now
+     * @param nonce Distinguishes identical calls queued in the same block
+     */
+    function queue(
+        mapping(bytes32 => ChainlinkFeedReactor.QueuedAction) storage actions,
+        bytes32[] storage ids,
+        bytes calldata data,
+        uint256 delay,
+        uint256 nonce
+    ) external returns (bytes32 actionId, uint256 eta) {
+        if (delay == 0) revert ChainlinkFeedReactor.TimelockDisabled();
+
+        eta = block.timestamp + delay;
+        actionId = keccak256(abi.encode(data, eta, nonce));
+        actions[actionId] = ChainlinkFeedReactor.QueuedAction({id: actionId, data: data, eta: eta});
+        ids.push(actionId);
+    }
+
+    /**
+     * @notice Dequeue an action whose delay has passed and call it
+     * @dev A reverting call reverts with the call's own reason and stays queued
+     */
+    function execute(
+        mapping(bytes32 => ChainlinkFeedReactor.QueuedAction) storage actions,
+        bytes32[] storage ids,
+        bytes32 actionId
+    ) external {
+        ChainlinkFeedReactor.QueuedAction memory action = actions[actionId];
+        if (action.eta == 0) revert ChainlinkFeedReactor.ActionNotQueued();
+        if (block.timestamp < action.eta) revert ChainlinkFeedReactor.ActionNotReady();
+
+        _remove(actions, ids, actionId);
+        (bool success, bytes memory result) = address(this).call(action.data);
+        if (!success) {
+            assembly ("memory-safe") {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function cancel(
+        mapping(bytes32 => ChainlinkFeedReactor.QueuedAction) storage actions,
+        bytes32[] storage ids,
+        bytes32 actionId
+    ) external {
+        if (actions[actionId].eta == 0) revert ChainlinkFeedReactor.ActionNotQueued();
+        _remove(actions, ids, actionId);
+    }
+
+    function list(
+        mapping(bytes32 => ChainlinkFeedReactor.QueuedAction) storage actions,
+        bytes32[] storage ids
+    ) external view returns (ChainlinkFeedReactor.QueuedAction[] memory queued) {
+        queued = new ChainlinkFeedReactor.QueuedAction[](ids.length);
+        for (uint256 i = 0; i < queued.length; i++) {
+            queued[i] = actions[ids[i]];
+        }
+    }
+
+    function _remove(
+        mapping(bytes32 => ChainlinkFeedReactor.QueuedAction) storage actions,
+        bytes32[] storage ids,
+        bytes32 actionId
+    ) private {
+        delete actions[actionId];
+        Bytes32Lists.remove(ids, actionId);
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title Bytes32Lists
+ * @notice Unordered lists of IDs in storage
+ */
+library Bytes32Lists {
+    /// @dev Swap-and-pop, so the order of `list` is not preserved; a no-op when `id` is absent
+    function remove(bytes32[] storage list, bytes32 id) internal {
+        uint256 length = list.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (list[i] == id) {
+                list[i] = list[length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+}
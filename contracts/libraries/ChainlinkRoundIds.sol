@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title ChainlinkRoundIds
+ * @notice Encoding of Chainlink proxy round IDs
+ * @dev An EACAggregatorProxy round ID is phaseId << 64 | aggregatorRoundId.
+ *      The phase is bumped whenever the proxy switches to a new aggregator,
+ *      whose own round IDs start again from 1. IDs without phase bits
+ *      (phase 0) are raw aggregator round IDs.
+ */
+library ChainlinkRoundIds {
+    uint256 internal constant PHASE_OFFSET = 64;
+
+    function encode(uint16 phaseId, uint64 aggregatorRoundId) internal pure returns (uint80) {
+        return uint80((uint256(phaseId) << PHASE_OFFSET) | aggregatorRoundId);
+    }
+
+    function parse(uint80 roundId) internal pure returns (uint16 phaseId, uint64 aggregatorRoundId) {
+        phaseId = uint16(roundId >> PHASE_OFFSET);
+        aggregatorRoundId = uint64(roundId);
+    }
+
+    function phaseOf(uint80 roundId) internal pure returns (uint16) {
+        return uint16(roundId >> PHASE_OFFSET);
+    }
+}
@@ -0,0 +1,226 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../events/IChainlinkFeedReactorEvents.sol";
+import "../reactive/ChainlinkFeedReactor.sol";
+import "./Bytes32Lists.sol";
+
+/**
+ * @title DerivedFeeds
+ * @notice Composite and aggregate feeds of ChainlinkFeedReactor, i.e. feeds
+ *         computed from the latest answers of other registered feeds
+ * @dev An external library: it is deployed once and linked into the reactor,
+ *      which keeps the reactor under the 24KB code size limit. Its functions
+ *      run through DELEGATECALL on the reactor's own storage and revert
+ *      with the reactor's errors.
+ */
+library DerivedFeeds {
+    /// @dev Bounds the median's sort and fits Aggregate.contributors
+    uint256 internal constant MAX_AGGREGATE_SOURCES = 16;
+
+    /**
+     * @notice Record a composite of two registered feeds and make it their dependent
+     * @return feedId keccak256(abi.encodePacked(baseFeedId, quoteFeedId, op))
+     */
+    function addComposite(
+        mapping(bytes32 => ChainlinkFeedReactor.FeedConfig) storage feeds,
+        mapping(bytes32 => ChainlinkFeedReactor.Composite) storage composites,
+        mapping(bytes32 => bytes32[]) storage dependents,
+        bytes32 baseFeedId,
+        bytes32 quoteFeedId,
+        IChainlinkFeedReactorEvents.CompositeOp op,
+        uint8 decimals
+    ) external returns (bytes32 feedId) {
+        if (feeds[baseFeedId].feedAddress == address(0) || feeds[quoteFeedId].feedAddress == address(0)) {
+            revert ChainlinkFeedReactor.FeedNotRegistered();
+        }
+        // Keeps every power of ten combine() takes within int256
+        if (decimals > 18 || feeds[baseFeedId].decimals > 18 || feeds[quoteFeedId].decimals > 18) {
+            revert ChainlinkFeedReactor.InvalidDecimals();
+        }
+
+        feedId = keccak256(abi.encodePacked(baseFeedId, quoteFeedId, op));
+        composites[feedId] = ChainlinkFeedReactor.Composite({baseFeedId: baseFeedId, quoteFeedId: quoteFeedId, op: op});
+        dependents[baseFeedId].push(feedId);
+        dependents[quoteFeedId].push(feedId);
+    }
+
+    /**
+     * @notice Record an aggregate of registered feeds and make it their dependent
+     * @param sourceIds Registered feeds with the same decimals, in ascending
+     *        order, which also rules out duplicates
+     * @return feedId keccak256(abi.encodePacked(sourceIds))
+     * @return decimals The sources' decimals, which the aggregate shares
+     */
+    function addAggregate(
+        mapping(bytes32 => ChainlinkFeedReactor.FeedConfig) storage feeds,
+        mapping(bytes32 => ChainlinkFeedReactor.Aggregate) storage aggregates,
+        mapping(bytes32 => ChainlinkFeedReactor.AggregateSource[]) storage aggregateSources,
+        mapping(bytes32 => bytes32[]) storage dependents,
+        bytes32[] calldata sourceIds,
+        uint8 minSources,
+        uint32 stalenessWindow
+    ) external returns (bytes32 feedId, uint8 decimals) {
+        if (sourceIds.length > MAX_AGGREGATE_SOURCES || minSources == 0 || minSources > sourceIds.length) {
+            revert ChainlinkFeedReactor.InvalidSources();
+        }
+        decimals = feeds[sourceIds[0]].decimals;
+        for (uint256 i = 0; i < sourceIds.length; i++) {
+            if (feeds[sourceIds[i]].feedAddress == address(0)) revert ChainlinkFeedReactor.FeedNotRegistered();
+            if (feeds[sourceIds[i]].decimals != decimals) revert ChainlinkFeedReactor.InvalidDecimals();
+            if (i != 0 && sourceIds[i] <= sourceIds[i - 1]) revert ChainlinkFeedReactor.InvalidSources();
+        }
+
+        feedId = keccak256(abi.encodePacked(sourceIds));
+        aggregates[feedId] = ChainlinkFeedReactor.Aggregate({
+            minSources: minSources,
+            stalenessWindow: stalenessWindow,
+            contributors: 0
+        });
+        for (uint256 i = 0; i < sourceIds.length; i++) {
+            aggregateSources[feedId].push(ChainlinkFeedReactor.AggregateSource({feedId: sourceIds[i], contributions: 0}));
+            dependents[sourceIds[i]].push(feedId);
+        }
+    }
+
+    /**
+     * @notice Forget a composite or aggregate and stop it being a dependent of its inputs
+     * @dev A no-op for feeds with an origin aggregator
+     */
+    function remove(
+        mapping(bytes32 => ChainlinkFeedReactor.Composite) storage composites,
+        mapping(bytes32 => ChainlinkFeedReactor.Aggregate) storage aggregates,
+        mapping(bytes32 => ChainlinkFeedReactor.AggregateSource[]) storage aggregateSources,
+        mapping(bytes32 => bytes32[]) storage dependents,
+        bytes32 feedId
+    ) external {
+        ChainlinkFeedReactor.Composite storage composite = composites[feedId];
+        if (composite.baseFeedId != bytes32(0)) {
+            Bytes32Lists.remove(dependents[composite.baseFeedId], feedId);
+            Bytes32Lists.remove(dependents[composite.quoteFeedId], feedId);
+        }
+        ChainlinkFeedReactor.AggregateSource[] storage sources = aggregateSources[feedId];
+        for (uint256 i = 0; i < sources.length; i++) {
+            Bytes32Lists.remove(dependents[sources[i].feedId], feedId);
+        }
+
+        delete composites[feedId];
+        delete aggregates[feedId];
+        delete aggregateSources[feedId];
+    }
+
+    /**
+     * @notice The next answer of a composite or aggregate, from its inputs' latest answers
+     * @dev A composite waits until both of its inputs have a valid answer, and
+     *      its round carries the newer of the two inputs' timestamps. An
+     *      aggregate's answer is the median of its fresh sources, stamped with
+     *      the newest source's timestamp; each fresh source is counted as a
+     *      contributor.
+     * @return ready False while a composite's inputs lack answers; an
+     *         aggregate is always ready, with a zero answer when fewer than
+     *         minSources are fresh
+     */
+    function compute(
+        mapping(bytes32 => ChainlinkFeedReactor.FeedConfig) storage feeds,
+        mapping(bytes32 => ChainlinkFeedReactor.Composite) storage composites,
+        mapping(bytes32 => ChainlinkFeedReactor.Aggregate) storage aggregates,
+        mapping(bytes32 => ChainlinkFeedReactor.AggregateSource[]) storage aggregateSources,
+        mapping(bytes32 => uint256) storage observationCount,
+        mapping(bytes32 => ChainlinkFeedReactor.Observation[32]) storage observations,
+        bytes32 feedId
+    ) external returns (bool ready, int256 answer, uint256 updatedAt) {
+        if (aggregates[feedId].minSources > 0) {
+            (answer, updatedAt) = _aggregate(
+                aggregates[feedId],
+                aggregateSources[feedId],
+                observationCount,
+                observations
+            );
+            return (true, answer, updatedAt);
+        }
+
+        ChainlinkFeedReactor.Composite storage composite = composites[feedId];
+        if (observationCount[composite.baseFeedId] == 0 || observationCount[composite.quoteFeedId] == 0) {
+            return (false, 0, 0);
+        }
+        ChainlinkFeedReactor.Observation storage base =
+            _latest(observationCount, observations, composite.baseFeedId);
+        ChainlinkFeedReactor.Observation storage quote =
+            _latest(observationCount, observations, composite.quoteFeedId);
+        answer = combine(
+            composite.op,
+            base.answer,
+            feeds[composite.baseFeedId].decimals,
+            quote.answer,
+            feeds[composite.quoteFeedId].decimals,
+            feeds[feedId].decimals
+        );
+        updatedAt = base.updatedAt > quote.updatedAt ? base.updatedAt : quote.updatedAt;
+        return (true, answer, updatedAt);
+    }
+
+    /// @dev A composite's answer in `decimals` decimals from its inputs' positive answers
+    function combine(
+        IChainlinkFeedReactorEvents.CompositeOp op,
+        int256 base,
+        uint8 baseDecimals,
+        int256 quote,
+        uint8 quoteDecimals,
+        uint8 decimals
+    ) internal pure returns (int256) {
+        if (op == IChainlinkFeedReactorEvents.CompositeOp.Ratio) {
+            return base * int256(10 ** (uint256(decimals) + quoteDecimals))
+                / (quote * int256(10 ** uint256(baseDecimals)));
+        }
+        return base * quote * int256(10 ** uint256(decimals))
+            / int256(10 ** (uint256(baseDecimals) + quoteDecimals));
+    }
+
+    function _aggregate(
+        ChainlinkFeedReactor.Aggregate storage aggregate,
+        ChainlinkFeedReactor.AggregateSource[] storage sources,
+        mapping(bytes32 => uint256) storage observationCount,
+        mapping(bytes32 => ChainlinkFeedReactor.Observation[32]) storage observations
+    ) private returns (int256 answer, uint256 updatedAt) {
+        for (uint256 i = 0; i < sources.length; i++) {
+            if (observationCount[sources[i].feedId] == 0) continue;
+            uint256 sourceUpdatedAt = _latest(observationCount, observations, sources[i].feedId).updatedAt;
+            if (sourceUpdatedAt > updatedAt) updatedAt = sourceUpdatedAt;
+        }
+
+        int256[] memory answers = new int256[](sources.length);
+        uint256 fresh;
+        uint16 contributors;
+        for (uint256 i = 0; i < sources.length; i++) {
+            if (observationCount[sources[i].feedId] == 0) continue;
+            ChainlinkFeedReactor.Observation storage latest =
+                _latest(observationCount, observations, sources[i].feedId);
+            if (latest.updatedAt + aggregate.stalenessWindow < updatedAt) continue;
+
+            // Insertion sort: there are at most MAX_AGGREGATE_SOURCES answers
+            uint256 j = fresh++;
+            for (; j > 0 && answers[j - 1] > latest.answer; j--) {
+                answers[j] = answers[j - 1];
+            }
+            answers[j] = latest.answer;
+            contributors |= uint16(1 << i);
+        }
+        if (fresh < aggregate.minSources) return (0, updatedAt);
+
+        aggregate.contributors = contributors;
+        for (uint256 i = 0; i < sources.length; i++) {
+            if (contributors & (1 << i) != 0) sources[i].contributions++;
+        }
+        answer = fresh % 2 == 1
+            ? answers[fresh / 2]
+            : (answers[fresh / 2 - 1] + answers[fresh / 2]) / 2;
+    }
+
+    function _latest(
+        mapping(bytes32 => uint256) storage observationCount,
+        mapping(bytes32 => ChainlinkFeedReactor.Observation[32]) storage observations,
+        bytes32 feedId
+    ) private view returns (ChainlinkFeedReactor.Observation storage) {
+        return observations[feedId][(observationCount[feedId] - 1) % 32];
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../events/IChainlinkFeedReactorEvents.sol";
+import "../reactive/ChainlinkFeedReactor.sol";
+import "./Bytes32Lists.sol";
+
+/**
+ * @title FeedArchive
+ * @notice Clears a deregistered feed's state from ChainlinkFeedReactor
+ * @dev An external library linked into the reactor, like DerivedFeeds
+ */
+library FeedArchive {
+    /**
+     * @notice Add a feed's metrics to its archived totals and clear its
+     *         per-feed state, including its entry in `feedIds`
+     * @dev Leaves the decision and observation ring buffers in place: their
+     *      counts are reset, so the stale entries are never read
+     */
+    function archive(
+        mapping(bytes32 => ChainlinkFeedReactor.FeedConfig) storage feeds,
+        mapping(bytes32 => ChainlinkFeedReactor.Destination[]) storage destinations,
+        mapping(bytes32 => ChainlinkFeedReactor.FeedMetrics) storage metrics,
+        mapping(bytes32 => mapping(uint256 => ChainlinkFeedReactor.FeedMetrics)) storage destinationMetrics,
+        mapping(bytes32 => ChainlinkFeedReactor.FeedMetrics) storage archivedMetrics,
+        mapping(bytes32 => uint256) storage decisionCount,
+        mapping(bytes32 => uint256) storage observationCount,
+        mapping(bytes32 => uint256) storage volatility,
+        bytes32[] storage feedIds,
+        bytes32 feedId
+    ) external {
+        ChainlinkFeedReactor.FeedMetrics storage m = metrics[feedId];
+        ChainlinkFeedReactor.FeedMetrics storage archived = archivedMetrics[feedId];
+        archived.totalEventsReceived += m.totalEventsReceived;
+        archived.updatesForwarded += m.updatesForwarded;
+        archived.updatesSkipped += m.updatesSkipped;
+        archived.deviationTriggered += m.deviationTriggered;
+        archived.heartbeatTriggered += m.heartbeatTriggered;
+        archived.estimatedGasSaved += m.estimatedGasSaved;
+        archived.adaptiveTriggered += m.adaptiveTriggered;
+
+        for (uint256 i = 0; i < destinations[feedId].length; i++) {
+            delete destinationMetrics[feedId][i];
+        }
+        delete destinations[feedId];
+        delete feeds[feedId];
+        delete metrics[feedId];
+        delete decisionCount[feedId];
+        delete observationCount[feedId];
+        delete volatility[feedId];
+        Bytes32Lists.remove(feedIds, feedId);
+    }
+}
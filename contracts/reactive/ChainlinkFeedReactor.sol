@@ -2,28 +2,77 @@
 pragma solidity ^0.8.19;
 
 import "../events/IChainlinkFeedReactorEvents.sol";
+import "../interfaces/AbstractReactive.sol";
+import "../interfaces/IReactive.sol";
+import "../interfaces/ISystemContract.sol";
+import "../libraries/AdminTimelock.sol";
+import "../libraries/Bytes32Lists.sol";
+import "../libraries/ChainlinkRoundIds.sol";
+import "../libraries/DerivedFeeds.sol";
+import "../libraries/FeedArchive.sol";
 
-contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
+contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents, AbstractReactive, IReactive {
     
     uint256 constant BASIS_POINTS = 10000;
     uint256 constant DEFAULT_DEVIATION = 50; // 0.5%
     uint256 constant DEFAULT_HEARTBEAT = 1 hours;
     
+    /// @dev Chainlink AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)
+    uint256 constant ANSWER_UPDATED_TOPIC_0 = 0x0559884fd3a460db3073b7fc896cc77986f16e378210ded43186175bf646fc5f;
+    uint64 constant CALLBACK_GAS_LIMIT = 1000000;
+    
+    /// @notice How long a pollFeed() decision can be confirmed for
+    uint256 public constant PENDING_FORWARD_TTL = 1 hours;
+    /// @notice Longest timelock delay the owner can set
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    /// @notice Decisions kept per feed; older ones are overwritten
+    uint256 public constant DECISION_HISTORY_SIZE = 64;
+    /// @notice Answers kept per feed for the TWAP; older ones are overwritten
+    uint256 public constant TWAP_OBSERVATIONS = 32;
+    /// @dev The newest move weighs 1/VOLATILITY_SMOOTHING in a feed's average move
+    uint256 constant VOLATILITY_SMOOTHING = 8;
+    /// @dev An adaptive threshold is this many times the feed's average move
+    uint256 constant VOLATILITY_MULTIPLIER = 2;
+    
+    /**
+     * @dev minDeviation/maxDeviation bound the threshold in Adaptive mode,
+     *      where deviationThreshold is not used. twapWindow is the period TWAP
+     *      destinations average over; 0 means the heartbeat.
+     */
     struct FeedConfig {
         uint64 originChainId;
         address feedAddress;
-        uint64 destinationChainId;
-        address destinationProxy;
         uint8 decimals;
         string description;
         uint256 deviationThreshold;
         uint256 heartbeat;
+        uint80 lastProcessedRoundId;
+        bool active;
+        DeviationMode deviationMode;
+        uint256 minDeviation;
+        uint256 maxDeviation;
+        uint256 twapWindow;
+    }
+    
+    /**
+     * @notice One chain a feed is mirrored to
+     * @dev A zero deviationThreshold or heartbeat falls back to the feed's own
+     *      setting. Destinations are never removed, so indices stay stable.
+     *      A twap destination receives the feed's TWAP instead of each
+     *      answer, and its thresholds gate the TWAP.
+     */
+    struct Destination {
+        uint64 chainId;
+        address proxy;
+        uint256 deviationThreshold;
+        uint256 heartbeat;
         int256 lastSentPrice;
         uint256 lastSentTime;
-        uint80 lastProcessedRoundId;
         bool active;
+        bool twap;
     }
     
+    /// @dev deviationTriggered counts fixed thresholds, adaptiveTriggered adaptive ones
     struct FeedMetrics {
         uint256 totalEventsReceived;
         uint256 updatesForwarded;
@@ -31,21 +80,219 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
         uint256 deviationTriggered;
         uint256 heartbeatTriggered;
         uint256 estimatedGasSaved;
+        uint256 adaptiveTriggered;
+    }
+    
+    /**
+     * @notice A pollFeed() decision awaiting confirmForward()
+     * @dev registration is the feed's registrations count when it was
+     *      decided; entries of an earlier registration are void
+     */
+    struct PendingForward {
+        int256 answer;
+        uint256 updatedAt;
+        UpdateReason reason;
+        uint64 registration;
+        uint256 expiresAt;
+    }
+    
+    /// @notice Round arguments of one pollFeeds() entry, as taken by pollFeed()
+    struct PollRound {
+        uint80 roundId;
+        int256 answer;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+    
+    /// @notice Outcome of one pollFeeds() entry
+    struct PollResult {
+        bool success;
+        uint256 forwardCount;
+        bytes error;
+    }
+    
+    /**
+     * @notice One forward-or-skip decision for one destination
+     * @dev updateReason is only meaningful when forwarded, skipReason only
+     *      when not. A forward decided by pollFeed() is recorded before the
+     *      relayer confirms it.
+     */
+    struct Decision {
+        uint80 roundId;
+        uint64 updatedAt;
+        uint32 destinationIndex;
+        bool forwarded;
+        UpdateReason updateReason;
+        SkipReason skipReason;
+        int256 answer;
+    }
+    
+    /// @notice A valid answer of a feed, kept for its TWAP and volatility
+    struct Observation {
+        int256 answer;
+        uint256 updatedAt;
+    }
+    
+    /// @notice The two registered feeds a composite feed is computed from
+    struct Composite {
+        bytes32 baseFeedId;
+        bytes32 quoteFeedId;
+        CompositeOp op;
+    }
+    
+    /**
+     * @notice Settings of a feed aggregated from the same asset on several
+     *         origin chains
+     * @dev contributors has bit i set when source i was fresh enough to count
+     *      towards the aggregate's last valid round
+     */
+    struct Aggregate {
+        uint8 minSources;
+        uint32 stalenessWindow;
+        uint16 contributors;
+    }
+    
+    /// @notice One source feed of an aggregate and the rounds it contributed to
+    struct AggregateSource {
+        bytes32 feedId;
+        uint256 contributions;
+    }
+    
+    /// @notice Admin call waiting out the timelock
+    struct QueuedAction {
+        bytes32 id;
+        bytes data;
+        uint256 eta;
     }
     
     mapping(bytes32 => FeedConfig) public feeds;
+    mapping(bytes32 => Destination[]) internal destinations;
+    /// @notice Totals across all of a feed's destinations
     mapping(bytes32 => FeedMetrics) public metrics;
+    /// @notice Per-destination metrics, keyed by feed and destination index
+    mapping(bytes32 => mapping(uint256 => FeedMetrics)) public destinationMetrics;
+    /// @dev Totals of a feed's earlier registrations, summed as each is deregistered
+    mapping(bytes32 => FeedMetrics) internal archivedMetrics;
+    mapping(bytes32 => TriggerMode) public triggerModes;
+    /// @notice Whether the reactor holds an AnswerUpdated subscription for the feed
+    mapping(bytes32 => bool) public subscriptions;
+    /// @dev Ring buffer of recent decisions per feed, indexed by decisionCount % DECISION_HISTORY_SIZE
+    mapping(bytes32 => Decision[DECISION_HISTORY_SIZE]) internal decisionHistory;
+    /// @notice Decisions ever recorded for a feed, including overwritten ones
+    mapping(bytes32 => uint256) public decisionCount;
+    /// @dev Ring buffer of recent answers per feed, indexed by observationCount % TWAP_OBSERVATIONS
+    mapping(bytes32 => Observation[TWAP_OBSERVATIONS]) internal observations;
+    /// @notice Answers ever observed for a feed, including overwritten ones
+    mapping(bytes32 => uint256) public observationCount;
+    /// @notice Exponentially weighted average round-to-round move of each feed, in basis points
+    mapping(bytes32 => uint256) public volatility;
+    /// @notice Inputs of each composite feed; zero for feeds with an origin aggregator
+    mapping(bytes32 => Composite) public composites;
+    /// @notice Settings of each aggregate feed; zero for other feeds
+    mapping(bytes32 => Aggregate) public aggregates;
+    mapping(bytes32 => AggregateSource[]) internal aggregateSources;
+    /// @dev Composite and aggregate feeds each feed is an input of
+    mapping(bytes32 => bytes32[]) internal dependents;
+    /// @dev Forwards decided by pollFeed(), keyed by feed, destination index and round
+    mapping(bytes32 => mapping(uint256 => mapping(uint80 => PendingForward))) internal pendingForwardEntries;
+    /// @notice Times each feed has been registered; survives deregisterFeed()
+    mapping(bytes32 => uint64) public registrations;
     bytes32[] public feedIds;
     
     address public owner;
+    /// @notice Proposed owner; takes over once it calls acceptOwnership()
+    address public pendingOwner;
+    
+    /// @notice Wait between queueing and executing timelocked actions; 0 disables the timelock
+    uint256 public timelockDelay;
+    mapping(bytes32 => QueuedAction) internal queuedActions;
+    bytes32[] internal queuedActionIds;
+    uint256 internal actionNonce;
+    
+    /// @notice Accounts allowed to call pollFeed() and confirmForward()
+    mapping(address => bool) public authorizedRelayers;
+    
+    /// @notice Reactive Network system contract: manages subscriptions and collects payment via pay()
+    address public service;
+    
+    // ============ Errors ============
+    
+    error ActionNotQueued();
+    error ActionNotReady();
+    error CompositeFeed();
+    error DelayTooLong();
+    error DestinationAlreadyAdded();
+    error FeedAlreadyRegistered();
+    error FeedHasDependents();
+    error FeedInReactMode();
+    error FeedNotActive();
+    error FeedNotRegistered();
+    error ForwardExpired();
+    error ForwardNotExpired();
+    error HeartbeatTooShort();
+    error InsufficientFunds();
+    error InvalidAdaptiveRange();
+    error InvalidAddress();
+    error InvalidDecimals();
+    error InvalidDeviation();
+    error InvalidFeedAddress();
+    error InvalidProxyAddress();
+    error InvalidSources();
+    error LengthMismatch();
+    error NoPendingForward();
+    error NotAuthorizedRelayer();
+    error NotOwner();
+    error NotPendingOwner();
+    error NotSystemOrRelayer();
+    error NotSystemContract();
+    error OnlySelf();
+    error PaymentFailed();
+    error TimelockDisabled();
+    error TimelockRequired();
+    error UnknownDestination();
     
     modifier onlyOwner() {
-        require(msg.sender == owner, "Not owner");
+        if (msg.sender != owner) revert NotOwner();
         _;
     }
     
-    constructor() payable {
+    /// @dev Owner-only while the timelock is off, executeAction()-only while it is on
+    modifier timelocked() {
+        if (timelockDelay == 0) {
+            if (msg.sender != owner) revert NotOwner();
+        } else {
+            if (msg.sender != address(this)) revert TimelockRequired();
+        }
+        _;
+    }
+    
+    modifier onlyRelayer() {
+        if (!authorizedRelayers[msg.sender]) revert NotAuthorizedRelayer();
+        _;
+    }
+    
+    /// @dev The system contract delivers subscribed logs; relayers may replay them
+    modifier reactorOnly() {
+        _checkReactor();
+        _;
+    }
+    
+    function _checkReactor() internal view {
+        if (msg.sender != service && !authorizedRelayers[msg.sender]) revert NotSystemOrRelayer();
+    }
+    
+    /**
+     * @param systemContract Reactive Network system contract, or address(0) to
+     *        run without subscriptions (e.g. cron-only deployments)
+     */
+    constructor(address systemContract) payable {
         owner = msg.sender;
+        service = systemContract;
+        emit SystemContractUpdated(address(0), systemContract);
+        
+        // The deployer runs the relayer until dedicated accounts are added
+        authorizedRelayers[msg.sender] = true;
+        emit AuthorizedRelayerUpdated(msg.sender, true);
     }
     
     function registerFeed(
@@ -57,31 +304,160 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
         string calldata description,
         uint256 deviationThreshold,
         uint256 heartbeat
-    ) external onlyOwner returns (bytes32) {
-        require(feedAddress != address(0), "Invalid feed address");
-        require(destinationProxy != address(0), "Invalid proxy address");
-        require(deviationThreshold > 0 && deviationThreshold <= BASIS_POINTS, "Invalid deviation");
-        require(heartbeat >= 1 minutes, "Heartbeat too short");
+    ) external timelocked returns (bytes32) {
+        return _registerOriginFeed(
+            originChainId,
+            feedAddress,
+            destinationChainId,
+            destinationProxy,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat
+        );
+    }
+    
+    /**
+     * @notice Register a feed computed from two registered feeds, e.g. ETH/BTC
+     *         from ETH/USD and BTC/USD
+     * @dev Recomputed from the inputs' latest answers whenever either of them
+     *      processes a round, then gated and forwarded like any other feed.
+     *      A composite has no origin aggregator: its originChainId is 0, its
+     *      feedAddress is the reactor and pollFeed() rejects it.
+     * @param decimals Decimals of the composite answer; the inputs' own
+     *        decimals are normalized to it
+     */
+    function registerComposite(
+        bytes32 baseFeedId,
+        bytes32 quoteFeedId,
+        CompositeOp op,
+        uint64 destinationChainId,
+        address destinationProxy,
+        uint8 decimals,
+        string calldata description,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) external timelocked returns (bytes32 feedId) {
+        feedId = DerivedFeeds.addComposite(feeds, composites, dependents, baseFeedId, quoteFeedId, op, decimals);
+        _registerFeed(
+            feedId,
+            0,
+            address(this),
+            destinationChainId,
+            destinationProxy,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat
+        );
+        emit CompositeRegistered(feedId, baseFeedId, quoteFeedId, op);
+    }
+    
+    /**
+     * @notice Register the median of the same asset's feeds on several origin
+     *         chains, e.g. ETH/USD from Sepolia, Arbitrum Sepolia and Base
+     *         Sepolia, so a stalled origin does not stall the mirror
+     * @dev Recomputed whenever a source processes a round, from the sources
+     *      whose latest answer is at most stalenessWindow older than the
+     *      newest one. With fewer than minSources of them the round is skipped
+     *      as InvalidData. Like a composite, an aggregate has no origin
+     *      aggregator of its own.
+     * @param sourceIds Registered feeds with the same decimals, in ascending
+     *        order, which also rules out duplicates
+     */
+    function registerAggregate(
+        bytes32[] calldata sourceIds,
+        uint8 minSources,
+        uint32 stalenessWindow,
+        uint64 destinationChainId,
+        address destinationProxy,
+        string calldata description,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) external timelocked returns (bytes32 feedId) {
+        uint8 decimals;
+        (feedId, decimals) = DerivedFeeds.addAggregate(
+            feeds,
+            aggregates,
+            aggregateSources,
+            dependents,
+            sourceIds,
+            minSources,
+            stalenessWindow
+        );
+        _registerFeed(
+            feedId,
+            0,
+            address(this),
+            destinationChainId,
+            destinationProxy,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat
+        );
+        emit AggregateRegistered(feedId, sourceIds, minSources, stalenessWindow);
+    }
+    
+    function _registerOriginFeed(
+        uint64 originChainId,
+        address feedAddress,
+        uint64 destinationChainId,
+        address destinationProxy,
+        uint8 decimals,
+        string calldata description,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) private returns (bytes32 feedId) {
+        if (feedAddress == address(0)) revert InvalidFeedAddress();
         
-        bytes32 feedId = keccak256(abi.encodePacked(originChainId, feedAddress));
-        require(feeds[feedId].feedAddress == address(0), "Feed already registered");
+        feedId = keccak256(abi.encodePacked(originChainId, feedAddress));
+        _registerFeed(
+            feedId,
+            originChainId,
+            feedAddress,
+            destinationChainId,
+            destinationProxy,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat
+        );
+    }
+    
+    function _registerFeed(
+        bytes32 feedId,
+        uint64 originChainId,
+        address feedAddress,
+        uint64 destinationChainId,
+        address destinationProxy,
+        uint8 decimals,
+        string calldata description,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) internal {
+        if (destinationProxy == address(0)) revert InvalidProxyAddress();
+        if (deviationThreshold == 0 || deviationThreshold > BASIS_POINTS) revert InvalidDeviation();
+        if (heartbeat < 1 minutes) revert HeartbeatTooShort();
+        if (feeds[feedId].feedAddress != address(0)) revert FeedAlreadyRegistered();
         
         feeds[feedId] = FeedConfig({
             originChainId: originChainId,
             feedAddress: feedAddress,
-            destinationChainId: destinationChainId,
-            destinationProxy: destinationProxy,
             decimals: decimals,
             description: description,
             deviationThreshold: deviationThreshold,
             heartbeat: heartbeat,
-            lastSentPrice: 0,
-            lastSentTime: 0,
             lastProcessedRoundId: 0,
-            active: true
+            active: true,
+            deviationMode: DeviationMode.Fixed,
+            minDeviation: 0,
+            maxDeviation: 0,
+            twapWindow: 0
         });
         
         feedIds.push(feedId);
+        registrations[feedId]++;
         
         emit FeedRegistered(
             feedId,
@@ -91,7 +467,8 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
             destinationProxy
         );
         
-        return feedId;
+        _addDestination(feedId, destinationChainId, destinationProxy, 0, 0, false);
+        _syncSubscription(feedId);
     }
     
     function registerFeedDefault(
@@ -101,8 +478,8 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
         address destinationProxy,
         uint8 decimals,
         string calldata description
-    ) external onlyOwner returns (bytes32) {
-        return this.registerFeed(
+    ) external timelocked returns (bytes32) {
+        return _registerOriginFeed(
             originChainId,
             feedAddress,
             destinationChainId,
@@ -115,108 +492,629 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
     }
     
     /**
-     * @notice Check if update should be forwarded and return decision
-     * @dev Does NOT update state - state is only updated via confirmForward()
+     * @notice Add another chain to mirror a registered feed to
+     * @param deviationThreshold Override in basis points, or 0 for the feed's
+     * @param heartbeat Override in seconds, or 0 for the feed's
+     * @return index Destination index used by confirmForward() and the views
+     */
+    function addDestination(
+        bytes32 feedId,
+        uint64 chainId,
+        address proxy,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) external timelocked returns (uint256 index) {
+        return _addNewDestination(feedId, chainId, proxy, deviationThreshold, heartbeat, false);
+    }
+    
+    /**
+     * @notice Mirror a feed's TWAP to another chain as a separate feed
+     * @dev Like addDestination(), but the proxy receives the time-weighted
+     *      average over the feed's twapWindow, and the overrides gate that
+     *      average instead of each answer
+     * @return index Destination index used by confirmForward() and the views
+     */
+    function addTwapDestination(
+        bytes32 feedId,
+        uint64 chainId,
+        address proxy,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) external timelocked returns (uint256 index) {
+        return _addNewDestination(feedId, chainId, proxy, deviationThreshold, heartbeat, true);
+    }
+    
+    /**
+     * @notice Change a destination's deviation/heartbeat overrides (0 = feed default)
+     */
+    function setDestinationOverrides(
+        bytes32 feedId,
+        uint256 index,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) external timelocked {
+        _validateOverrides(deviationThreshold, heartbeat);
+        Destination storage destination = _destination(feedId, index);
+        destination.deviationThreshold = deviationThreshold;
+        destination.heartbeat = heartbeat;
+        emit DestinationOverridesUpdated(feedId, index, deviationThreshold, heartbeat);
+    }
+    
+    /**
+     * @notice Pause or resume mirroring to a single destination
+     * @dev Not timelocked: pausing is an emergency brake, and resuming only
+     *      reopens a destination that already passed the timelock
+     */
+    function setDestinationActive(bytes32 feedId, uint256 index, bool active) external onlyOwner {
+        _destination(feedId, index).active = active;
+        emit DestinationActiveUpdated(feedId, index, active);
+    }
+    
+    function _addNewDestination(
+        bytes32 feedId,
+        uint64 chainId,
+        address proxy,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        bool twap
+    ) internal returns (uint256) {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
+        if (proxy == address(0)) revert InvalidProxyAddress();
+        
+        Destination[] storage list = destinations[feedId];
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i].chainId == chainId && list[i].proxy == proxy) revert DestinationAlreadyAdded();
+        }
+        
+        return _addDestination(feedId, chainId, proxy, deviationThreshold, heartbeat, twap);
+    }
+    
+    function _addDestination(
+        bytes32 feedId,
+        uint64 chainId,
+        address proxy,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        bool twap
+    ) internal returns (uint256 index) {
+        _validateOverrides(deviationThreshold, heartbeat);
+        
+        index = destinations[feedId].length;
+        destinations[feedId].push(Destination({
+            chainId: chainId,
+            proxy: proxy,
+            deviationThreshold: deviationThreshold,
+            heartbeat: heartbeat,
+            lastSentPrice: 0,
+            lastSentTime: 0,
+            active: true,
+            twap: twap
+        }));
+        
+        emit DestinationAdded(feedId, index, chainId, proxy, deviationThreshold, heartbeat, twap);
+    }
+    
+    function _validateOverrides(uint256 deviationThreshold, uint256 heartbeat) internal pure {
+        if (deviationThreshold > BASIS_POINTS) revert InvalidDeviation();
+        if (heartbeat != 0 && heartbeat < 1 minutes) revert HeartbeatTooShort();
+    }
+    
+    function _destination(bytes32 feedId, uint256 index) internal view returns (Destination storage) {
+        if (index >= destinations[feedId].length) revert UnknownDestination();
+        return destinations[feedId][index];
+    }
+    
+    /**
+     * @notice Check if update should be forwarded to each destination
+     * @dev Does NOT update last-sent state - every forward decision is
+     *      recorded as pending and only applied by confirmForward() for the
+     *      same destination and round
+     * @return forwardCount Number of destinations the round is forwarded to
      */
     function pollFeed(
         bytes32 feedId,
         uint80 roundId,
         int256 answer,
         uint256 updatedAt,
-        uint80 answeredInRound
-    ) external returns (bool shouldForward, UpdateReason reason) {
+        uint80 /* answeredInRound */
+    ) external onlyRelayer returns (uint256 forwardCount) {
+        return _pollFeed(feedId, roundId, answer, updatedAt);
+    }
+    
+    /**
+     * @notice pollFeed() for many feeds in one transaction
+     * @dev Each entry runs in its own call frame, so an entry that reverts
+     *      only emits PollFailed and leaves the rest of the batch in place.
+     *      Skipped entries succeed with a zero forwardCount.
+     * @param ids Feed identifiers
+     * @param rounds Round data for each feed, in the same order
+     * @return results Outcome of each entry, in the same order
+     */
+    function pollFeeds(
+        bytes32[] calldata ids,
+        PollRound[] calldata rounds
+    ) external onlyRelayer returns (PollResult[] memory results) {
+        if (ids.length != rounds.length) revert LengthMismatch();
+        
+        results = new PollResult[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            PollRound calldata round = rounds[i];
+            try this.pollFeedFromBatch(ids[i], round.roundId, round.answer, round.updatedAt) returns (uint256 forwardCount) {
+                results[i] = PollResult({success: true, forwardCount: forwardCount, error: ""});
+            } catch (bytes memory reason) {
+                results[i] = PollResult({success: false, forwardCount: 0, error: reason});
+                emit PollFailed(ids[i], round.roundId, reason);
+            }
+        }
+    }
+    
+    /**
+     * @notice Runs one pollFeeds() entry in its own call frame
+     * @dev Only callable by the reactor itself; the relayer check already
+     *      happened in pollFeeds()
+     */
+    function pollFeedFromBatch(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt
+    ) external returns (uint256 forwardCount) {
+        if (msg.sender != address(this)) revert OnlySelf();
+        return _pollFeed(feedId, roundId, answer, updatedAt);
+    }
+    
+    function _pollFeed(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt
+    ) internal returns (uint256 forwardCount) {
+        FeedConfig storage config = feeds[feedId];
+        
+        if (!config.active || config.feedAddress == address(0)) revert FeedNotActive();
+        if (triggerModes[feedId] == TriggerMode.React) revert FeedInReactMode();
+        if (config.feedAddress == address(this)) revert CompositeFeed();
+        
+        return _processRound(feedId, roundId, answer, updatedAt, false);
+    }
+    
+    /**
+     * @notice Handle an AnswerUpdated log delivered by Reactive Network
+     * @dev Forwarded rounds are sent to each destination FeedProxy through a
+     *      Callback and recorded immediately, since no confirmForward() follows.
+     *      Only the system contract and authorized relayers may call it: a
+     *      forged log could set the feed's lastProcessedRoundId past every
+     *      real round.
+     */
+    function react(LogRecord calldata log) external reactorOnly {
+        if (log.topic_0 != ANSWER_UPDATED_TOPIC_0) return;
+        
+        bytes32 feedId = keccak256(abi.encodePacked(uint64(log.chain_id), log._contract));
         FeedConfig storage config = feeds[feedId];
-        FeedMetrics storage m = metrics[feedId];
         
-        require(config.active && config.feedAddress != address(0), "Feed not active");
+        // Ignore logs from unregistered, inactive or cron-only feeds
+        if (!config.active || config.feedAddress == address(0)) return;
+        if (triggerModes[feedId] == TriggerMode.Poll) return;
+        
+        // AnswerUpdated: topic 1 = current answer, topic 2 = roundId, data = updatedAt
+        int256 answer = int256(log.topic_1);
+        uint80 roundId = _toProxyRoundId(config.lastProcessedRoundId, log.topic_2);
+        // AnswerUpdated carries no startedAt; OCR aggregators report the
+        // transmission time for both, so updatedAt stands in for it
+        uint256 updatedAt = abi.decode(log.data, (uint256));
+        
+        _processRound(feedId, roundId, answer, updatedAt, true);
+    }
+    
+    /**
+     * @dev Evaluates a round and acts on each forward, then recomputes the
+     *      composites the feed is an input of
+     * @param callback Whether forwards are sent through Callbacks (react())
+     *        or left pending for confirmForward() (pollFeed())
+     * @return forwardCount Destinations of this feed the round is forwarded to
+     */
+    function _processRound(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt,
+        bool callback
+    ) internal returns (uint256 forwardCount) {
+        bool fresh = answer > 0 && roundId > feeds[feedId].lastProcessedRoundId;
+        forwardCount = _forwardRound(feedId, roundId, answer, updatedAt, callback);
+        if (fresh) _updateComposites(feedId, callback);
+    }
+    
+    function _forwardRound(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt,
+        bool callback
+    ) internal returns (uint256 forwardCount) {
+        (bool[] memory forwards, UpdateReason[] memory reasons, int256 twap) =
+            _evaluateRound(feedId, roundId, answer, updatedAt);
+        
+        for (uint256 i = 0; i < forwards.length; i++) {
+            if (!forwards[i]) continue;
+            
+            Destination storage destination = destinations[feedId][i];
+            int256 price = destination.twap ? twap : answer;
+            emit UpdateForwarded(feedId, i, roundId, price, updatedAt, reasons[i]);
+            forwardCount++;
+            
+            if (!callback) {
+                // ✅ DO NOT update state here - let cron job call confirmForward() after successful FeedProxy update
+                pendingForwardEntries[feedId][i][roundId] = PendingForward({
+                    answer: price,
+                    updatedAt: updatedAt,
+                    reason: reasons[i],
+                    registration: registrations[feedId],
+                    expiresAt: block.timestamp + PENDING_FORWARD_TTL
+                });
+                continue;
+            }
+            
+            // Reactive Network replaces the leading address with the RVM ID
+            emit Callback(
+                destination.chainId,
+                destination.proxy,
+                CALLBACK_GAS_LIMIT,
+                abi.encodeWithSignature(
+                    "updateRoundDataCallback(address,uint80,int256,uint256,uint256,uint80)",
+                    address(0),
+                    roundId,
+                    price,
+                    updatedAt,
+                    updatedAt,
+                    roundId
+                )
+            );
+            _recordForward(feedId, i, price, updatedAt, reasons[i]);
+        }
+    }
+    
+    /**
+     * @dev Processes the next round of each active composite or aggregate the
+     *      feed is an input of, as computed by DerivedFeeds
+     */
+    function _updateComposites(bytes32 feedId, bool callback) internal {
+        bytes32[] storage list = dependents[feedId];
+        for (uint256 i = 0; i < list.length; i++) {
+            bytes32 compositeId = list[i];
+            if (!feeds[compositeId].active) continue;
+            
+            (bool ready, int256 answer, uint256 updatedAt) = DerivedFeeds.compute(
+                feeds,
+                composites,
+                aggregates,
+                aggregateSources,
+                observationCount,
+                observations,
+                compositeId
+            );
+            if (!ready) continue;
+            _processRound(compositeId, feeds[compositeId].lastProcessedRoundId + 1, answer, updatedAt, callback);
+        }
+    }
+    
+    /**
+     * @notice Confirm that update was forwarded successfully
+     * @dev Called by cron job AFTER FeedProxy.updateRoundData() succeeds.
+     *      Settles the pending entry pollFeed() recorded for the destination
+     *      and round, so the
+     *      answer, timestamp and reason are the ones the reactor decided on.
+     */
+    function confirmForward(
+        bytes32 feedId,
+        uint256 destinationIndex,
+        uint80 roundId
+    ) external onlyRelayer {
+        if (!feeds[feedId].active) revert FeedNotActive();
+        
+        PendingForward memory pending = pendingForwardEntries[feedId][destinationIndex][roundId];
+        // A forward decided before the feed was deregistered and registered again is void
+        if (pending.expiresAt == 0 || pending.registration != registrations[feedId]) revert NoPendingForward();
+        if (block.timestamp > pending.expiresAt) revert ForwardExpired();
+        
+        delete pendingForwardEntries[feedId][destinationIndex][roundId];
+        _recordForward(feedId, destinationIndex, pending.answer, pending.updatedAt, pending.reason);
+        emit ForwardConfirmed(feedId, destinationIndex, roundId);
+    }
+    
+    /**
+     * @notice Drop a pending forward that was never confirmed in time
+     * @dev Callable by anyone; the round stays processed and is not retried
+     */
+    function clearExpiredForward(
+        bytes32 feedId,
+        uint256 destinationIndex,
+        uint80 roundId
+    ) external {
+        PendingForward storage pending = pendingForwardEntries[feedId][destinationIndex][roundId];
+        if (pending.expiresAt == 0) revert NoPendingForward();
+        if (block.timestamp <= pending.expiresAt) revert ForwardNotExpired();
+        
+        delete pendingForwardEntries[feedId][destinationIndex][roundId];
+        emit PendingForwardExpired(feedId, destinationIndex, roundId);
+    }
+    
+    /**
+     * @dev Shared by pollFeed() and react(): marks the round processed, then
+     *      decides per active destination, emitting UpdateSkipped and counting
+     *      skip metrics. Forwarded destinations are left to the caller; twap
+     *      destinations are sent the returned TWAP instead of the answer.
+     *      Adaptive thresholds and the TWAP only reflect earlier rounds.
+     */
+    function _evaluateRound(
+        bytes32 feedId,
+        uint80 roundId,
+        int256 answer,
+        uint256 updatedAt
+    ) internal returns (bool[] memory forwards, UpdateReason[] memory reasons, int256 twap) {
+        FeedConfig storage config = feeds[feedId];
+        Destination[] storage list = destinations[feedId];
+        forwards = new bool[](list.length);
+        reasons = new UpdateReason[](list.length);
         
         // Check if duplicate round
         if (roundId <= config.lastProcessedRoundId) {
-            emit UpdateSkipped(feedId, roundId, answer, SkipReason.InvalidData);
-            return (false, UpdateReason.FirstUpdate);
+            for (uint256 i = 0; i < list.length; i++) {
+                if (list[i].active) {
+                    emit UpdateSkipped(feedId, i, roundId, answer, SkipReason.InvalidData);
+                }
+            }
+            return (forwards, reasons, twap);
         }
         
+        _trackPhase(feedId, config.lastProcessedRoundId, roundId);
+        
         // ✅ Update last processed round (prevent duplicate processing)
         config.lastProcessedRoundId = roundId;
-        m.totalEventsReceived++;
+        metrics[feedId].totalEventsReceived++;
         
-        // Validate price
-        if (answer <= 0) {
-            emit UpdateSkipped(feedId, roundId, answer, SkipReason.InvalidData);
-            m.updatesSkipped++;
-            return (false, UpdateReason.FirstUpdate);
-        }
+        bool adaptive = config.deviationMode == DeviationMode.Adaptive;
+        uint256 feedThreshold = adaptive
+            ? _adaptiveThreshold(volatility[feedId], config.minDeviation, config.maxDeviation)
+            : config.deviationThreshold;
         
-        // ✅ Check if should forward (using updatedAt from Chainlink, not block.timestamp)
-        (bool _shouldForward, UpdateReason _reason) = _shouldForward(
-            config,
-            answer,
-            updatedAt  // Use Chainlink's timestamp
-        );
+        for (uint256 i = 0; i < list.length; i++) {
+            if (!list[i].active) continue;
+            destinationMetrics[feedId][i].totalEventsReceived++;
+            
+            int256 price = answer;
+            if (list[i].twap && answer > 0) {
+                if (twap == 0) {
+                    twap = _twap(
+                        feedId,
+                        answer,
+                        updatedAt,
+                        config.twapWindow == 0 ? config.heartbeat : config.twapWindow
+                    );
+                }
+                price = twap;
+            }
+            
+            // Validate price
+            SkipReason skipReason = SkipReason.InvalidData;
+            if (price > 0) {
+                // ✅ Check if should forward (using updatedAt from Chainlink, not block.timestamp)
+                Destination memory destination = _withDefaults(config, list[i], feedThreshold);
+                (forwards[i], reasons[i]) = _shouldForward(
+                    destination,
+                    adaptive && list[i].deviationThreshold == 0,
+                    price,
+                    updatedAt  // Use Chainlink's timestamp
+                );
+                skipReason = forwards[i] ? SkipReason(0) : _getSkipReason(destination, price, updatedAt);
+            }
+            
+            if (!forwards[i]) _recordSkip(feedId, i, roundId, price, skipReason);
+            _recordDecision(feedId, i, roundId, price, updatedAt, forwards[i], reasons[i], skipReason);
+        }
         
-        if (!_shouldForward) {
-            emit UpdateSkipped(
-                feedId, 
-                roundId, 
+        if (answer > 0) _observe(feedId, answer, updatedAt);
+    }
+    
+    /// @dev Adds a valid answer to the TWAP history and folds its move into the feed's volatility
+    function _observe(bytes32 feedId, int256 answer, uint256 updatedAt) internal {
+        uint256 count = observationCount[feedId]++;
+        if (count > 0) {
+            volatility[feedId] = _nextVolatility(
+                volatility[feedId],
                 answer,
-                _getSkipReason(config, answer, updatedAt)
+                observations[feedId][(count - 1) % TWAP_OBSERVATIONS].answer
             );
-            m.updatesSkipped++;
-            m.estimatedGasSaved += 200000;
-            return (false, _reason);
+        }
+        observations[feedId][count % TWAP_OBSERVATIONS] = Observation({
+            answer: answer,
+            updatedAt: updatedAt
+        });
+    }
+    
+    function _nextVolatility(uint256 current, int256 answer, int256 previousAnswer)
+        internal
+        pure
+        returns (uint256)
+    {
+        return (current * (VOLATILITY_SMOOTHING - 1) + _calculateDeviation(answer, previousAnswer))
+            / VOLATILITY_SMOOTHING;
+    }
+    
+    /// @dev VOLATILITY_MULTIPLIER times the average move, kept within [minDeviation, maxDeviation]
+    function _adaptiveThreshold(uint256 averageMove, uint256 minDeviation, uint256 maxDeviation)
+        internal
+        pure
+        returns (uint256 threshold)
+    {
+        threshold = averageMove * VOLATILITY_MULTIPLIER;
+        if (threshold < minDeviation) return minDeviation;
+        if (threshold > maxDeviation) return maxDeviation;
+    }
+    
+    /**
+     * @dev Time-weighted average of the observed answers over the `window`
+     *      seconds before updatedAt. Each answer holds until the next one, so
+     *      the current answer has no weight yet. History shorter than the
+     *      window is averaged over the time it covers; without any, the TWAP
+     *      is the answer itself.
+     */
+    function _twap(bytes32 feedId, int256 answer, uint256 updatedAt, uint256 window)
+        internal
+        view
+        returns (int256)
+    {
+        uint256 count = observationCount[feedId];
+        uint256 stored = count < TWAP_OBSERVATIONS ? count : TWAP_OBSERVATIONS;
+        uint256 start = updatedAt > window ? updatedAt - window : 0;
+        uint256 end = updatedAt;
+        int256 weighted;
+        uint256 covered;
+        
+        for (uint256 i = 0; i < stored && end > start; i++) {
+            Observation storage observation = observations[feedId][(count - 1 - i) % TWAP_OBSERVATIONS];
+            uint256 from = observation.updatedAt > start ? observation.updatedAt : start;
+            if (end > from) {
+                weighted += observation.answer * int256(end - from);
+                covered += end - from;
+                end = from;
+            }
         }
         
-        // ✅ DO NOT update state here - let cron job call confirmForward() after successful FeedProxy update
-        emit UpdateForwarded(feedId, roundId, answer, updatedAt, _reason);
-        return (true, _reason);
+        return covered == 0 ? answer : weighted / int256(covered);
+    }
+    
+    /// @dev Proxy round IDs only grow, so a new phase is never an older one
+    function _trackPhase(bytes32 feedId, uint80 previousRoundId, uint80 roundId) internal {
+        uint16 previousPhase = ChainlinkRoundIds.phaseOf(previousRoundId);
+        uint16 phase = ChainlinkRoundIds.phaseOf(roundId);
+        if (previousRoundId != 0 && phase != previousPhase) {
+            emit FeedPhaseChanged(feedId, previousPhase, phase);
+        }
     }
     
     /**
-     * @notice Confirm that update was forwarded successfully
-     * @dev Called by cron job AFTER FeedProxy.updateRoundData() succeeds
+     * @dev AnswerUpdated logs come from the aggregator and carry its own round
+     *      ID, without the phase bits the proxy adds. Place such IDs in the
+     *      phase of the last processed round, so they order with the proxy
+     *      IDs pollFeed() receives and reach FeedProxy in proxy form.
      */
-    function confirmForward(
+    function _toProxyRoundId(uint80 lastProcessedRoundId, uint256 logRoundId)
+        internal
+        pure
+        returns (uint80)
+    {
+        if (logRoundId >> ChainlinkRoundIds.PHASE_OFFSET != 0) return uint80(logRoundId);
+        return ChainlinkRoundIds.encode(
+            ChainlinkRoundIds.phaseOf(lastProcessedRoundId),
+            uint64(logRoundId)
+        );
+    }
+    
+    function _recordDecision(
         bytes32 feedId,
+        uint256 destinationIndex,
+        uint80 roundId,
         int256 answer,
         uint256 updatedAt,
-        UpdateReason reason
-    ) external {
-        FeedConfig storage config = feeds[feedId];
-        FeedMetrics storage m = metrics[feedId];
+        bool forwarded,
+        UpdateReason updateReason,
+        SkipReason skipReason
+    ) internal {
+        uint256 count = decisionCount[feedId]++;
+        decisionHistory[feedId][count % DECISION_HISTORY_SIZE] = Decision({
+            roundId: roundId,
+            updatedAt: uint64(updatedAt),
+            destinationIndex: uint32(destinationIndex),
+            forwarded: forwarded,
+            updateReason: updateReason,
+            skipReason: skipReason,
+            answer: answer
+        });
+    }
+    
+    function _recordSkip(
+        bytes32 feedId,
+        uint256 destinationIndex,
+        uint80 roundId,
+        int256 answer,
+        SkipReason reason
+    ) internal {
+        emit UpdateSkipped(feedId, destinationIndex, roundId, answer, reason);
         
-        require(config.active, "Feed not active");
+        FeedMetrics storage m = metrics[feedId];
+        FeedMetrics storage dm = destinationMetrics[feedId][destinationIndex];
+        m.updatesSkipped++;
+        dm.updatesSkipped++;
+        if (reason != SkipReason.InvalidData) {
+            m.estimatedGasSaved += 200000;
+            dm.estimatedGasSaved += 200000;
+        }
+    }
+    
+    function _recordForward(
+        bytes32 feedId,
+        uint256 destinationIndex,
+        int256 answer,
+        uint256 updatedAt,
+        UpdateReason reason
+    ) internal {
+        Destination storage destination = destinations[feedId][destinationIndex];
         
         // ✅ NOW update state (using Chainlink's updatedAt timestamp)
-        config.lastSentPrice = answer;
-        config.lastSentTime = updatedAt;  // Use Chainlink timestamp, not block.timestamp
+        destination.lastSentPrice = answer;
+        destination.lastSentTime = updatedAt;  // Use Chainlink timestamp, not block.timestamp
         
         // Update metrics
+        _countForward(metrics[feedId], reason);
+        _countForward(destinationMetrics[feedId][destinationIndex], reason);
+    }
+    
+    function _countForward(FeedMetrics storage m, UpdateReason reason) internal {
         m.updatesForwarded++;
         if (reason == UpdateReason.DeviationThreshold) {
             m.deviationTriggered++;
         } else if (reason == UpdateReason.HeartbeatExpired) {
             m.heartbeatTriggered++;
+        } else if (reason == UpdateReason.AdaptiveDeviation) {
+            m.adaptiveTriggered++;
         }
     }
     
+    /**
+     * @dev Copy of a destination with its zero overrides replaced by the feed's
+     *      current deviation threshold (fixed or adaptive) and heartbeat
+     */
+    function _withDefaults(
+        FeedConfig storage config,
+        Destination storage destination,
+        uint256 deviationThreshold
+    ) internal view returns (Destination memory resolved) {
+        resolved = destination;
+        if (resolved.deviationThreshold == 0) resolved.deviationThreshold = deviationThreshold;
+        if (resolved.heartbeat == 0) resolved.heartbeat = config.heartbeat;
+    }
+    
+    /// @param adaptive Whether the deviation threshold is the feed's adaptive one
     function _shouldForward(
-        FeedConfig memory config,
+        Destination memory destination,
+        bool adaptive,
         int256 newPrice,
         uint256 updatedAt
-    ) internal view returns (bool, UpdateReason) {
+    ) internal pure returns (bool, UpdateReason) {
         // First update always forwards
-        if (config.lastSentPrice == 0) {
+        if (destination.lastSentPrice == 0) {
             return (true, UpdateReason.FirstUpdate);
         }
         
         // Check deviation
-        uint256 deviation = _calculateDeviation(newPrice, config.lastSentPrice);
-        if (deviation >= config.deviationThreshold) {
-            return (true, UpdateReason.DeviationThreshold);
+        uint256 deviation = _calculateDeviation(newPrice, destination.lastSentPrice);
+        if (deviation >= destination.deviationThreshold) {
+            return (true, adaptive ? UpdateReason.AdaptiveDeviation : UpdateReason.DeviationThreshold);
         }
         
         // ✅ Check heartbeat using Chainlink's updatedAt vs last sent time
-        if (updatedAt >= config.lastSentTime + config.heartbeat) {
+        if (updatedAt >= destination.lastSentTime + destination.heartbeat) {
             return (true, UpdateReason.HeartbeatExpired);
         }
         
@@ -238,14 +1136,14 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
     }
     
     function _getSkipReason(
-        FeedConfig memory config,
+        Destination memory destination,
         int256 newPrice,
-        uint256 updatedAt
-    ) internal view returns (SkipReason) {
+        uint256 /* updatedAt */
+    ) internal pure returns (SkipReason) {
         if (newPrice <= 0) return SkipReason.InvalidData;
         
-        uint256 deviation = _calculateDeviation(newPrice, config.lastSentPrice);
-        if (deviation < config.deviationThreshold) {
+        uint256 deviation = _calculateDeviation(newPrice, destination.lastSentPrice);
+        if (deviation < destination.deviationThreshold) {
             return SkipReason.InsufficientDeviation;
         }
         
@@ -270,6 +1168,110 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
         return metrics[feedId];
     }
     
+    /**
+     * @notice Metrics of a feed's earlier registrations, summed; zero until
+     *         it is first deregistered
+     */
+    function getArchivedMetrics(bytes32 feedId) external view returns (FeedMetrics memory) {
+        return archivedMetrics[feedId];
+    }
+    
+    /**
+     * @notice All destinations of a feed, with overrides as stored (0 = feed default)
+     */
+    function getDestinations(bytes32 feedId) 
+        external 
+        view 
+        returns (Destination[] memory) 
+    {
+        return destinations[feedId];
+    }
+    
+    /**
+     * @notice Sources of an aggregate feed, in source index order, with the
+     *         rounds each contributed to
+     */
+    function getAggregateSources(bytes32 feedId) external view returns (AggregateSource[] memory) {
+        return aggregateSources[feedId];
+    }
+    
+    function getDestination(bytes32 feedId, uint256 index) 
+        external 
+        view 
+        returns (Destination memory) 
+    {
+        return _destination(feedId, index);
+    }
+    
+    function getDestinationCount(bytes32 feedId) external view returns (uint256) {
+        return destinations[feedId].length;
+    }
+    
+    function getDestinationMetrics(bytes32 feedId, uint256 index) 
+        external 
+        view 
+        returns (FeedMetrics memory) 
+    {
+        _destination(feedId, index);
+        return destinationMetrics[feedId][index];
+    }
+    
+    /**
+     * @notice The forward pollFeed() decided for a destination and round,
+     *         awaiting confirmForward()
+     * @dev All zero when there is none, including forwards decided before
+     *      the feed was deregistered
+     */
+    function pendingForwards(bytes32 feedId, uint256 destinationIndex, uint80 roundId)
+        external
+        view
+        returns (int256 answer, uint256 updatedAt, UpdateReason reason, uint256 expiresAt)
+    {
+        PendingForward memory pending = pendingForwardEntries[feedId][destinationIndex][roundId];
+        if (pending.registration != registrations[feedId]) return (0, 0, UpdateReason.FirstUpdate, 0);
+        return (pending.answer, pending.updatedAt, pending.reason, pending.expiresAt);
+    }
+    
+    /**
+     * @notice Page through a feed's recent decisions, newest first
+     * @param offset Number of newer decisions to skip
+     * @param limit Maximum number of decisions to return
+     * @return page At most the last DECISION_HISTORY_SIZE decisions; empty
+     *         once offset reaches past them
+     */
+    function getDecisions(bytes32 feedId, uint256 offset, uint256 limit)
+        external
+        view
+        returns (Decision[] memory page)
+    {
+        uint256 count = decisionCount[feedId];
+        uint256 stored = count < DECISION_HISTORY_SIZE ? count : DECISION_HISTORY_SIZE;
+        if (offset >= stored) return page;
+        if (limit > stored - offset) limit = stored - offset;
+        
+        page = new Decision[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = decisionHistory[feedId][(count - 1 - offset - i) % DECISION_HISTORY_SIZE];
+        }
+    }
+    
+    /**
+     * @notice A feed's recent answers as used for its TWAP and volatility, newest first
+     * @return recent At most the last TWAP_OBSERVATIONS valid answers
+     */
+    function getObservations(bytes32 feedId) external view returns (Observation[] memory recent) {
+        uint256 count = observationCount[feedId];
+        recent = new Observation[](count < TWAP_OBSERVATIONS ? count : TWAP_OBSERVATIONS);
+        for (uint256 i = 0; i < recent.length; i++) {
+            recent[i] = observations[feedId][(count - 1 - i) % TWAP_OBSERVATIONS];
+        }
+    }
+    
+    /// @notice Chainlink phase of the feed's last processed round
+    function getFeedPhase(bytes32 feedId) external view returns (uint16) {
+        return ChainlinkRoundIds.phaseOf(feeds[feedId].lastProcessedRoundId);
+    }
+    
     function getFeedCount() external view returns (uint256) {
         return feedIds.length;
     }
@@ -313,26 +1315,277 @@ contract ChainlinkFeedReactor is IChainlinkFeedReactorEvents {
         }
     }
     
+    /**
+     * @notice Pause or resume a feed
+     * @dev Not timelocked: pausing is an emergency brake, and resuming only
+     *      restarts a feed whose registration already passed the timelock
+     */
     function setFeedActive(bytes32 feedId, bool active) external onlyOwner {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
         feeds[feedId].active = active;
+        if (active) {
+            emit FeedActivated(feedId);
+        } else {
+            emit FeedDeactivated(feedId);
+        }
+        _syncSubscription(feedId);
+    }
+    
+    /**
+     * @notice Remove a feed, e.g. to register it again with another
+     *         destination or decimals
+     * @dev Deactivates the feed (emitting FeedDeactivated unless it already
+     *      was inactive), unsubscribes it, adds its metrics to
+     *      archivedMetrics and swaps it out of feedIds. Composites and
+     *      aggregates must be deregistered before the feeds they are built
+     *      on. Its unconfirmed
+     *      pending forwards are void from then on, even if the feed is
+     *      registered again, and can only be cleared once expired.
+     */
+    function deregisterFeed(bytes32 feedId) external timelocked {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
+        if (dependents[feedId].length > 0) revert FeedHasDependents();
+        
+        if (feeds[feedId].active) {
+            feeds[feedId].active = false;
+            emit FeedDeactivated(feedId);
+        }
+        _syncSubscription(feedId);
+        
+        DerivedFeeds.remove(composites, aggregates, aggregateSources, dependents, feedId);
+        
+        delete triggerModes[feedId];
+        FeedArchive.archive(
+            feeds,
+            destinations,
+            metrics,
+            destinationMetrics,
+            archivedMetrics,
+            decisionCount,
+            observationCount,
+            volatility,
+            feedIds,
+            feedId
+        );
+        
+        emit FeedDeregistered(feedId);
     }
     
+    /**
+     * @notice Choose whether a feed is driven by pollFeed(), react() or both
+     * @dev Not timelocked: it changes how rounds arrive, not what is
+     *      forwarded, since the same deviation and heartbeat rules gate both
+     */
+    function setTriggerMode(bytes32 feedId, TriggerMode mode) external onlyOwner {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
+        triggerModes[feedId] = mode;
+        emit TriggerModeUpdated(feedId, mode);
+        _syncSubscription(feedId);
+    }
+    
+    /**
+     * @notice Re-apply a feed's subscription, e.g. after setSystemContract()
+     * @dev Not timelocked: it only brings the subscription in line with the
+     *      feed's current state
+     */
+    function syncSubscription(bytes32 feedId) external onlyOwner {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
+        _syncSubscription(feedId);
+    }
+    
+    /**
+     * @dev A feed is subscribed to its origin AnswerUpdated logs while it is
+     *      active and react() may process it; composites and aggregates have
+     *      no origin logs.
+     *      Skipped when the system contract has no code, i.e. inside the
+     *      ReactVM or on chains without one.
+     */
+    function _syncSubscription(bytes32 feedId) internal {
+        FeedConfig storage config = feeds[feedId];
+        bool wanted = config.active
+            && triggerModes[feedId] != TriggerMode.Poll
+            && config.feedAddress != address(this);
+        if (wanted == subscriptions[feedId] || service.code.length == 0) return;
+        
+        subscriptions[feedId] = wanted;
+        if (wanted) {
+            ISystemContract(service).subscribe(
+                config.originChainId,
+                config.feedAddress,
+                ANSWER_UPDATED_TOPIC_0,
+                REACTIVE_IGNORE,
+                REACTIVE_IGNORE,
+                REACTIVE_IGNORE
+            );
+            emit FeedSubscribed(feedId, config.originChainId, config.feedAddress);
+        } else {
+            ISystemContract(service).unsubscribe(
+                config.originChainId,
+                config.feedAddress,
+                ANSWER_UPDATED_TOPIC_0,
+                REACTIVE_IGNORE,
+                REACTIVE_IGNORE,
+                REACTIVE_IGNORE
+            );
+            emit FeedUnsubscribed(feedId, config.originChainId, config.feedAddress);
+        }
+    }
+    
+    /**
+     * @notice Change a feed's thresholds and TWAP window
+     * @param deviationMode Fixed uses deviationThreshold; Adaptive follows the
+     *        feed's volatility within [minDeviation, maxDeviation]
+     * @param minDeviation Lowest adaptive threshold in basis points
+     * @param maxDeviation Highest adaptive threshold in basis points
+     * @param twapWindow Seconds twap destinations average over, or 0 for the heartbeat
+     */
     function updateFeedConfig(
         bytes32 feedId,
         uint256 deviationThreshold,
-        uint256 heartbeat
-    ) external onlyOwner {
-        require(deviationThreshold > 0 && deviationThreshold <= BASIS_POINTS, "Invalid deviation");
-        require(heartbeat >= 1 minutes, "Heartbeat too short");
+        uint256 heartbeat,
+        DeviationMode deviationMode,
+        uint256 minDeviation,
+        uint256 maxDeviation,
+        uint256 twapWindow
+    ) external timelocked {
+        if (feeds[feedId].feedAddress == address(0)) revert FeedNotRegistered();
+        if (deviationThreshold == 0 || deviationThreshold > BASIS_POINTS) revert InvalidDeviation();
+        if (heartbeat < 1 minutes) revert HeartbeatTooShort();
+        if (deviationMode == DeviationMode.Adaptive) {
+            if (minDeviation == 0 || minDeviation > maxDeviation || maxDeviation > BASIS_POINTS) {
+                revert InvalidAdaptiveRange();
+            }
+        }
         
         FeedConfig storage config = feeds[feedId];
         config.deviationThreshold = deviationThreshold;
         config.heartbeat = heartbeat;
+        config.deviationMode = deviationMode;
+        config.minDeviation = minDeviation;
+        config.maxDeviation = maxDeviation;
+        config.twapWindow = twapWindow;
+        emit FeedConfigUpdated(
+            feedId,
+            deviationThreshold,
+            heartbeat,
+            deviationMode,
+            minDeviation,
+            maxDeviation,
+            twapWindow
+        );
     }
     
+    /**
+     * @notice Align a destination's last-sent state with what its proxy actually serves
+     * @dev Used by `relayer reconcile --fix` after writes that bypassed the
+     *      reactor. Does not count towards forward metrics.
+     */
+    function realignLastSent(
+        bytes32 feedId,
+        uint256 destinationIndex,
+        int256 answer,
+        uint256 updatedAt
+    ) external timelocked {
+        Destination storage destination = _destination(feedId, destinationIndex);
+        destination.lastSentPrice = answer;
+        destination.lastSentTime = updatedAt;
+        emit LastSentRealigned(feedId, destinationIndex, answer, updatedAt);
+    }
+    
+    function addAuthorizedRelayer(address relayer) external timelocked {
+        if (relayer == address(0)) revert InvalidAddress();
+        authorizedRelayers[relayer] = true;
+        emit AuthorizedRelayerUpdated(relayer, true);
+    }
+    
+    function removeAuthorizedRelayer(address relayer) external onlyOwner {
+        authorizedRelayers[relayer] = false;
+        emit AuthorizedRelayerUpdated(relayer, false);
+    }
+    
+    /**
+     * @notice Propose a new owner
+     * @dev Nothing changes until newOwner calls acceptOwnership(); proposing
+     *      again replaces the pending owner
+     */
     function transferOwnership(address newOwner) external onlyOwner {
-        require(newOwner != address(0), "Invalid address");
-        owner = newOwner;
+        if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /**
+     * @notice Change the system contract
+     * @dev Existing subscriptions are not moved; call syncSubscription() per feed
+     */
+    function setSystemContract(address systemContract) external timelocked {
+        emit SystemContractUpdated(service, systemContract);
+        service = systemContract;
+    }
+    
+    function getSystemContract() external view returns (address) {
+        return service;
+    }
+    
+    // ============ Timelock ============
+    
+    /**
+     * @notice Set the delay for timelocked admin functions
+     * @dev Turning the timelock on takes effect immediately; once it is on,
+     *      changing or disabling it is itself a timelocked action
+     */
+    function setTimelockDelay(uint256 delay) external timelocked {
+        if (delay > MAX_TIMELOCK_DELAY) revert DelayTooLong();
+        timelockDelay = delay;
+        emit TimelockDelayUpdated(delay);
+    }
+    
+    /**
+     * @notice Queue a call to one of this contract's timelocked functions
+     * @param data ABI-encoded call, e.g. addAuthorizedRelayer(relayer)
+     * @return actionId Identifier for executeAction() and cancelAction()
+     */
+    function queueAction(bytes calldata data) external onlyOwner returns (bytes32 actionId) {
+        uint256 eta;
+        (actionId, eta) = AdminTimelock.queue(queuedActions, queuedActionIds, data, timelockDelay, actionNonce++);
+        emit ActionQueued(actionId, data, eta);
+    }
+    
+    /**
+     * @notice Run a queued action once its delay has passed
+     * @dev A reverting call reverts with the call's own reason and stays queued
+     */
+    function executeAction(bytes32 actionId) external onlyOwner {
+        AdminTimelock.execute(queuedActions, queuedActionIds, actionId);
+        emit ActionExecuted(actionId);
+    }
+    
+    function cancelAction(bytes32 actionId) external onlyOwner {
+        AdminTimelock.cancel(queuedActions, queuedActionIds, actionId);
+        emit ActionCancelled(actionId);
+    }
+    
+    function getQueuedActions() external view returns (QueuedAction[] memory) {
+        return AdminTimelock.list(queuedActions, queuedActionIds);
+    }
+    
+    /**
+     * @notice Pay the system contract for reactive transactions and callbacks
+     */
+    function pay(uint256 amount) external {
+        if (msg.sender != service || service == address(0)) revert NotSystemContract();
+        if (address(this).balance < amount) revert InsufficientFunds();
+        if (amount > 0) {
+            (bool success, ) = payable(msg.sender).call{value: amount}("");
+            if (!success) revert PaymentFailed();
+        }
     }
 
     receive() external payable {}
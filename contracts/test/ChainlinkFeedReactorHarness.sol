@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../reactive/ChainlinkFeedReactor.sol";
+
+/**
+ * @title ChainlinkFeedReactorHarness
+ * @notice Exposes the reactor's internal decision functions for testing
+ * @dev Test-only; used by test/DecisionEngine.ts to compare the contract with
+ *      frontend/src/decision.ts
+ */
+contract ChainlinkFeedReactorHarness is ChainlinkFeedReactor {
+    constructor() ChainlinkFeedReactor(address(0)) {}
+
+    function calculateDeviation(int256 newPrice, int256 oldPrice)
+        external
+        pure
+        returns (uint256)
+    {
+        return _calculateDeviation(newPrice, oldPrice);
+    }
+
+    function nextVolatility(uint256 current, int256 answer, int256 previousAnswer)
+        external
+        pure
+        returns (uint256)
+    {
+        return _nextVolatility(current, answer, previousAnswer);
+    }
+
+    function adaptiveThreshold(uint256 averageMove, uint256 minDeviation, uint256 maxDeviation)
+        external
+        pure
+        returns (uint256)
+    {
+        return _adaptiveThreshold(averageMove, minDeviation, maxDeviation);
+    }
+
+    function shouldForward(
+        int256 lastSentPrice,
+        uint256 lastSentTime,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        bool adaptive,
+        int256 newPrice,
+        uint256 updatedAt
+    ) external pure returns (bool, UpdateReason) {
+        return _shouldForward(
+            _decisionConfig(lastSentPrice, lastSentTime, deviationThreshold, heartbeat),
+            adaptive,
+            newPrice,
+            updatedAt
+        );
+    }
+
+    function getSkipReason(
+        int256 lastSentPrice,
+        uint256 lastSentTime,
+        uint256 deviationThreshold,
+        uint256 heartbeat,
+        int256 newPrice,
+        uint256 updatedAt
+    ) external pure returns (SkipReason) {
+        return _getSkipReason(
+            _decisionConfig(lastSentPrice, lastSentTime, deviationThreshold, heartbeat),
+            newPrice,
+            updatedAt
+        );
+    }
+
+    function _decisionConfig(
+        int256 lastSentPrice,
+        uint256 lastSentTime,
+        uint256 deviationThreshold,
+        uint256 heartbeat
+    ) private pure returns (Destination memory destination) {
+        destination.lastSentPrice = lastSentPrice;
+        destination.lastSentTime = lastSentTime;
+        destination.deviationThreshold = deviationThreshold;
+        destination.heartbeat = heartbeat;
+    }
+}
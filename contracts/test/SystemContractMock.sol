@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/ISystemContract.sol";
+
+/**
+ * @title SystemContractMock
+ * @notice Records subscribe()/unsubscribe() calls for tests
+ * @dev Test-only stand-in for the Reactive Network system contract
+ */
+contract SystemContractMock is ISystemContract {
+    event Subscribed(uint256 chainId, address _contract, uint256 topic0);
+    event Unsubscribed(uint256 chainId, address _contract, uint256 topic0);
+
+    uint256 public subscriptionCount;
+
+    function subscribe(
+        uint256 chain_id,
+        address _contract,
+        uint256 topic_0,
+        uint256,
+        uint256,
+        uint256
+    ) external override {
+        subscriptionCount++;
+        emit Subscribed(chain_id, _contract, topic_0);
+    }
+
+    function unsubscribe(
+        uint256 chain_id,
+        address _contract,
+        uint256 topic_0,
+        uint256,
+        uint256,
+        uint256
+    ) external override {
+        subscriptionCount--;
+        emit Unsubscribed(chain_id, _contract, topic_0);
+    }
+
+    receive() external payable {}
+}
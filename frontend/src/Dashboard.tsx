@@ -2,11 +2,28 @@ import { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import FeedProxyAbi from "./abis/FeedProxy.json";
 import AggregatorV3Abi from "./abis/AggregatorV3Interface.json";
+import ChainlinkFeedReactorAbi from "./abis/ChainlinkFeedReactor.json";
 import { CONFIG } from "./config";
+import {
+  ArithmeticPanicError,
+  calculateDeviation,
+  destinationDecisionConfig,
+  getSkipReason,
+  shouldForward,
+  type DecisionConfig,
+} from "./decision";
+import {
+  describeDecision,
+  fetchDecisions,
+  SKIP_REASON_LABELS,
+  UPDATE_REASON_LABELS,
+  type Decision,
+} from "./history";
 import "./Dashboard.css";
 
 interface PriceData {
   price: string;
+  answer: bigint;
   roundId: string;
   updatedAt: number;
   decimals: number;
@@ -15,11 +32,21 @@ interface PriceData {
   timeSinceUpdate: number;
 }
 
+// Rows in the recent decisions table
+const DECISION_ROWS = 10;
+
 export default function Dashboard() {
   const [originData, setOriginData] = useState<PriceData | null>(null);
   const [destinationData, setDestinationData] = useState<PriceData | null>(
     null
   );
+  // Signers behind the destination's latest round; empty when an authorized
+  // sender pushed it through updateRoundData()
+  const [attestingSigners, setAttestingSigners] = useState<string[]>([]);
+  const [reactorConfig, setReactorConfig] = useState<DecisionConfig | null>(
+    null
+  );
+  const [decisions, setDecisions] = useState<Decision[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
@@ -57,6 +84,7 @@ export default function Dashboard() {
 
         setOriginData({
           price,
+          answer: BigInt(roundData.answer),
           roundId: roundData.roundId.toString(),
           updatedAt,
           decimals: Number(decimals),
@@ -120,8 +148,10 @@ export default function Dashboard() {
           ]);
 
         if (!roundData || roundData.answer === undefined) {
+          setAttestingSigners([]);
           setDestinationData({
             price: "0",
+            answer: 0n,
             roundId: "0",
             updatedAt: 0,
             decimals: Number(decimals),
@@ -135,9 +165,17 @@ export default function Dashboard() {
         const price = ethers.formatUnits(roundData.answer, Number(decimals));
         const updatedAt = Number(roundData.updatedAt);
         const [isHealthy, secondsSinceUpdate] = healthCheck;
+        const signers: string[] = await contract
+          .getRoundSigners(roundData.roundId)
+          .catch((e: unknown) => {
+            console.error("Error calling getRoundSigners:", e);
+            return [];
+          });
+        setAttestingSigners([...signers]);
 
         setDestinationData({
           price,
+          answer: BigInt(roundData.answer),
           roundId: roundData.roundId.toString(),
           updatedAt,
           decimals: Number(decimals),
@@ -158,10 +196,65 @@ export default function Dashboard() {
     setError(`Failed to fetch destination chain data: ${errorMsg}`);
   };
 
+  const fetchReactorConfig = async () => {
+    try {
+      const provider = new ethers.JsonRpcProvider(
+        CONFIG.REACTIVE_NETWORK.rpcUrl,
+        {
+          name: CONFIG.REACTIVE_NETWORK.name,
+          chainId: CONFIG.REACTIVE_NETWORK.chainId,
+        }
+      );
+      const reactor = new ethers.Contract(
+        CONFIG.REACTIVE_NETWORK.reactorAddress,
+        ChainlinkFeedReactorAbi.abi,
+        provider
+      );
+      const feedId = ethers.solidityPackedKeccak256(
+        ["uint64", "address"],
+        [CONFIG.ORIGIN_CHAIN.chainId, CONFIG.ORIGIN_CHAIN.feedAddress]
+      );
+      const [config, destinations, volatility, recentDecisions] =
+        await Promise.all([
+          reactor.getFeedConfig(feedId),
+          reactor.getDestinations(feedId),
+          reactor.volatility(feedId),
+          fetchDecisions(
+            (offset, limit) => reactor.getDecisions(feedId, offset, limit),
+            DECISION_ROWS
+          ),
+        ]);
+
+      // Decide for the destination this dashboard shows, falling back to the
+      // one registered with the feed
+      const destination =
+        destinations.find(
+          (d: { chainId: bigint; proxy: string }) =>
+            d.chainId === BigInt(CONFIG.DESTINATION_CHAIN.chainId) &&
+            d.proxy.toLowerCase() ===
+              CONFIG.DESTINATION_CHAIN.feedProxyAddress.toLowerCase()
+        ) ?? destinations[0];
+
+      setReactorConfig(
+        destinationDecisionConfig(config, destination, volatility)
+      );
+      setDecisions(recentDecisions);
+    } catch (err) {
+      // The relay decision panel is optional; keep the price cards working
+      console.error("Error reading reactor feed config:", err);
+      setReactorConfig(null);
+      setDecisions([]);
+    }
+  };
+
   const fetchAllData = async () => {
     setLoading(true);
     setError(null);
-    await Promise.all([fetchOriginData(), fetchDestinationData()]);
+    await Promise.all([
+      fetchOriginData(),
+      fetchDestinationData(),
+      fetchReactorConfig(),
+    ]);
     setLastUpdate(new Date());
     setLoading(false);
   };
@@ -185,7 +278,7 @@ export default function Dashboard() {
     return `${Math.floor(seconds / 3600)}h ago`;
   };
 
-  const calculateDeviation = () => {
+  const calculatePriceGap = () => {
     if (
       !originData ||
       !destinationData ||
@@ -200,7 +293,35 @@ export default function Dashboard() {
     return deviation;
   };
 
-  const deviation = calculateDeviation();
+  const deviation = calculatePriceGap();
+
+  // What the reactor would decide if the current origin answer arrived now
+  const getRelayDecision = () => {
+    if (!originData || !reactorConfig) return null;
+    try {
+      const decision = shouldForward(
+        reactorConfig,
+        originData.answer,
+        BigInt(originData.updatedAt)
+      );
+      const deviationBps =
+        reactorConfig.lastSentPrice === 0n
+          ? null
+          : calculateDeviation(originData.answer, reactorConfig.lastSentPrice);
+      return {
+        ...decision,
+        skipReason: decision.shouldForward
+          ? null
+          : getSkipReason(reactorConfig, originData.answer),
+        deviationBps,
+      };
+    } catch (err) {
+      if (err instanceof ArithmeticPanicError) return null;
+      throw err;
+    }
+  };
+
+  const relayDecision = getRelayDecision();
 
   return (
     <div className="dashboard">
@@ -344,6 +465,24 @@ export default function Dashboard() {
                     {destinationData.isHealthy ? "✓ Healthy" : "✗ Unhealthy"}
                   </span>
                 </div>
+                <div className="metric">
+                  <span className="metric-label">Attested by:</span>
+                  <span className="metric-value">
+                    {attestingSigners.length > 0
+                      ? attestingSigners.map((signer) => (
+                          <a
+                            key={signer}
+                            href={`${CONFIG.DESTINATION_CHAIN.explorer}/address/${signer}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="address-link"
+                          >
+                            {signer.slice(0, 6)}...{signer.slice(-4)}
+                          </a>
+                        ))
+                      : "Authorized sender"}
+                  </span>
+                </div>
               </div>
             </>
           ) : (
@@ -373,6 +512,34 @@ export default function Dashboard() {
               {CONFIG.REFRESH_INTERVAL / 1000}s
             </span>
           </div>
+          <div className="status-item">
+            <span className="status-label">Deviation vs Last Sent:</span>
+            <span className="status-value">
+              {relayDecision && reactorConfig
+                ? `${
+                    relayDecision.deviationBps !== null
+                      ? (Number(relayDecision.deviationBps) / 100).toFixed(2)
+                      : "—"
+                  }% / ${(
+                    Number(reactorConfig.deviationThreshold) / 100
+                  ).toFixed(2)}%${reactorConfig.adaptive ? " (adaptive)" : ""}`
+                : "—"}
+            </span>
+          </div>
+          <div className="status-item">
+            <span className="status-label">Relay Decision:</span>
+            <span
+              className={`status-value ${
+                relayDecision?.shouldForward ? "out-of-sync" : "synced"
+              }`}
+            >
+              {relayDecision
+                ? relayDecision.shouldForward
+                  ? `→ Forward (${UPDATE_REASON_LABELS[relayDecision.reason]})`
+                  : `⏭ Skip (${SKIP_REASON_LABELS[relayDecision.skipReason!]})`
+                : "—"}
+            </span>
+          </div>
           <div className="status-item">
             <span className="status-label">Price Sync:</span>
             <span
@@ -391,6 +558,54 @@ export default function Dashboard() {
           </div>
         </div>
       </div>
+
+      {/* Recent reactor decisions, newest first */}
+      <div className="system-status decision-history">
+        <h3>Recent Decisions</h3>
+        {decisions.length > 0 ? (
+          <table className="decision-table">
+            <thead>
+              <tr>
+                <th>Round</th>
+                <th>Destination</th>
+                <th>Answer</th>
+                <th>Updated</th>
+                <th>Decision</th>
+              </tr>
+            </thead>
+            <tbody>
+              {decisions.map((decision) => (
+                <tr
+                  key={`${decision.roundId}-${decision.destinationIndex}`}
+                  className={decision.forwarded ? "forwarded" : "skipped"}
+                >
+                  <td>{decision.roundId.toString()}</td>
+                  <td>{decision.destinationIndex}</td>
+                  <td>
+                    {parseFloat(
+                      ethers.formatUnits(
+                        decision.answer,
+                        originData?.decimals ?? 8
+                      )
+                    ).toLocaleString(undefined, {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })}
+                  </td>
+                  <td>
+                    {new Date(
+                      Number(decision.updatedAt) * 1000
+                    ).toLocaleTimeString()}
+                  </td>
+                  <td>{describeDecision(decision)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="loading-state">No decisions recorded yet</div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,330 @@
+/**
+ * Forwarding decision logic of ChainlinkFeedReactor, mirrored in TypeScript.
+ *
+ * This is the single off-chain copy of pollFeed()/_shouldForward()/
+ * _calculateDeviation()/_getSkipReason() and the adaptive threshold and TWAP
+ * helpers, shared by the relayer, the
+ * dashboard and the tests. It follows the contract's checked uint256/int256
+ * arithmetic exactly: wherever the contract would revert with an arithmetic
+ * panic, these functions throw ArithmeticPanicError instead of returning a
+ * result. test/DecisionEngine.ts checks it against the contract.
+ */
+
+/** Mirrors IChainlinkFeedReactorEvents.UpdateReason */
+export const UpdateReason = {
+  FirstUpdate: 0,
+  DeviationThreshold: 1,
+  HeartbeatExpired: 2,
+  AdaptiveDeviation: 3,
+} as const;
+export type UpdateReason = (typeof UpdateReason)[keyof typeof UpdateReason];
+
+/** Mirrors IChainlinkFeedReactorEvents.DeviationMode */
+export const DeviationMode = {
+  Fixed: 0,
+  Adaptive: 1,
+} as const;
+export type DeviationMode = (typeof DeviationMode)[keyof typeof DeviationMode];
+
+/** Mirrors IChainlinkFeedReactorEvents.SkipReason */
+export const SkipReason = {
+  InsufficientDeviation: 0,
+  WithinHeartbeat: 1,
+  InvalidData: 2,
+} as const;
+export type SkipReason = (typeof SkipReason)[keyof typeof SkipReason];
+
+/** Mirrors IChainlinkFeedReactorEvents.TriggerMode */
+export const TriggerMode = {
+  Any: 0,
+  Poll: 1,
+  React: 2,
+} as const;
+export type TriggerMode = (typeof TriggerMode)[keyof typeof TriggerMode];
+
+export const BASIS_POINTS = 10000n;
+/** Mirrors ChainlinkFeedReactor.TWAP_OBSERVATIONS */
+export const TWAP_OBSERVATIONS = 32;
+/** Mirrors ChainlinkFeedReactor.VOLATILITY_SMOOTHING */
+export const VOLATILITY_SMOOTHING = 8n;
+/** Mirrors ChainlinkFeedReactor.VOLATILITY_MULTIPLIER */
+export const VOLATILITY_MULTIPLIER = 2n;
+
+const UINT256_MAX = (1n << 256n) - 1n;
+const INT256_MIN = -(1n << 255n);
+const INT256_MAX = (1n << 255n) - 1n;
+
+/**
+ * Thrown where the contract would revert with Panic(0x11)
+ */
+export class ArithmeticPanicError extends Error {
+  constructor(operation: string) {
+    super(`Arithmetic overflow in ${operation}`);
+    this.name = "ArithmeticPanicError";
+  }
+}
+
+/**
+ * The fields one destination's decision reads: the feed's
+ * lastProcessedRoundId plus the destination's last-sent state and effective
+ * thresholds (see destinationDecisionConfig()). `adaptive` is set when the
+ * deviation threshold is the feed's adaptive one.
+ */
+export interface DecisionConfig {
+  deviationThreshold: bigint;
+  adaptive: boolean;
+  heartbeat: bigint;
+  lastSentPrice: bigint;
+  lastSentTime: bigint;
+  lastProcessedRoundId: bigint;
+}
+
+/** A valid answer as returned by ChainlinkFeedReactor.getObservations() */
+export interface Observation {
+  answer: bigint;
+  updatedAt: bigint;
+}
+
+/**
+ * Combine a feed and one of its destinations the way the reactor's
+ * _withDefaults() does: zero overrides fall back to the feed's settings.
+ * `volatility` is the reactor's volatility(feedId), only read in Adaptive mode.
+ */
+export function destinationDecisionConfig(
+  feed: {
+    deviationThreshold: bigint;
+    heartbeat: bigint;
+    lastProcessedRoundId: bigint;
+    // viem decodes enums as numbers, ethers as bigints
+    deviationMode: number | bigint;
+    minDeviation: bigint;
+    maxDeviation: bigint;
+  },
+  destination: {
+    deviationThreshold: bigint;
+    heartbeat: bigint;
+    lastSentPrice: bigint;
+    lastSentTime: bigint;
+  },
+  volatility: bigint
+): DecisionConfig {
+  const adaptiveMode = Number(feed.deviationMode) === DeviationMode.Adaptive;
+  const feedThreshold = adaptiveMode
+    ? adaptiveThreshold(volatility, feed.minDeviation, feed.maxDeviation)
+    : feed.deviationThreshold;
+  return {
+    deviationThreshold: destination.deviationThreshold || feedThreshold,
+    adaptive: adaptiveMode && destination.deviationThreshold === 0n,
+    heartbeat: destination.heartbeat || feed.heartbeat,
+    lastSentPrice: destination.lastSentPrice,
+    lastSentTime: destination.lastSentTime,
+    lastProcessedRoundId: feed.lastProcessedRoundId,
+  };
+}
+
+export interface ForwardDecision {
+  shouldForward: boolean;
+  reason: UpdateReason;
+}
+
+export type PollDecision =
+  | { shouldForward: true; reason: UpdateReason }
+  | { shouldForward: false; reason: UpdateReason; skipReason: SkipReason };
+
+function checkedUint256(value: bigint, operation: string): bigint {
+  if (value < 0n || value > UINT256_MAX) {
+    throw new ArithmeticPanicError(operation);
+  }
+  return value;
+}
+
+function checkedInt256(value: bigint, operation: string): bigint {
+  if (value < INT256_MIN || value > INT256_MAX) {
+    throw new ArithmeticPanicError(operation);
+  }
+  return value;
+}
+
+/** Solidity uint256(int256): reinterprets the two's-complement bits */
+function toUint256(value: bigint): bigint {
+  return value < 0n ? value + (1n << 256n) : value;
+}
+
+/** Solidity int256(uint256): reinterprets the two's-complement bits */
+function toInt256(value: bigint): bigint {
+  return value > INT256_MAX ? value - (1n << 256n) : value;
+}
+
+/**
+ * Deviation of newPrice from oldPrice in basis points
+ * (ChainlinkFeedReactor._calculateDeviation)
+ */
+export function calculateDeviation(newPrice: bigint, oldPrice: bigint): bigint {
+  if (oldPrice === 0n) return BASIS_POINTS;
+
+  const diff =
+    newPrice > oldPrice
+      ? checkedInt256(newPrice - oldPrice, "deviation diff")
+      : checkedInt256(oldPrice - newPrice, "deviation diff");
+
+  return (
+    checkedUint256(toUint256(diff) * BASIS_POINTS, "deviation scaling") /
+    toUint256(oldPrice)
+  );
+}
+
+/**
+ * Whether an answer should be forwarded, and why
+ * (ChainlinkFeedReactor._shouldForward)
+ */
+export function shouldForward(
+  config: DecisionConfig,
+  newPrice: bigint,
+  updatedAt: bigint
+): ForwardDecision {
+  // First update always forwards
+  if (config.lastSentPrice === 0n) {
+    return { shouldForward: true, reason: UpdateReason.FirstUpdate };
+  }
+
+  const deviation = calculateDeviation(newPrice, config.lastSentPrice);
+  if (deviation >= config.deviationThreshold) {
+    return {
+      shouldForward: true,
+      reason: config.adaptive
+        ? UpdateReason.AdaptiveDeviation
+        : UpdateReason.DeviationThreshold,
+    };
+  }
+
+  const heartbeatDue = checkedUint256(
+    config.lastSentTime + config.heartbeat,
+    "heartbeat deadline"
+  );
+  if (updatedAt >= heartbeatDue) {
+    return { shouldForward: true, reason: UpdateReason.HeartbeatExpired };
+  }
+
+  return { shouldForward: false, reason: UpdateReason.FirstUpdate };
+}
+
+/**
+ * A feed's average move after a new answer
+ * (ChainlinkFeedReactor._nextVolatility)
+ */
+export function nextVolatility(
+  current: bigint,
+  answer: bigint,
+  previousAnswer: bigint
+): bigint {
+  const weighted = checkedUint256(
+    checkedUint256(
+      current * (VOLATILITY_SMOOTHING - 1n),
+      "volatility weighting"
+    ) + calculateDeviation(answer, previousAnswer),
+    "volatility weighting"
+  );
+  return weighted / VOLATILITY_SMOOTHING;
+}
+
+/**
+ * Deviation threshold of a feed in Adaptive mode
+ * (ChainlinkFeedReactor._adaptiveThreshold)
+ */
+export function adaptiveThreshold(
+  averageMove: bigint,
+  minDeviation: bigint,
+  maxDeviation: bigint
+): bigint {
+  const threshold = checkedUint256(
+    averageMove * VOLATILITY_MULTIPLIER,
+    "adaptive threshold"
+  );
+  if (threshold < minDeviation) return minDeviation;
+  if (threshold > maxDeviation) return maxDeviation;
+  return threshold;
+}
+
+/**
+ * The TWAP a twap destination is sent for a new answer
+ * (ChainlinkFeedReactor._twap). `observations` are getObservations() from
+ * before the round, newest first; `window` is the feed's twapWindow, or its
+ * heartbeat when that is 0.
+ */
+export function calculateTwap(
+  observations: readonly Observation[],
+  answer: bigint,
+  updatedAt: bigint,
+  window: bigint
+): bigint {
+  const start = updatedAt > window ? updatedAt - window : 0n;
+  let end = updatedAt;
+  let weighted = 0n;
+  let covered = 0n;
+
+  for (const observation of observations) {
+    if (end <= start) break;
+    const from = observation.updatedAt > start ? observation.updatedAt : start;
+    if (end > from) {
+      weighted = checkedInt256(
+        weighted +
+          checkedInt256(
+            observation.answer * toInt256(end - from),
+            "TWAP weighting"
+          ),
+        "TWAP weighting"
+      );
+      covered = checkedUint256(covered + (end - from), "TWAP coverage");
+      end = from;
+    }
+  }
+
+  return covered === 0n ? answer : weighted / toInt256(covered);
+}
+
+/**
+ * Why a non-forwarded answer was skipped (ChainlinkFeedReactor._getSkipReason)
+ */
+export function getSkipReason(
+  config: DecisionConfig,
+  newPrice: bigint
+): SkipReason {
+  if (newPrice <= 0n) return SkipReason.InvalidData;
+
+  const deviation = calculateDeviation(newPrice, config.lastSentPrice);
+  if (deviation < config.deviationThreshold) {
+    return SkipReason.InsufficientDeviation;
+  }
+
+  return SkipReason.WithinHeartbeat;
+}
+
+/**
+ * The decision pollFeed() reaches for a round at one destination, i.e. which
+ * of UpdateForwarded or UpdateSkipped it emits for that destination. For a
+ * twap destination, `answer` is the TWAP the reactor sends it.
+ */
+export function decidePoll(
+  config: DecisionConfig,
+  roundId: bigint,
+  answer: bigint,
+  updatedAt: bigint
+): PollDecision {
+  if (roundId <= config.lastProcessedRoundId || answer <= 0n) {
+    return {
+      shouldForward: false,
+      reason: UpdateReason.FirstUpdate,
+      skipReason: SkipReason.InvalidData,
+    };
+  }
+
+  const decision = shouldForward(config, answer, updatedAt);
+  if (decision.shouldForward) {
+    return { shouldForward: true, reason: decision.reason };
+  }
+  return {
+    shouldForward: false,
+    reason: decision.reason,
+    skipReason: getSkipReason(config, answer),
+  };
+}
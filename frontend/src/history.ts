@@ -0,0 +1,95 @@
+/**
+ * Reading ChainlinkFeedReactor's per-feed decision history (getDecisions()).
+ *
+ * Shared by the relayer's `history` command and the dashboard. Callers pass
+ * in a function that reads one page, so the same code works with viem and
+ * ethers.
+ */
+
+import { SkipReason, UpdateReason } from "./decision.js";
+
+/** Mirrors ChainlinkFeedReactor.DECISION_HISTORY_SIZE */
+export const DECISION_HISTORY_SIZE = 64;
+
+/** Mirrors ChainlinkFeedReactor.Decision */
+export interface Decision {
+  roundId: bigint;
+  updatedAt: bigint;
+  destinationIndex: number;
+  forwarded: boolean;
+  /** Only meaningful when forwarded */
+  updateReason: UpdateReason;
+  /** Only meaningful when not forwarded */
+  skipReason: SkipReason;
+  answer: bigint;
+}
+
+/**
+ * One getDecisions() entry as a client library returns it: viem decodes the
+ * small integers as numbers, ethers as bigints
+ */
+export interface RawDecision {
+  roundId: bigint;
+  updatedAt: bigint;
+  destinationIndex: number | bigint;
+  forwarded: boolean;
+  updateReason: number | bigint;
+  skipReason: number | bigint;
+  answer: bigint;
+}
+
+export type DecisionPageReader = (
+  offset: bigint,
+  limit: bigint
+) => Promise<readonly RawDecision[]>;
+
+export const UPDATE_REASON_LABELS: Record<UpdateReason, string> = {
+  [UpdateReason.FirstUpdate]: "First update",
+  [UpdateReason.DeviationThreshold]: "Deviation threshold",
+  [UpdateReason.HeartbeatExpired]: "Heartbeat expired",
+  [UpdateReason.AdaptiveDeviation]: "Adaptive deviation",
+};
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  [SkipReason.InsufficientDeviation]: "Insufficient deviation",
+  [SkipReason.WithinHeartbeat]: "Within heartbeat",
+  [SkipReason.InvalidData]: "Invalid data",
+};
+
+export function toDecision(raw: RawDecision): Decision {
+  return {
+    roundId: BigInt(raw.roundId),
+    updatedAt: BigInt(raw.updatedAt),
+    destinationIndex: Number(raw.destinationIndex),
+    forwarded: raw.forwarded,
+    updateReason: Number(raw.updateReason) as UpdateReason,
+    skipReason: Number(raw.skipReason) as SkipReason,
+    answer: BigInt(raw.answer),
+  };
+}
+
+/** "Forwarded (Deviation threshold)" or "Skipped (Within heartbeat)" */
+export function describeDecision(decision: Decision): string {
+  return decision.forwarded
+    ? `Forwarded (${UPDATE_REASON_LABELS[decision.updateReason]})`
+    : `Skipped (${SKIP_REASON_LABELS[decision.skipReason]})`;
+}
+
+/**
+ * Read up to `limit` of a feed's most recent decisions, newest first,
+ * `pageSize` entries per call
+ */
+export async function fetchDecisions(
+  readPage: DecisionPageReader,
+  limit: number = DECISION_HISTORY_SIZE,
+  pageSize: number = 16
+): Promise<Decision[]> {
+  const decisions: Decision[] = [];
+  while (decisions.length < limit) {
+    const size = Math.min(pageSize, limit - decisions.length);
+    const page = await readPage(BigInt(decisions.length), BigInt(size));
+    decisions.push(...page.map(toDecision));
+    if (page.length < size) break;
+  }
+  return decisions;
+}
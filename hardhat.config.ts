@@ -50,21 +50,43 @@ const reactiveTestnet = defineChain({
   },
 });
 
+const optimized = {
+  optimizer: {
+    enabled: true,
+    runs: 200,
+  },
+};
+
+const reactorOverrides = Object.fromEntries(
+  [
+    "contracts/reactive/ChainlinkFeedReactor.sol",
+    "contracts/test/ChainlinkFeedReactorHarness.sol",
+    // Libraries linked into the reactor; they import it for its types
+    "contracts/libraries/AdminTimelock.sol",
+    "contracts/libraries/DerivedFeeds.sol",
+    "contracts/libraries/FeedArchive.sol",
+    // Solidity tests that deploy the reactor from source
+    "test/ChainlinkFeedMirror.t.sol",
+  ].map((file) => [
+    file,
+    { version: "0.8.28", settings: { ...optimized, viaIR: true } },
+  ])
+);
+
 export default defineConfig({
   plugins: [hardhatToolboxViemPlugin],
   solidity: {
     profiles: {
+      // Optimized like foundry.toml: the reactor exceeds the 24KB code size
+      // limit without it, so tests would fail to deploy. The reactor is also
+      // compiled via IR, since it exceeds the legacy pipeline's stack limit
       default: {
-        version: "0.8.28",
+        compilers: [{ version: "0.8.28", settings: optimized }],
+        overrides: reactorOverrides,
       },
       production: {
-        version: "0.8.28",
-        settings: {
-          optimizer: {
-            enabled: true,
-            runs: 200,
-          },
-        },
+        compilers: [{ version: "0.8.28", settings: optimized }],
+        overrides: reactorOverrides,
       },
     },
   },
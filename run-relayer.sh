@@ -0,0 +1,10 @@
+#!/bin/bash
+# Start the long-running relayer from the repository root (systemd, pm2, docker, ...)
+set -euo pipefail
+cd "$(dirname "$0")"
+if [ -f .env.local ]; then
+  set -a
+  source .env.local
+  set +a
+fi
+exec npx tsx scripts/relayer/index.ts "${@:-run}"
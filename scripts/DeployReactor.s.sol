@@ -5,10 +5,13 @@ import {Script, console} from "forge-std/src/Script.sol";
 import {ChainlinkFeedReactor} from "../contracts/reactive/ChainlinkFeedReactor.sol";
 
 contract DeployReactor is Script {
+    // System contract address on Reactive Network
+    address constant SYSTEM_CONTRACT = 0x0000000000000000000000000000000000fffFfF;
+
     function run() external returns (address) {
         vm.startBroadcast();
 
-        ChainlinkFeedReactor reactor = new ChainlinkFeedReactor{value: 0}();
+        ChainlinkFeedReactor reactor = new ChainlinkFeedReactor{value: 0}(SYSTEM_CONTRACT);
 
         console.log("ChainlinkFeedReactor deployed at:", address(reactor));
 
@@ -6,12 +6,15 @@ import {ChainlinkFeedReactor} from "../contracts/reactive/ChainlinkFeedReactor.s
 
 /// @notice Deploys ChainlinkFeedReactor to Base Mainnet with the polling-enabled contract.
 contract DeployReactorBase is Script {
+    // Base has no Reactive system contract; feeds are driven by pollFeed()
+    address constant SYSTEM_CONTRACT = address(0);
+
     function run() external returns (address) {
         uint256 deployerKey = vm.envUint("BASE_PRIVATE_KEY");
 
         vm.startBroadcast(deployerKey);
 
-        ChainlinkFeedReactor reactor = new ChainlinkFeedReactor{value: 0}();
+        ChainlinkFeedReactor reactor = new ChainlinkFeedReactor{value: 0}(SYSTEM_CONTRACT);
         console.log("ChainlinkFeedReactor deployed at %s", address(reactor));
 
         vm.stopBroadcast();
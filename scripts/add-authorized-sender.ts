@@ -1,7 +1,7 @@
 
 
 import { network } from "hardhat";
-import { getAddress } from "viem";
+import { encodeFunctionData, getAddress } from "viem";
 
 async function main() {
   const feedProxyAddress = process.env.FEEDPROXY_ADDRESS;
@@ -82,6 +82,31 @@ async function main() {
     return;
   }
 
+  // With the timelock on, the call has to be queued and executed later
+  const timelockDelay = await feedProxy.read.timelockDelay();
+  if (timelockDelay > 0n) {
+    console.log("⏱️  Timelock is on; queueing addAuthorizedSender()");
+    const queueHash = await feedProxy.write.queueAction(
+      [
+        encodeFunctionData({
+          abi: feedProxy.abi,
+          functionName: "addAuthorizedSender",
+          args: [getAddress(addressToAuthorize)],
+        }),
+      ],
+      { account: deployer.account }
+    );
+    await publicClient.waitForTransactionReceipt({ hash: queueHash });
+    console.log("✅ Queued:", queueHash);
+    console.log(
+      `💡 Execute it in ${timelockDelay.toString()} seconds with scripts/timelock-actions.ts:`
+    );
+    console.log(
+      `   TIMELOCK_COMMAND=execute TIMELOCK_ADDRESS=${feedProxyAddress} npx hardhat run scripts/timelock-actions.ts --network bnbTestnet`
+    );
+    return;
+  }
+
   // Add authorized sender
   console.log("➕ Adding authorized sender:", addressToAuthorize);
   const txHash = await feedProxy.write.addAuthorizedSender(
@@ -7,7 +7,7 @@
  */
 
 import { network } from "hardhat";
-import { CONFIG } from "../frontend/src/config";
+import { CONFIG } from "../frontend/src/config.js";
 import { createPublicClient, http, defineChain } from "viem";
 
 async function main() {
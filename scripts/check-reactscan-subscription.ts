@@ -6,9 +6,10 @@
  *   npx hardhat run scripts/check-reactscan-subscription.ts --network reactive
  */
 
-import { createPublicClient, http, defineChain } from "viem";
+import { createPublicClient, http, defineChain, type Hex } from "viem";
 import * as fs from "fs";
 import * as path from "path";
+import type { Destination, FeedConfig, FeedMetrics } from "./relayer/types.js";
 
 const reactiveTestnetChain = defineChain({
   id: 5318007,
@@ -88,42 +89,53 @@ async function main() {
     console.log("");
 
     // Check feed count
-    const feedCount = await publicClient.readContract({
+    const feedCount = (await publicClient.readContract({
       address: reactorAddress as `0x${string}`,
       abi: abi,
       functionName: "getFeedCount",
-    });
+    })) as bigint;
     console.log("📊 Registered Feeds:", feedCount.toString());
     console.log("");
 
     // Get all feeds
-    const feedIds = await publicClient.readContract({
+    const feedIds = (await publicClient.readContract({
       address: reactorAddress as `0x${string}`,
       abi: abi,
       functionName: "getAllFeeds",
-    });
+    })) as readonly Hex[];
 
     if (feedIds.length > 0) {
       console.log("📋 Feed Details:");
       for (const feedId of feedIds) {
-        const config = await publicClient.readContract({
+        const config = (await publicClient.readContract({
           address: reactorAddress as `0x${string}`,
           abi: abi,
           functionName: "getFeedConfig",
           args: [feedId],
-        });
+        })) as FeedConfig;
 
-        const metrics = await publicClient.readContract({
+        const metrics = (await publicClient.readContract({
           address: reactorAddress as `0x${string}`,
           abi: abi,
           functionName: "getFeedMetrics",
           args: [feedId],
-        });
+        })) as FeedMetrics;
+
+        const destinations = (await publicClient.readContract({
+          address: reactorAddress as `0x${string}`,
+          abi: abi,
+          functionName: "getDestinations",
+          args: [feedId],
+        })) as readonly Destination[];
 
         console.log(`\n   Feed ID: ${feedId}`);
         console.log(`   Origin Chain: ${config.originChainId}`);
         console.log(`   Feed Address: ${config.feedAddress}`);
-        console.log(`   Destination Chain: ${config.destinationChainId}`);
+        for (const [index, destination] of destinations.entries()) {
+          console.log(
+            `   Destination ${index}: chain ${destination.chainId}, proxy ${destination.proxy}${destination.active ? "" : " (inactive)"}`
+          );
+        }
         console.log(`   Active: ${config.active}`);
         console.log(`   Description: ${config.description}`);
         console.log(`   Events Received: ${metrics.totalEventsReceived}`);
@@ -192,12 +204,12 @@ async function main() {
     console.log("\n📋 Subscription Parameters (from feed registration):");
     if (feedIds.length > 0) {
       const feedId = feedIds[0];
-      const config = await publicClient.readContract({
+      const config = (await publicClient.readContract({
         address: reactorAddress as `0x${string}`,
         abi: abi,
         functionName: "getFeedConfig",
         args: [feedId],
-      });
+      })) as FeedConfig;
 
       console.log("   Chain ID:", config.originChainId.toString());
       console.log("   Contract:", config.feedAddress);
@@ -0,0 +1,107 @@
+import { network } from "hardhat";
+import { isAddress, type Address, type Hex } from "viem";
+
+/**
+ * Deploy a FeedRegistry and, optionally, register a first feed with its
+ * AggregatorV2V3Interface view.
+ *
+ * Environment:
+ *   FEED_REGISTRY_ADDRESS: Reuse an existing registry instead of deploying one
+ *   REGISTRY_FEED_ID: Reactor feedId to register (skip registration if unset)
+ *   REGISTRY_BASE / REGISTRY_QUOTE: Optional (base, quote) pair for the feed
+ *   REGISTRY_DECIMALS (default 8), REGISTRY_DESCRIPTION (default "ETH/USD"),
+ *   REGISTRY_HEARTBEAT (default 3600)
+ *   REGISTRY_AUTHORIZED_SENDER: Relayer to authorize
+ */
+async function main() {
+  const { viem } = await network.connect();
+  const [deployer] = await viem.getWalletClients();
+  const publicClient = await viem.getPublicClient();
+
+  console.log("📝 Using account:", deployer.account.address);
+  console.log("");
+
+  const registry = process.env.FEED_REGISTRY_ADDRESS
+    ? await viem.getContractAt(
+        "FeedRegistry",
+        process.env.FEED_REGISTRY_ADDRESS as Address
+      )
+    : await viem.deployContract("FeedRegistry");
+  console.log(
+    process.env.FEED_REGISTRY_ADDRESS
+      ? "📦 Using FeedRegistry at:"
+      : "✅ FeedRegistry deployed to:",
+    registry.address
+  );
+
+  const sender = process.env.REGISTRY_AUTHORIZED_SENDER;
+  if (sender) {
+    if (!isAddress(sender)) {
+      throw new Error("REGISTRY_AUTHORIZED_SENDER must be an address");
+    }
+    const hash = await registry.write.addAuthorizedSender([sender]);
+    await publicClient.waitForTransactionReceipt({ hash });
+    console.log("✅ Authorized sender:", sender);
+  }
+
+  const feedId = process.env.REGISTRY_FEED_ID as Hex | undefined;
+  if (!feedId) {
+    console.log("");
+    console.log("ℹ️  REGISTRY_FEED_ID not set, no feed registered");
+    return;
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(feedId)) {
+    throw new Error("REGISTRY_FEED_ID must be a 32-byte feed ID");
+  }
+
+  const zero = "0x0000000000000000000000000000000000000000";
+  const base = (process.env.REGISTRY_BASE || zero) as Address;
+  const quote = (process.env.REGISTRY_QUOTE || zero) as Address;
+  const decimals = process.env.REGISTRY_DECIMALS
+    ? parseInt(process.env.REGISTRY_DECIMALS)
+    : 8;
+  const description = process.env.REGISTRY_DESCRIPTION || "ETH/USD";
+  const heartbeat = process.env.REGISTRY_HEARTBEAT
+    ? BigInt(process.env.REGISTRY_HEARTBEAT)
+    : 3600n;
+
+  console.log("");
+  console.log("📦 Registering feed:");
+  console.log("   - feedId:", feedId);
+  console.log("   - pair:", base === zero ? "(none)" : `${base} / ${quote}`);
+  console.log("   - decimals:", decimals);
+  console.log("   - description:", description);
+  console.log("   - heartbeat:", heartbeat.toString(), "seconds");
+
+  const registerHash = await registry.write.registerFeed([
+    feedId,
+    base,
+    quote,
+    decimals,
+    description,
+    heartbeat,
+  ]);
+  await publicClient.waitForTransactionReceipt({ hash: registerHash });
+
+  const deployHash = await registry.write.deployAggregator([feedId]);
+  await publicClient.waitForTransactionReceipt({ hash: deployHash });
+  const { aggregator } = await registry.read.getFeedConfig([feedId]);
+  console.log("✅ Feed registered, aggregator view at:", aggregator);
+  console.log("");
+
+  console.log("📋 Next Steps:");
+  console.log(
+    "1. Register the aggregator view as the feed's destination proxy on the reactor"
+  );
+  console.log(
+    "2. Authorize the relayer on the registry, not on the view, and set the callback proxy and RVM ID with setReactiveCallback()"
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Deployment failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -77,6 +77,39 @@ npx hardhat compile || {
     exit 1
 }
 
+# Deploy the external libraries the reactor links against
+# Prints the library's address, or exits with the forge output on failure
+deploy_library() {
+    local library_path=$1
+    local library_log=$(mktemp)
+    if ! forge create \
+        "$library_path" \
+        --rpc-url "$RPC_URL" \
+        --private-key "$REACTIVE_PRIVATE_KEY" \
+        --chain "$CHAIN_ID" \
+        --broadcast \
+        > "$library_log" 2>&1; then
+        cat "$library_log" >&2
+        rm -f "$library_log"
+        return 1
+    fi
+    grep -oE "Deployed to: 0x[0-9a-fA-F]{40}" "$library_log" | grep -oE "0x[0-9a-fA-F]{40}"
+    rm -f "$library_log"
+}
+
+echo -e "${YELLOW}Deploying libraries with Foundry...${NC}"
+LIBRARIES=()
+for LIBRARY in AdminTimelock DerivedFeeds FeedArchive; do
+    LIBRARY_PATH="contracts/libraries/${LIBRARY}.sol:${LIBRARY}"
+    LIBRARY_ADDRESS=$(deploy_library "$LIBRARY_PATH") || {
+        echo -e "${RED}Library deployment failed: ${LIBRARY}${NC}"
+        exit 1
+    }
+    echo -e "${GREEN}✓ ${LIBRARY}: ${LIBRARY_ADDRESS}${NC}"
+    LIBRARIES+=(--libraries "$LIBRARY_PATH:$LIBRARY_ADDRESS")
+done
+echo ""
+
 # Deploy contract with verification
 echo -e "${YELLOW}Deploying contract with Foundry...${NC}"
 echo ""
@@ -90,6 +123,7 @@ if forge create \
     --rpc-url "$RPC_URL" \
     --private-key "$REACTIVE_PRIVATE_KEY" \
     --chain "$CHAIN_ID" \
+    "${LIBRARIES[@]}" \
     --constructor-args "$SYSTEM_CONTRACT" \
     --broadcast \
     > "$TEMP_LOG" 2>&1; then
@@ -16,7 +16,13 @@
  */
 
 import { network } from "hardhat";
-import { createPublicClient, http, createWalletClient } from "viem";
+import {
+  createPublicClient,
+  http,
+  createWalletClient,
+  type Address,
+  type Hex,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { defineChain } from "viem";
 import * as fs from "fs";
@@ -46,6 +52,47 @@ const reactiveTestnetChain = defineChain({
   },
 });
 
+// Hardhat artifact fields this script reads
+interface Artifact {
+  abi: any[];
+  bytecode: string;
+  linkReferences: Record<
+    string,
+    Record<string, { start: number; length: number }[]>
+  >;
+}
+
+function readArtifact(sourceName: string, contractName: string): Artifact {
+  const artifactPath = path.join(
+    process.cwd(),
+    `artifacts/${sourceName}/${contractName}.json`
+  );
+  return JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+}
+
+/**
+ * Fill in the addresses of the external libraries a contract links against
+ */
+function linkBytecode(
+  artifact: Artifact,
+  libraries: Record<string, Address>
+): Hex {
+  let bytecode = artifact.bytecode.slice(2);
+  for (const references of Object.values(artifact.linkReferences)) {
+    for (const [name, offsets] of Object.entries(references)) {
+      const address = libraries[name];
+      if (!address) throw new Error(`Missing address for library ${name}`);
+      for (const { start, length } of offsets) {
+        bytecode =
+          bytecode.slice(0, start * 2) +
+          address.slice(2).toLowerCase() +
+          bytecode.slice((start + length) * 2);
+      }
+    }
+  }
+  return `0x${bytecode}`;
+}
+
 async function main() {
   // Get private key from environment
   const privateKey = process.env.REACTIVE_PRIVATE_KEY;
@@ -105,21 +152,38 @@ async function main() {
   console.log("📦 Deploying ChainlinkFeedReactor contract...");
   console.log("   System Contract:", systemContractAddress);
 
+  // The reactor delegates to external libraries, which are deployed first
+  const libraries: Record<string, Address> = {};
+  for (const name of ["AdminTimelock", "DerivedFeeds", "FeedArchive"]) {
+    const library = readArtifact(`contracts/libraries/${name}.sol`, name);
+    const libraryHash = await walletClient.deployContract({
+      account: account,
+      chain: reactiveTestnetChain,
+      abi: library.abi,
+      bytecode: library.bytecode as Hex,
+    });
+    const libraryReceipt = await publicClient.waitForTransactionReceipt({
+      hash: libraryHash,
+    });
+    if (!libraryReceipt.contractAddress) {
+      throw new Error(`${name} deployment failed - no contract address`);
+    }
+    libraries[name] = libraryReceipt.contractAddress;
+    console.log(`   ${name} library:`, libraryReceipt.contractAddress);
+  }
+
   // Load contract ABI from artifacts
-  const artifactPath = path.join(
-    process.cwd(),
-    "artifacts/contracts/reactive/ChainlinkFeedReactor.sol/ChainlinkFeedReactor.json"
+  const artifact = readArtifact(
+    "contracts/reactive/ChainlinkFeedReactor.sol",
+    "ChainlinkFeedReactor"
   );
-  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
-  const contractAbi = artifact.abi;
-  const contractBytecode = artifact.bytecode;
 
   // Deploy contract
   const hash = await walletClient.deployContract({
     account: account,
     chain: reactiveTestnetChain,
-    abi: contractAbi,
-    bytecode: contractBytecode as `0x${string}`,
+    abi: artifact.abi,
+    bytecode: linkBytecode(artifact, libraries),
     args: [systemContractAddress as `0x${string}`],
   });
 
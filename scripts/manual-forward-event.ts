@@ -265,6 +265,8 @@ async function main() {
   } catch (e: any) {
     if (e.message?.includes("NoDataAvailable")) {
       console.log("   FeedProxy before: No data (uninitialized)");
+    } else if (e.message?.includes("StaleData")) {
+      console.log("   FeedProxy before: Stale (reads revert under RevertOnStale)");
     } else {
       throw e;
     }
@@ -280,6 +282,7 @@ async function main() {
     args: [
       roundId,
       answer,
+      startedAt,
       updatedAt,
       answeredInRound,
     ],
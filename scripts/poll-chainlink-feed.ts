@@ -7,6 +7,12 @@ import { getAddress, keccak256, encodePacked } from "viem";
 import { ethers } from "ethers"; // v6
 import * as fs from "fs";
 import * as path from "path";
+import {
+  calculateDeviation,
+  destinationDecisionConfig,
+  shouldForward,
+  UpdateReason,
+} from "../frontend/src/decision.js";
 
 const reactiveTestnetChain = defineChain({
   id: 5318007,
@@ -157,7 +163,7 @@ async function main() {
     console.log(`   Block: ${receipt.blockNumber}\n`);
   } catch (error: any) {
     if (
-      error.message?.includes("Feed not active") ||
+      error.message?.includes("FeedNotActive") ||
       error.message?.includes("already processed")
     ) {
       console.log("⏭️  Round already processed by reactor, skipping...\n");
@@ -176,6 +182,25 @@ async function main() {
     args: [feedId],
   })) as any;
 
+  // This script serves the destination registered with the feed (index 0)
+  const destination = (await reactivePublicClient.readContract({
+    address: reactorAddress as `0x${string}`,
+    abi: reactorAbi,
+    functionName: "getDestination",
+    args: [feedId, 0n],
+  })) as any;
+  const volatility = (await reactivePublicClient.readContract({
+    address: reactorAddress as `0x${string}`,
+    abi: reactorAbi,
+    functionName: "volatility",
+    args: [feedId],
+  })) as bigint;
+  const decisionConfig = destinationDecisionConfig(
+    config,
+    destination,
+    volatility
+  );
+
   const metrics = (await reactivePublicClient.readContract({
     address: reactorAddress as `0x${string}`,
     abi: reactorAbi,
@@ -188,35 +213,52 @@ async function main() {
   console.log("   Updates Skipped:", metrics.updatesSkipped.toString());
 
   // Step 4: Check if should forward based on deviation/heartbeat
-  const shouldForwardUpdate = shouldForward(
-    config,
-    BigInt(answer.toString()),
+  const newPrice = BigInt(answer.toString());
+  const decision = shouldForward(
+    decisionConfig,
+    newPrice,
     BigInt(updatedAt.toString())
   );
+  const deviation =
+    decisionConfig.lastSentPrice === 0n
+      ? 0n
+      : calculateDeviation(newPrice, decisionConfig.lastSentPrice);
 
-  if (!shouldForwardUpdate) {
+  if (!decision.shouldForward) {
     console.log(
       "\n⏭️  Skipping FeedProxy update (deviation/heartbeat not met)."
     );
 
     // Show why it was skipped
-    const lastPrice = BigInt(config.lastSentPrice);
-    const deviation = calcDeviation(lastPrice, BigInt(answer.toString()));
     const deviationPercent = Number(deviation) / 100;
-    const thresholdPercent = Number(config.deviationThreshold) / 100;
+    const thresholdPercent = Number(decisionConfig.deviationThreshold) / 100;
 
     console.log(`   Current deviation: ${deviationPercent.toFixed(2)}%`);
     console.log(`   Required threshold: ${thresholdPercent.toFixed(2)}%`);
 
     const timeSinceLastSent = Number(
-      BigInt(updatedAt.toString()) - BigInt(config.lastSentTime)
+      BigInt(updatedAt.toString()) - decisionConfig.lastSentTime
     );
-    const heartbeatSeconds = Number(config.heartbeat);
+    const heartbeatSeconds = Number(decisionConfig.heartbeat);
     console.log(`   Time since last update: ${timeSinceLastSent}s`);
     console.log(`   Heartbeat threshold: ${heartbeatSeconds}s\n`);
     return;
   }
 
+  if (decision.reason === UpdateReason.DeviationThreshold) {
+    console.log(
+      `   Reason: Deviation threshold met (${Number(deviation) / 100}%)`
+    );
+  } else if (decision.reason === UpdateReason.AdaptiveDeviation) {
+    console.log(
+      `   Reason: Adaptive deviation threshold met (${Number(deviation) / 100}%)`
+    );
+  } else if (decision.reason === UpdateReason.HeartbeatExpired) {
+    console.log("   Reason: Heartbeat expired");
+  } else {
+    console.log("   Reason: First update");
+  }
+
   // Step 5: Forward to FeedProxy on destination chain
   if (!destinationProxy || !bnbRpcUrl || !bnbPrivateKey) {
     console.warn("⚠️  Missing destination settings; cannot forward update.");
@@ -245,9 +287,12 @@ async function main() {
   );
 
   try {
-    const updateTx = await feedProxy.updateRoundData(
+    const updateTx = await feedProxy[
+      "updateRoundData(uint80,int256,uint256,uint256,uint80)"
+    ](
       roundId,
       answer,
+      startedAt,
       updatedAt,
       answeredInRound,
       {
@@ -265,28 +310,11 @@ async function main() {
     // ✅ NEW: Confirm forward on reactor
     console.log("5️⃣  Confirming forward on reactor...");
 
-    // Determine reason from earlier check
-    let updateReason = 0; // FirstUpdate
-    const lastPrice = BigInt(config.lastSentPrice);
-    if (lastPrice !== 0n) {
-      const deviation = calcDeviation(lastPrice, BigInt(answer.toString()));
-      if (deviation >= BigInt(config.deviationThreshold)) {
-        updateReason = 1; // DeviationThreshold
-      } else {
-        updateReason = 2; // HeartbeatExpired
-      }
-    }
-
     const confirmTx = await reactiveWalletClient.writeContract({
       address: reactorAddress as `0x${string}`,
       abi: reactorAbi,
       functionName: "confirmForward",
-      args: [
-        feedId,
-        BigInt(answer.toString()),
-        BigInt(updatedAt.toString()),
-        updateReason,
-      ],
+      args: [feedId, 0n, BigInt(roundId.toString())],
     });
 
     await reactivePublicClient.waitForTransactionReceipt({ hash: confirmTx });
@@ -305,47 +333,6 @@ async function main() {
   }
 }
 
-function shouldForward(
-  config: any,
-  newPrice: bigint,
-  updatedAt: bigint
-): boolean {
-  const lastPrice = BigInt(config.lastSentPrice);
-  const lastTime = BigInt(config.lastSentTime);
-  const deviationThreshold = BigInt(config.deviationThreshold);
-  const heartbeat = BigInt(config.heartbeat);
-
-  // First update always forwards
-  if (lastPrice === 0n) {
-    console.log("   Reason: First update");
-    return true;
-  }
-
-  // Check deviation
-  const deviation = calcDeviation(lastPrice, newPrice);
-  if (deviation >= deviationThreshold) {
-    console.log(
-      `   Reason: Deviation threshold met (${Number(deviation) / 100}%)`
-    );
-    return true;
-  }
-
-  // Check heartbeat
-  const timeSinceLastSent = updatedAt - lastTime;
-  if (timeSinceLastSent >= heartbeat) {
-    console.log(`   Reason: Heartbeat expired (${timeSinceLastSent}s)`);
-    return true;
-  }
-
-  return false;
-}
-
-function calcDeviation(oldPrice: bigint, newPrice: bigint): bigint {
-  if (oldPrice === 0n) return 10000n;
-  const diff = newPrice > oldPrice ? newPrice - oldPrice : oldPrice - newPrice;
-  return (diff * 10000n) / oldPrice;
-}
-
 main().catch((error) => {
   console.error("❌ Poll job failed:", error);
   process.exit(1);
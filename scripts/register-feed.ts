@@ -14,16 +14,40 @@
  *   FEED_DESCRIPTION: Feed description (default: "ETH/USD")
  *   DEVIATION_THRESHOLD: Deviation threshold in basis points (default: 50 = 0.5%)
  *   HEARTBEAT: Heartbeat in seconds (default: 3600 = 1 hour)
+ *
+ * Composite feeds (e.g. ETH/BTC from ETH/USD and BTC/USD) are registered
+ * instead of an origin feed when BASE_FEED_ID and QUOTE_FEED_ID are set;
+ * ORIGIN_CHAIN_ID and FEED_ADDRESS are then not needed:
+ *   BASE_FEED_ID: Registered feed ID of the numerator or first factor
+ *   QUOTE_FEED_ID: Registered feed ID of the denominator or second factor
+ *   COMPOSITE_OP: "ratio" (base / quote) or "product" (base * quote) (default: ratio)
+ *
+ * Aggregate feeds (the median of e.g. ETH/USD on Sepolia, Arbitrum Sepolia and
+ * Base Sepolia) are registered the same way when SOURCE_FEED_IDS is set; their
+ * decimals are those of the sources:
+ *   SOURCE_FEED_IDS: Comma-separated registered feed IDs, in any order
+ *   MIN_SOURCES: Fresh sources needed for a round (default: a majority)
+ *   STALENESS_WINDOW: Seconds a source may lag the newest one and still count (default: 3600)
+ *
+ * A feed that is already registered fails to register again. To change its
+ * destination or decimals, set REREGISTER=true: the script then deregisters it
+ * first (its metrics move to getArchivedMetrics()). Composites and aggregates
+ * built on the feed must be deregistered before it. While the reactor's
+ * timelock is on, deregisterFeed() and the registration are queued instead;
+ * after a deregistration, run the script again once timelock-actions.ts has
+ * executed it.
  */
 
 import { network } from "hardhat";
 import {
   getAddress,
   keccak256,
+  encodeFunctionData,
   encodePacked,
   createPublicClient,
   http,
   createWalletClient,
+  zeroAddress,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { defineChain } from "viem";
@@ -60,6 +84,24 @@ async function main() {
   const feedAddress = process.env.FEED_ADDRESS;
   const destinationChainId = process.env.DESTINATION_CHAIN_ID;
   const destinationProxy = process.env.DESTINATION_PROXY;
+  const baseFeedId = process.env.BASE_FEED_ID;
+  const quoteFeedId = process.env.QUOTE_FEED_ID;
+  const composite = !!baseFeedId || !!quoteFeedId;
+  const compositeOp = (process.env.COMPOSITE_OP || "ratio").toLowerCase();
+  // The reactor takes the sources in ascending order
+  const sourceFeedIds = (process.env.SOURCE_FEED_IDS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => id !== "")
+    .sort() as `0x${string}`[];
+  const aggregate = sourceFeedIds.length > 0;
+  const minSources = process.env.MIN_SOURCES
+    ? parseInt(process.env.MIN_SOURCES)
+    : Math.floor(sourceFeedIds.length / 2) + 1;
+  const stalenessWindow = process.env.STALENESS_WINDOW
+    ? parseInt(process.env.STALENESS_WINDOW)
+    : 3600;
+  const derived = composite || aggregate;
 
   // Required parameters
   if (!reactorAddress) {
@@ -68,13 +110,44 @@ async function main() {
     process.exit(1);
   }
 
-  if (!originChainId) {
+  if (aggregate) {
+    if (sourceFeedIds.some((id) => !/^0x[0-9a-f]{64}$/.test(id))) {
+      console.error(
+        "❌ Error: SOURCE_FEED_IDS must be comma-separated 32-byte feed IDs"
+      );
+      process.exit(1);
+    }
+    if (
+      !Number.isInteger(minSources) ||
+      minSources < 1 ||
+      minSources > sourceFeedIds.length
+    ) {
+      console.error(
+        "❌ Error: MIN_SOURCES must be between 1 and the number of sources"
+      );
+      process.exit(1);
+    }
+  } else if (composite) {
+    if (
+      !/^0x[0-9a-fA-F]{64}$/.test(baseFeedId ?? "") ||
+      !/^0x[0-9a-fA-F]{64}$/.test(quoteFeedId ?? "")
+    ) {
+      console.error(
+        "❌ Error: BASE_FEED_ID and QUOTE_FEED_ID must both be 32-byte feed IDs"
+      );
+      process.exit(1);
+    }
+    if (compositeOp !== "ratio" && compositeOp !== "product") {
+      console.error('❌ Error: COMPOSITE_OP must be "ratio" or "product"');
+      process.exit(1);
+    }
+  } else if (!originChainId) {
     console.error("❌ Error: ORIGIN_CHAIN_ID environment variable is required");
     console.log("Example: export ORIGIN_CHAIN_ID=11155111 (Sepolia)");
     process.exit(1);
   }
 
-  if (!feedAddress) {
+  if (!derived && !feedAddress) {
     console.error("❌ Error: FEED_ADDRESS environment variable is required");
     console.log(
       "Example: export FEED_ADDRESS=0x694AA1769357215DE4FAC081bf1f309aDC325306 (ETH/USD on Sepolia)"
@@ -169,11 +242,21 @@ async function main() {
 
   // Display registration parameters
   console.log("📋 Registration Parameters:");
-  console.log("   Origin Chain ID:", originChainId);
-  console.log("   Feed Address:", feedAddress);
+  if (aggregate) {
+    console.log("   Source Feed IDs:", sourceFeedIds.join(", "));
+    console.log("   Min Sources:", minSources);
+    console.log("   Staleness Window:", stalenessWindow, "seconds");
+  } else if (composite) {
+    console.log("   Base Feed ID:", baseFeedId);
+    console.log("   Quote Feed ID:", quoteFeedId);
+    console.log("   Operation:", compositeOp);
+  } else {
+    console.log("   Origin Chain ID:", originChainId);
+    console.log("   Feed Address:", feedAddress);
+  }
   console.log("   Destination Chain ID:", destinationChainId);
   console.log("   Destination Proxy:", destinationProxy);
-  console.log("   Decimals:", decimals);
+  if (!aggregate) console.log("   Decimals:", decimals);
   console.log("   Description:", description);
   console.log(
     "   Deviation Threshold:",
@@ -183,22 +266,136 @@ async function main() {
   console.log("   Heartbeat:", heartbeat.toString(), "seconds");
   console.log("");
 
+  const op = compositeOp === "product" ? 1 : 0; // CompositeOp.Ratio = 0
+  // Calculate feed ID (same as contract does: keccak256(abi.encodePacked(originChainId, feedAddress)),
+  // for a composite keccak256(abi.encodePacked(baseFeedId, quoteFeedId, op)),
+  // for an aggregate keccak256(abi.encodePacked(sourceIds)))
+  const feedId = aggregate
+    ? keccak256(encodePacked(["bytes32[]"], [sourceFeedIds]))
+    : composite
+      ? keccak256(
+          encodePacked(
+            ["bytes32", "bytes32", "uint8"],
+            [baseFeedId as `0x${string}`, quoteFeedId as `0x${string}`, op]
+          )
+        )
+      : keccak256(
+          encodePacked(
+            ["uint64", "address"],
+            [BigInt(originChainId!), getAddress(feedAddress!)]
+          )
+        );
+
+  // With the timelock on, calls have to be queued and executed later
+  const timelockDelay = (await publicClient.readContract({
+    address: reactorAddress as `0x${string}`,
+    abi: reactorAbi,
+    functionName: "timelockDelay",
+  })) as bigint;
+  const queue = async (call: { functionName: string; args: unknown[] }) => {
+    console.log(`⏱️  Timelock is on; queueing ${call.functionName}()`);
+    const queueHash = await walletClient.writeContract({
+      address: reactorAddress as `0x${string}`,
+      abi: reactorAbi,
+      functionName: "queueAction",
+      args: [encodeFunctionData({ abi: reactorAbi, ...call })],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: queueHash });
+    console.log("✅ Queued:", queueHash);
+    console.log(
+      `💡 Execute it in ${timelockDelay.toString()} seconds with scripts/timelock-actions.ts:`
+    );
+    console.log(
+      `   TIMELOCK_COMMAND=execute TIMELOCK_CONTRACT=ChainlinkFeedReactor TIMELOCK_ADDRESS=${reactorAddress} npx hardhat run scripts/timelock-actions.ts --network reactive`
+    );
+  };
+
+  // Deregister the existing registration if asked to
+  const current = (await publicClient.readContract({
+    address: reactorAddress as `0x${string}`,
+    abi: reactorAbi,
+    functionName: "getFeedConfig",
+    args: [feedId],
+  })) as { feedAddress: string };
+  if (current.feedAddress !== zeroAddress) {
+    if (process.env.REREGISTER !== "true") {
+      console.error("❌ Error: Feed is already registered:", feedId);
+      console.log("   Set REREGISTER=true to deregister and register it again");
+      process.exit(1);
+    }
+
+    if (timelockDelay > 0n) {
+      await queue({ functionName: "deregisterFeed", args: [feedId] });
+      console.log("   Then run this script again to register the feed");
+      return;
+    }
+
+    console.log("➖ Deregistering existing feed...");
+    const deregisterHash = await walletClient.writeContract({
+      address: reactorAddress as `0x${string}`,
+      abi: reactorAbi,
+      functionName: "deregisterFeed",
+      args: [feedId],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: deregisterHash });
+    console.log("✅ Feed deregistered");
+    console.log("");
+  }
+
   // Register feed
+  const registration = aggregate
+    ? {
+        functionName: "registerAggregate",
+        args: [
+          sourceFeedIds,
+          minSources,
+          stalenessWindow,
+          BigInt(destinationChainId),
+          getAddress(destinationProxy),
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+      }
+    : composite
+      ? {
+          functionName: "registerComposite",
+          args: [
+            baseFeedId,
+            quoteFeedId,
+            op,
+            BigInt(destinationChainId),
+            getAddress(destinationProxy),
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+        }
+      : {
+          functionName: "registerFeed",
+          args: [
+            BigInt(originChainId!),
+            getAddress(feedAddress!),
+            BigInt(destinationChainId),
+            getAddress(destinationProxy),
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+        };
+  if (timelockDelay > 0n) {
+    await queue(registration);
+    console.log("   Feed ID once registered:", feedId);
+    return;
+  }
+
   console.log("➕ Registering feed...");
   const txHash = await walletClient.writeContract({
     address: reactorAddress as `0x${string}`,
     abi: reactorAbi,
-    functionName: "registerFeed",
-    args: [
-      BigInt(originChainId),
-      getAddress(feedAddress),
-      BigInt(destinationChainId),
-      getAddress(destinationProxy),
-      decimals,
-      description,
-      deviationThreshold,
-      heartbeat,
-    ],
+    ...registration,
   });
 
   console.log("📤 Transaction hash:", txHash);
@@ -211,18 +408,14 @@ async function main() {
   console.log("   Block:", receipt.blockNumber);
   console.log("");
 
-  // Calculate feed ID (same as contract does: keccak256(abi.encodePacked(originChainId, feedAddress)))
-  const feedId = keccak256(
-    encodePacked(
-      ["uint64", "address"],
-      [BigInt(originChainId), getAddress(feedAddress)]
-    )
-  );
-
   console.log("✅ Feed registered successfully!");
   console.log("   Feed ID:", feedId);
   console.log("");
-  console.log("💡 The reactor will now automatically monitor Chainlink events");
+  console.log(
+    derived
+      ? "💡 The reactor will now recompute the feed whenever an input updates"
+      : "💡 The reactor will now automatically monitor Chainlink events"
+  );
   console.log("   and forward updates to your FeedProxy when:");
   console.log(
     "   - Price deviates by",
@@ -0,0 +1,299 @@
+/**
+ * Seed destination FeedProxy contracts with a range of historical origin
+ * rounds, so getRoundData() serves IDs from before the relayer started.
+ *
+ * Rounds are read with the origin aggregator's getRoundData() and written
+ * with FeedProxy.backfillRounds() in chunks. Backfilling never touches the
+ * proxy's latest round: rounds at or above it are left out, and rounds the
+ * proxy already stores are skipped by the contract, so a run can be repeated.
+ * The proxy owner must enable backfill mode first with setBackfillMode(true).
+ *
+ * Round IDs are the origin proxy's, phase bits included. A range stays within
+ * one phase; run once per phase to cover an aggregator upgrade.
+ *
+ * Usage:
+ *   npm run relayer -- backfill --feed <feedId> --from-round <id> --to-round <id>
+ *   npm run relayer -- backfill ... --destination 1     # one destination only
+ *   npm run relayer -- backfill ... --chunk-size 25     # rounds per transaction
+ */
+
+import { parseArgs } from "util";
+import { parseEventLogs, type Hex } from "viem";
+import { ConfigError } from "./config.js";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, logFeed, logFeedError } from "./logger.js";
+import {
+  fetchOriginRound,
+  isComposite,
+  PipelineError,
+  readDestinationRound,
+  readDestinations,
+  readFeedConfig,
+} from "./pipeline.js";
+import { aggregatorRoundOf, phaseOf } from "./rounds.js";
+import type { Destination, FeedConfig, RoundData } from "./types.js";
+
+export interface BackfillOptions {
+  feedId: Hex;
+  fromRound: bigint;
+  toRound: bigint;
+  destination?: number;
+  chunkSize: number;
+}
+
+export interface DestinationBackfill {
+  index: number;
+  chainId: bigint;
+  /** Rounds sent to the proxy, including ones it already stored */
+  submitted: number;
+  /** Rounds the proxy actually wrote */
+  written: bigint;
+  error?: string;
+}
+
+export function parseBackfillArgs(args: string[]): BackfillOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      feed: { type: "string" },
+      "from-round": { type: "string" },
+      "to-round": { type: "string" },
+      destination: { type: "string" },
+      "chunk-size": { type: "string", default: "50" },
+    },
+  });
+
+  if (!values.feed || !/^0x[0-9a-fA-F]{64}$/.test(values.feed)) {
+    throw new ConfigError("--feed must be a 32-byte feed ID");
+  }
+  if (!values["from-round"] || !values["to-round"]) {
+    throw new ConfigError("--from-round and --to-round are required");
+  }
+
+  const fromRound = BigInt(values["from-round"]);
+  const toRound = BigInt(values["to-round"]);
+  if (fromRound <= 0n || toRound < fromRound) {
+    throw new ConfigError(
+      "--from-round must be positive and not above --to-round"
+    );
+  }
+
+  if (phaseOf(fromRound) !== phaseOf(toRound)) {
+    throw new ConfigError(
+      `--from-round (phase ${phaseOf(fromRound)}) and --to-round (phase ${phaseOf(toRound)}) must be in the same phase`
+    );
+  }
+  if (aggregatorRoundOf(fromRound) === 0n) {
+    throw new ConfigError("--from-round must not be a phase's round 0");
+  }
+
+  const chunkSize = Number(values["chunk-size"]);
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new ConfigError("--chunk-size must be a positive integer");
+  }
+
+  let destination: number | undefined;
+  if (values.destination !== undefined) {
+    destination = Number(values.destination);
+    if (!Number.isInteger(destination) || destination < 0) {
+      throw new ConfigError("--destination must be a destination index");
+    }
+  }
+
+  return {
+    feedId: values.feed as Hex,
+    fromRound,
+    toRound,
+    destination,
+    chunkSize,
+  };
+}
+
+async function fetchOriginRounds(
+  ctx: RelayerContext,
+  config: FeedConfig,
+  options: BackfillOptions
+): Promise<RoundData[]> {
+  const rounds: RoundData[] = [];
+  for (
+    let start = options.fromRound;
+    start <= options.toRound;
+    start += BigInt(options.chunkSize)
+  ) {
+    const ids: bigint[] = [];
+    for (
+      let id = start;
+      id <= options.toRound && id < start + BigInt(options.chunkSize);
+      id++
+    ) {
+      ids.push(id);
+    }
+    const chunk = await Promise.all(
+      ids.map((id) => fetchOriginRound(ctx, config, id))
+    );
+    rounds.push(...chunk.filter((round): round is RoundData => !!round));
+  }
+  return rounds;
+}
+
+async function assertBackfillEnabled(
+  ctx: RelayerContext,
+  destination: Destination
+): Promise<void> {
+  const enabled = (await ctx
+    .destinationReader(destination.chainId)
+    .readContract({
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      functionName: "backfillEnabled",
+    })) as boolean;
+  if (!enabled) {
+    throw new ConfigError(
+      `Backfill mode is off on ${destination.proxy}; ask the proxy owner to call (or queue) setBackfillMode(true)`
+    );
+  }
+}
+
+async function backfillDestination(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  rounds: RoundData[],
+  chunkSize: number
+): Promise<DestinationBackfill> {
+  const result: DestinationBackfill = {
+    index,
+    chainId: destination.chainId,
+    submitted: 0,
+    written: 0n,
+  };
+  await assertBackfillEnabled(ctx, destination);
+
+  // The proxy rejects rounds at or above its latest one
+  const latest = await readDestinationRound(ctx, destination);
+  const pending = latest
+    ? rounds.filter((round) => round.roundId < latest.roundId)
+    : rounds;
+  if (pending.length < rounds.length) {
+    logFeed(
+      feedId,
+      `Destination ${index}: leaving out ${rounds.length - pending.length} round(s) at or above its latest round ${latest!.roundId}`
+    );
+  }
+
+  const clients = ctx.destination(destination.chainId);
+  for (let i = 0; i < pending.length; i += chunkSize) {
+    const chunk = pending.slice(i, i + chunkSize);
+    const hash = await clients.walletClient.writeContract({
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      functionName: "backfillRounds",
+      args: [
+        chunk.map((round) => ({
+          roundId: round.roundId,
+          answer: round.answer,
+          startedAt: round.startedAt,
+          updatedAt: round.updatedAt,
+          answeredInRound: round.answeredInRound,
+        })),
+      ],
+    });
+    const receipt = await clients.publicClient.waitForTransactionReceipt({
+      hash,
+    });
+    if (receipt.status !== "success") {
+      throw new PipelineError(feedId, "backfillRounds", `reverted in ${hash}`);
+    }
+
+    const [event] = parseEventLogs({
+      abi: ctx.feedProxyAbi,
+      eventName: "RoundsBackfilled",
+      logs: receipt.logs,
+    }) as unknown as { args: { written: bigint } }[];
+    result.submitted += chunk.length;
+    result.written += event?.args.written ?? 0n;
+    logFeed(
+      feedId,
+      `✅ Destination ${index}: rounds ${chunk[0].roundId}-${chunk[chunk.length - 1].roundId} backfilled (${hash})`
+    );
+  }
+  return result;
+}
+
+/**
+ * Backfill a range of origin rounds into one or all destinations of a feed
+ */
+export async function backfill(
+  ctx: RelayerContext,
+  options: BackfillOptions
+): Promise<DestinationBackfill[]> {
+  const { feedId } = options;
+  const config = await readFeedConfig(ctx, feedId);
+  if (config.feedAddress === "0x0000000000000000000000000000000000000000") {
+    throw new ConfigError(`Feed ${feedId} is not registered on the reactor`);
+  }
+  if (isComposite(ctx, config)) {
+    throw new ConfigError(
+      `Feed ${feedId} is a composite feed and has no origin rounds to backfill`
+    );
+  }
+
+  const destinations = await readDestinations(ctx, feedId);
+  if (
+    options.destination !== undefined &&
+    options.destination >= destinations.length
+  ) {
+    throw new ConfigError(
+      `Feed ${feedId} has no destination ${options.destination}`
+    );
+  }
+  const targets = destinations
+    .map((destination, index) => ({ destination, index }))
+    .filter(({ destination, index }) =>
+      options.destination === undefined
+        ? destination.active
+        : index === options.destination
+    );
+
+  logFeed(
+    feedId,
+    `Reading origin rounds ${options.fromRound}-${options.toRound}`
+  );
+  const rounds = await fetchOriginRounds(ctx, config, options);
+  logFeed(feedId, `Found ${rounds.length} origin round(s) with data`);
+
+  const results: DestinationBackfill[] = [];
+  for (const { destination, index } of targets) {
+    try {
+      results.push(
+        await backfillDestination(
+          ctx,
+          feedId,
+          index,
+          destination,
+          rounds,
+          options.chunkSize
+        )
+      );
+    } catch (error) {
+      logFeedError(feedId, `Backfill of destination ${index} failed`, error);
+      results.push({
+        index,
+        chainId: destination.chainId,
+        submitted: 0,
+        written: 0n,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  for (const result of results) {
+    console.log(
+      result.error
+        ? `❌ Destination ${result.index} (chain ${result.chainId}): ${result.error}`
+        : `📊 Destination ${result.index} (chain ${result.chainId}): ${result.written} written, ${result.submitted - Number(result.written)} already stored`
+    );
+  }
+  return results;
+}
@@ -0,0 +1,264 @@
+/**
+ * Relayer configuration, loaded from environment variables.
+ *
+ * Environment Variables:
+ *   REACTOR_ADDRESS: Deployed ChainlinkFeedReactor address (required)
+ *   REACTIVE_PRIVATE_KEY: Key used for pollFeed/confirmForward on Reactive Network (required)
+ *   REACTIVE_TESTNET_RPC_URL: Reactive Network RPC (default: https://lasna-rpc.rnk.dev)
+ *   DESTINATION_PRIVATE_KEY: Key authorized on the FeedProxy contracts (falls back to BNB_PRIVATE_KEY)
+ *   ORIGIN_RPC_URL_<chainId>: RPC for an origin chain (Sepolia falls back to SEPOLIA_RPC_URL; Sepolia,
+ *     Arbitrum Sepolia and Base Sepolia have public defaults)
+ *   DESTINATION_RPC_URL_<chainId>: RPC for a destination chain (BNB testnet falls back to BNB_RPC_URL)
+ *   RELAYER_POLL_INTERVAL: Default seconds between polls of a feed (default: 60)
+ *   RELAYER_FEED_INTERVALS: JSON map of feedId => seconds to override the default per feed
+ *   RELAYER_FEED_REFRESH_INTERVAL: Seconds between getAllFeeds() refreshes (default: 300)
+ *   RELAYER_SHUTDOWN_TIMEOUT: Seconds to wait for in-flight pipelines on SIGTERM (default: 120)
+ *   RELAYER_RECOVERY_INTERVAL: Seconds between journal recovery checks after failed pipelines (default: 60)
+ *   RELAYER_DESTINATION_GAS_LIMIT: Gas limit for FeedProxy.updateRoundData (default: 200000)
+ *   RELAYER_BATCH_SIZE: Maximum feeds per pollFeeds() transaction (default: 20)
+ *   RELAYER_MODE: "poll" to poll on a timer, "events" to react to origin AnswerUpdated logs (default: poll)
+ *   RELAYER_STATE_DIR: Directory for persisted relayer state (default: .relayer)
+ *   ORIGIN_WS_URL_<chainId>: WebSocket RPC for eth_subscribe; without it logs are polled with getLogs
+ *   RELAYER_LOG_POLL_INTERVAL: Seconds between getLogs polls in events mode (default: 15)
+ *   RELAYER_LOG_BLOCK_RANGE: Maximum blocks per getLogs request (default: 2000)
+ *   RELAYER_LOG_LOOKBACK: Blocks to scan on first start when no cursor is stored (default: 1000)
+ *   RELAYER_UPDATE_MODE: "sender" to call updateRoundData() as an authorized sender, "signed" to
+ *     submit updateRoundDataSigned() with signatures from the FeedProxy signer set (default: sender)
+ *   RELAYER_SIGNER_PRIVATE_KEY: Key this relayer signs reports with (signed mode and sign-server)
+ *   RELAYER_SIGNER_PEERS: Comma-separated sign-server URLs of the other signers
+ *   RELAYER_SIGN_SERVER_PORT: Port the sign-server command listens on (default: 8787)
+ */
+
+import { getAddress, type Address, type Hex } from "viem";
+
+export type RelayerMode = "poll" | "events";
+
+export type UpdateMode = "sender" | "signed";
+
+export interface RelayerConfig {
+  reactorAddress: Address;
+  reactiveRpcUrl: string;
+  reactivePrivateKey: Hex;
+  destinationPrivateKey?: Hex;
+  originRpcUrls: Record<string, string>;
+  destinationRpcUrls: Record<string, string>;
+  defaultPollIntervalMs: number;
+  feedPollIntervalsMs: Record<string, number>;
+  feedRefreshIntervalMs: number;
+  shutdownTimeoutMs: number;
+  recoveryIntervalMs: number;
+  destinationGasLimit: bigint;
+  batchSize: number;
+  mode: RelayerMode;
+  stateDir: string;
+  originWsUrls: Record<string, string>;
+  logPollIntervalMs: number;
+  logBlockRange: bigint;
+  logLookbackBlocks: bigint;
+  updateMode: UpdateMode;
+  signerPrivateKey?: Hex;
+  signerPeers: string[];
+  signServerPort: number;
+}
+
+const DEFAULT_ORIGIN_RPC_URLS: Record<string, string> = {
+  "11155111": "https://ethereum-sepolia-rpc.publicnode.com",
+  "421614": "https://sepolia-rollup.arbitrum.io/rpc",
+  "84532": "https://sepolia.base.org",
+};
+
+const DEFAULT_DESTINATION_RPC_URLS: Record<string, string> = {
+  "56": "https://bsc-dataseed1.binance.org",
+  "97": "https://bsc-testnet.publicnode.com",
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+function toPrivateKey(value: string): Hex {
+  return `0x${value.replace(/^0x/, "")}` as Hex;
+}
+
+function readSeconds(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback * 1000;
+
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new ConfigError(`${name} must be a positive number of seconds`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Collect `<PREFIX><chainId>` variables into a chainId => value map
+ */
+function readChainMap(
+  prefix: string,
+  defaults: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = { ...defaults };
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(prefix) && value) {
+      result[key.slice(prefix.length)] = value;
+    }
+  }
+  return result;
+}
+
+function readBlockCount(name: string, fallback: bigint): bigint {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = BigInt(raw);
+  if (value <= 0n) {
+    throw new ConfigError(`${name} must be a positive number of blocks`);
+  }
+  return value;
+}
+
+function readCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ConfigError(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function readMode(): RelayerMode {
+  const mode = process.env.RELAYER_MODE || "poll";
+  if (mode !== "poll" && mode !== "events") {
+    throw new ConfigError(`RELAYER_MODE must be "poll" or "events"`);
+  }
+  return mode;
+}
+
+function readUpdateMode(): UpdateMode {
+  const mode = process.env.RELAYER_UPDATE_MODE || "sender";
+  if (mode !== "sender" && mode !== "signed") {
+    throw new ConfigError(`RELAYER_UPDATE_MODE must be "sender" or "signed"`);
+  }
+  return mode;
+}
+
+function readSignerPeers(): string[] {
+  const raw = process.env.RELAYER_SIGNER_PEERS;
+  if (!raw) return [];
+
+  return raw
+    .split(",")
+    .map((peer) => peer.trim().replace(/\/$/, ""))
+    .filter((peer) => peer.length > 0);
+}
+
+function readFeedIntervals(): Record<string, number> {
+  const raw = process.env.RELAYER_FEED_INTERVALS;
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError("RELAYER_FEED_INTERVALS must be valid JSON");
+  }
+
+  const result: Record<string, number> = {};
+  for (const [feedId, seconds] of Object.entries(
+    parsed as Record<string, unknown>
+  )) {
+    if (typeof seconds !== "number" || seconds <= 0) {
+      throw new ConfigError(`Invalid poll interval for feed ${feedId}`);
+    }
+    result[feedId.toLowerCase()] = seconds * 1000;
+  }
+  return result;
+}
+
+export function loadRelayerConfig(): RelayerConfig {
+  const reactorAddress = process.env.REACTOR_ADDRESS;
+  const reactivePrivateKey = process.env.REACTIVE_PRIVATE_KEY;
+  const destinationPrivateKey =
+    process.env.DESTINATION_PRIVATE_KEY || process.env.BNB_PRIVATE_KEY;
+
+  if (!reactorAddress) {
+    throw new ConfigError("REACTOR_ADDRESS environment variable is required");
+  }
+  if (!reactivePrivateKey) {
+    throw new ConfigError(
+      "REACTIVE_PRIVATE_KEY environment variable is required"
+    );
+  }
+
+  const originDefaults = { ...DEFAULT_ORIGIN_RPC_URLS };
+  if (process.env.SEPOLIA_RPC_URL) {
+    originDefaults["11155111"] = process.env.SEPOLIA_RPC_URL;
+  }
+
+  const updateMode = readUpdateMode();
+  const signerPrivateKey = process.env.RELAYER_SIGNER_PRIVATE_KEY;
+  const signerPeers = readSignerPeers();
+  if (
+    updateMode === "signed" &&
+    !signerPrivateKey &&
+    signerPeers.length === 0
+  ) {
+    throw new ConfigError(
+      "Signed mode needs RELAYER_SIGNER_PRIVATE_KEY or RELAYER_SIGNER_PEERS"
+    );
+  }
+
+  const destinationDefaults = { ...DEFAULT_DESTINATION_RPC_URLS };
+  if (process.env.BNB_RPC_URL) {
+    destinationDefaults["97"] = process.env.BNB_RPC_URL;
+  }
+
+  return {
+    reactorAddress: getAddress(reactorAddress),
+    reactiveRpcUrl:
+      process.env.REACTIVE_TESTNET_RPC_URL || "https://lasna-rpc.rnk.dev",
+    reactivePrivateKey: toPrivateKey(reactivePrivateKey),
+    destinationPrivateKey: destinationPrivateKey
+      ? toPrivateKey(destinationPrivateKey)
+      : undefined,
+    originRpcUrls: readChainMap("ORIGIN_RPC_URL_", originDefaults),
+    destinationRpcUrls: readChainMap(
+      "DESTINATION_RPC_URL_",
+      destinationDefaults
+    ),
+    defaultPollIntervalMs: readSeconds("RELAYER_POLL_INTERVAL", 60),
+    feedPollIntervalsMs: readFeedIntervals(),
+    feedRefreshIntervalMs: readSeconds("RELAYER_FEED_REFRESH_INTERVAL", 300),
+    shutdownTimeoutMs: readSeconds("RELAYER_SHUTDOWN_TIMEOUT", 120),
+    recoveryIntervalMs: readSeconds("RELAYER_RECOVERY_INTERVAL", 60),
+    destinationGasLimit: process.env.RELAYER_DESTINATION_GAS_LIMIT
+      ? BigInt(process.env.RELAYER_DESTINATION_GAS_LIMIT)
+      : 200000n,
+    batchSize: readCount("RELAYER_BATCH_SIZE", 20),
+    mode: readMode(),
+    stateDir: process.env.RELAYER_STATE_DIR || ".relayer",
+    originWsUrls: readChainMap("ORIGIN_WS_URL_", {}),
+    logPollIntervalMs: readSeconds("RELAYER_LOG_POLL_INTERVAL", 15),
+    logBlockRange: readBlockCount("RELAYER_LOG_BLOCK_RANGE", 2000n),
+    logLookbackBlocks: readBlockCount("RELAYER_LOG_LOOKBACK", 1000n),
+    updateMode,
+    signerPrivateKey: signerPrivateKey
+      ? toPrivateKey(signerPrivateKey)
+      : undefined,
+    signerPeers,
+    signServerPort: readCount("RELAYER_SIGN_SERVER_PORT", 8787),
+  };
+}
+
+export function pollIntervalFor(config: RelayerConfig, feedId: Hex): number {
+  return (
+    config.feedPollIntervalsMs[feedId.toLowerCase()] ??
+    config.defaultPollIntervalMs
+  );
+}
@@ -0,0 +1,186 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  nonceManager,
+  webSocket,
+  type Abi,
+  type Account,
+  type Chain,
+  type LocalAccount,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigError, type RelayerConfig } from "./config.js";
+import { ForwardJournal } from "./journal.js";
+
+export type RelayerWalletClient = WalletClient<Transport, Chain, Account>;
+
+export interface ChainClients {
+  publicClient: PublicClient;
+  walletClient: RelayerWalletClient;
+}
+
+export interface RelayerContext {
+  config: RelayerConfig;
+  reactive: ChainClients;
+  reactorAbi: Abi;
+  feedProxyAbi: Abi;
+  aggregatorAbi: Abi;
+  journal: ForwardJournal;
+  /** Signs FeedProxy reports; set when RELAYER_SIGNER_PRIVATE_KEY is */
+  reportSigner?: LocalAccount;
+  origin(chainId: bigint): PublicClient;
+  originWebSocket(chainId: bigint): PublicClient | undefined;
+  /** Read-only destination client; needs no destination key */
+  destinationReader(chainId: bigint): PublicClient;
+  destination(chainId: bigint): ChainClients;
+}
+
+/**
+ * Load a contract ABI from the Hardhat artifacts directory
+ */
+export function loadArtifactAbi(sourcePath: string, contractName: string): Abi {
+  const artifactPath = path.join(
+    process.cwd(),
+    "artifacts/contracts",
+    sourcePath,
+    `${contractName}.json`
+  );
+  return JSON.parse(fs.readFileSync(artifactPath, "utf-8")).abi as Abi;
+}
+
+function chainFor(chainId: bigint, rpcUrl: string): Chain {
+  return defineChain({
+    id: Number(chainId),
+    name: `Chain ${chainId}`,
+    nativeCurrency: { decimals: 18, name: "Ether", symbol: "ETH" },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+}
+
+export function createRelayerContext(config: RelayerConfig): RelayerContext {
+  const reactiveChain = chainFor(5318007n, config.reactiveRpcUrl);
+
+  // Pipelines for different feeds share one account per chain, so nonces
+  // must be allocated locally rather than read from the pending block
+  const reactiveAccount = privateKeyToAccount(config.reactivePrivateKey, {
+    nonceManager,
+  });
+  const destinationAccount = config.destinationPrivateKey
+    ? privateKeyToAccount(config.destinationPrivateKey, { nonceManager })
+    : undefined;
+
+  const reactive: ChainClients = {
+    publicClient: createPublicClient({
+      chain: reactiveChain,
+      transport: http(config.reactiveRpcUrl),
+    }),
+    walletClient: createWalletClient({
+      account: reactiveAccount,
+      chain: reactiveChain,
+      transport: http(config.reactiveRpcUrl),
+    }),
+  };
+
+  const originClients = new Map<string, PublicClient>();
+  const originWsClients = new Map<string, PublicClient>();
+  const destinationReaders = new Map<string, PublicClient>();
+  const destinationClients = new Map<string, ChainClients>();
+
+  return {
+    config,
+    reactive,
+    reactorAbi: loadArtifactAbi(
+      "reactive/ChainlinkFeedReactor.sol",
+      "ChainlinkFeedReactor"
+    ),
+    feedProxyAbi: loadArtifactAbi("destination/FeedProxy.sol", "FeedProxy"),
+    aggregatorAbi: loadArtifactAbi(
+      "interfaces/AggregatorV3Interface.sol",
+      "AggregatorV3Interface"
+    ),
+    journal: new ForwardJournal(config.stateDir),
+    reportSigner: config.signerPrivateKey
+      ? privateKeyToAccount(config.signerPrivateKey)
+      : undefined,
+
+    origin(chainId) {
+      const key = chainId.toString();
+      let client = originClients.get(key);
+      if (!client) {
+        const rpcUrl = config.originRpcUrls[key];
+        if (!rpcUrl) {
+          throw new ConfigError(`Missing ORIGIN_RPC_URL_${key}`);
+        }
+        client = createPublicClient({
+          chain: chainFor(chainId, rpcUrl),
+          transport: http(rpcUrl),
+        });
+        originClients.set(key, client);
+      }
+      return client;
+    },
+
+    originWebSocket(chainId) {
+      const key = chainId.toString();
+      const wsUrl = config.originWsUrls[key];
+      if (!wsUrl) return undefined;
+
+      let client = originWsClients.get(key);
+      if (!client) {
+        client = createPublicClient({
+          chain: chainFor(chainId, config.originRpcUrls[key] ?? wsUrl),
+          transport: webSocket(wsUrl, { reconnect: true }),
+        });
+        originWsClients.set(key, client);
+      }
+      return client;
+    },
+
+    destinationReader(chainId) {
+      const key = chainId.toString();
+      let client = destinationReaders.get(key);
+      if (!client) {
+        const rpcUrl = config.destinationRpcUrls[key];
+        if (!rpcUrl) {
+          throw new ConfigError(`Missing DESTINATION_RPC_URL_${key}`);
+        }
+        client = createPublicClient({
+          chain: chainFor(chainId, rpcUrl),
+          transport: http(rpcUrl),
+        });
+        destinationReaders.set(key, client);
+      }
+      return client;
+    },
+
+    destination(chainId) {
+      const key = chainId.toString();
+      let clients = destinationClients.get(key);
+      if (!clients) {
+        if (!destinationAccount) {
+          throw new ConfigError(
+            "DESTINATION_PRIVATE_KEY (or BNB_PRIVATE_KEY) is required to forward updates"
+          );
+        }
+        const publicClient = this.destinationReader(chainId);
+        clients = {
+          publicClient,
+          walletClient: createWalletClient({
+            account: destinationAccount,
+            chain: publicClient.chain!,
+            transport: http(config.destinationRpcUrls[key]),
+          }),
+        };
+        destinationClients.set(key, clients);
+      }
+      return clients;
+    },
+  };
+}
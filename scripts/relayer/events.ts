@@ -0,0 +1,339 @@
+/**
+ * Event-driven mode: trigger the forwarding pipeline only when an origin
+ * aggregator emits AnswerUpdated, instead of polling every feed on a timer.
+ *
+ * Logs are read with eth_subscribe when ORIGIN_WS_URL_<chainId> is set and
+ * with getLogs block-range polling otherwise. The last fully handled block is
+ * persisted per chain so a restarted relayer catches up on what it missed.
+ * A block counts as handled once the pipelines it triggered have run; feeds
+ * whose pipeline failed are kept and triggered again on the next sync (and
+ * on startup, which triggers every feed).
+ */
+
+import {
+  getAddress,
+  parseAbi,
+  parseAbiItem,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, log } from "./logger.js";
+import { isComposite, readFeedConfig } from "./pipeline.js";
+import { BlockCursorStore } from "./state.js";
+
+/** AnswerUpdated topic 0: 0x0559884fd3a460db3073b7fc896cc77986f16e378210ded43186175bf646fc5f */
+export const ANSWER_UPDATED_EVENT = parseAbiItem(
+  "event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)"
+);
+
+const EAC_PROXY_ABI = parseAbi([
+  "function aggregator() view returns (address)",
+]);
+
+/** Runs a feed's pipeline and resolves to whether it settled */
+export type FeedTrigger = (feedId: Hex) => Promise<boolean>;
+
+/**
+ * Chainlink feed addresses are usually EACAggregatorProxy contracts, while
+ * AnswerUpdated is emitted by the underlying aggregator. Fall back to the
+ * registered address for feeds that are not behind a proxy.
+ */
+async function resolveEmitter(
+  client: PublicClient,
+  feedAddress: Address
+): Promise<Address> {
+  try {
+    return await client.readContract({
+      address: feedAddress,
+      abi: EAC_PROXY_ABI,
+      functionName: "aggregator",
+    });
+  } catch {
+    return feedAddress;
+  }
+}
+
+/**
+ * Watches AnswerUpdated logs for every tracked feed on one origin chain
+ */
+class OriginChainWatcher {
+  /** Emitting aggregator (checksummed) => feeds it drives */
+  private emitters = new Map<Address, Hex[]>();
+  /** Feeds whose last pipeline run failed, triggered again on the next sync */
+  private readonly failed = new Set<Hex>();
+  private pollTimer?: NodeJS.Timeout;
+  private unwatch?: () => void;
+  private syncing?: Promise<void>;
+  private started = false;
+  private stopped = false;
+
+  constructor(
+    private readonly ctx: RelayerContext,
+    private readonly chainId: bigint,
+    private readonly cursors: BlockCursorStore,
+    private readonly onFeed: FeedTrigger
+  ) {}
+
+  private get client(): PublicClient {
+    return this.ctx.origin(this.chainId);
+  }
+
+  async setFeeds(
+    feeds: { feedId: Hex; feedAddress: Address }[]
+  ): Promise<void> {
+    const emitters = new Map<Address, Hex[]>();
+    for (const { feedId, feedAddress } of feeds) {
+      const emitter = getAddress(
+        await resolveEmitter(this.client, feedAddress)
+      );
+      emitters.set(emitter, [...(emitters.get(emitter) ?? []), feedId]);
+    }
+    this.emitters = emitters;
+    const feedIds = new Set(feeds.map(({ feedId }) => feedId));
+    for (const feedId of this.failed) {
+      if (!feedIds.has(feedId)) this.failed.delete(feedId);
+    }
+
+    // Address filters are fixed per subscription, so resubscribe. This also
+    // subscribes a watcher that started without any feeds.
+    if (this.started) {
+      this.unwatch?.();
+      this.unwatch = undefined;
+      this.subscribe();
+    }
+  }
+
+  async start(): Promise<void> {
+    this.started = true;
+    if (this.ctx.originWebSocket(this.chainId)) {
+      // Subscribe before catching up so no log falls between the two; a round
+      // seen twice only re-triggers an idempotent pipeline run
+      this.subscribe();
+      log(
+        `📡 Chain ${this.chainId}: subscribed to AnswerUpdated via eth_subscribe`
+      );
+      await this.sync();
+    } else {
+      await this.sync();
+      this.schedulePoll();
+      log(`📡 Chain ${this.chainId}: polling AnswerUpdated logs with getLogs`);
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.pollTimer);
+    this.unwatch?.();
+  }
+
+  /**
+   * Scan every block between the stored cursor and the chain head
+   */
+  private sync(): Promise<void> {
+    this.syncing ??= this.syncRange().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async syncRange(): Promise<void> {
+    if (this.failed.size > 0) await this.trigger([...this.failed]);
+
+    const head = await this.client.getBlockNumber();
+    const cursor = this.cursors.get(this.chainId);
+    let fromBlock =
+      cursor !== undefined
+        ? cursor + 1n
+        : head > this.ctx.config.logLookbackBlocks
+          ? head - this.ctx.config.logLookbackBlocks
+          : 0n;
+
+    if (cursor !== undefined && head - cursor > 1n) {
+      log(
+        `⏪ Chain ${this.chainId}: catching up from block ${fromBlock} to ${head}`
+      );
+    }
+
+    while (fromBlock <= head && !this.stopped) {
+      const toBlock =
+        fromBlock + this.ctx.config.logBlockRange - 1n < head
+          ? fromBlock + this.ctx.config.logBlockRange - 1n
+          : head;
+
+      if (this.emitters.size > 0) {
+        const logs = await this.client.getLogs({
+          address: [...this.emitters.keys()],
+          event: ANSWER_UPDATED_EVENT,
+          fromBlock,
+          toBlock,
+        });
+        await this.handleLogs(logs);
+      }
+
+      this.cursors.set(this.chainId, toBlock);
+      fromBlock = toBlock + 1n;
+    }
+  }
+
+  private async handleLogs(logs: Log[]): Promise<void> {
+    const feedIds = new Set<Hex>();
+    for (const entry of logs) {
+      for (const feedId of this.emitters.get(getAddress(entry.address)) ?? []) {
+        feedIds.add(feedId);
+      }
+    }
+
+    // One pipeline run per feed covers every round in the batch, since the
+    // pipeline always forwards the origin's latest round
+    await this.trigger(feedIds);
+  }
+
+  /**
+   * Run the feeds' pipelines and remember which of them failed
+   */
+  private async trigger(feedIds: Iterable<Hex>): Promise<void> {
+    await Promise.all(
+      [...feedIds].map(async (feedId) => {
+        if (await this.onFeed(feedId)) {
+          this.failed.delete(feedId);
+        } else {
+          this.failed.add(feedId);
+        }
+      })
+    );
+    if (this.failed.size > 0) {
+      log(
+        `⚠️  Chain ${this.chainId}: ${this.failed.size} feed(s) failed, retrying on the next sync`
+      );
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * With eth_subscribe nothing polls, so failed feeds need a timer of their own
+   */
+  private scheduleRetry(): void {
+    if (this.stopped || this.pollTimer || !this.unwatch) return;
+
+    this.pollTimer = setTimeout(async () => {
+      this.pollTimer = undefined;
+      try {
+        await this.sync();
+      } catch (error) {
+        log(`❌ Chain ${this.chainId}: retry failed: ${errorMessage(error)}`);
+        this.scheduleRetry();
+      }
+    }, this.ctx.config.logPollIntervalMs);
+  }
+
+  private schedulePoll(): void {
+    if (this.stopped) return;
+
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        log(`❌ Chain ${this.chainId}: getLogs failed: ${errorMessage(error)}`);
+      }
+      this.schedulePoll();
+    }, this.ctx.config.logPollIntervalMs);
+  }
+
+  private subscribe(): void {
+    const wsClient = this.ctx.originWebSocket(this.chainId);
+    if (!wsClient || this.stopped || this.emitters.size === 0) return;
+
+    this.unwatch = wsClient.watchEvent({
+      address: [...this.emitters.keys()],
+      event: ANSWER_UPDATED_EVENT,
+      onLogs: async (logs) => {
+        try {
+          await this.handleLogs(logs);
+          const latest = logs.reduce<bigint | undefined>(
+            (max, entry) =>
+              entry.blockNumber !== null &&
+              (max === undefined || entry.blockNumber > max)
+                ? entry.blockNumber
+                : max,
+            undefined
+          );
+          if (latest !== undefined) this.cursors.set(this.chainId, latest);
+        } catch (error) {
+          log(
+            `❌ Chain ${this.chainId}: failed to handle logs: ${errorMessage(error)}`
+          );
+        }
+      },
+      onError: (error) => {
+        // The transport reconnects on its own; re-scan so nothing is lost
+        log(
+          `⚠️  Chain ${this.chainId}: subscription error: ${errorMessage(error)}`
+        );
+        this.sync().catch((syncError) =>
+          log(
+            `❌ Chain ${this.chainId}: catch-up failed: ${errorMessage(syncError)}`
+          )
+        );
+      },
+    });
+  }
+}
+
+/**
+ * Routes origin AnswerUpdated logs to the feeds registered on the reactor
+ */
+export class AnswerUpdatedWatcher {
+  private readonly chains = new Map<string, OriginChainWatcher>();
+  private readonly cursors: BlockCursorStore;
+
+  constructor(
+    private readonly ctx: RelayerContext,
+    private readonly onFeed: FeedTrigger
+  ) {
+    this.cursors = new BlockCursorStore(ctx.config.stateDir);
+  }
+
+  /**
+   * Point the watchers at the current feed set, starting new chains as needed
+   */
+  async setFeeds(feedIds: Hex[]): Promise<void> {
+    const byChain = new Map<string, { feedId: Hex; feedAddress: Address }[]>();
+    for (const feedId of feedIds) {
+      const config = await readFeedConfig(this.ctx, feedId);
+      // Composites have no origin logs; they follow their inputs
+      if (isComposite(this.ctx, config)) continue;
+      const key = config.originChainId.toString();
+      byChain.set(key, [
+        ...(byChain.get(key) ?? []),
+        { feedId, feedAddress: config.feedAddress },
+      ]);
+    }
+
+    for (const [key, watcher] of this.chains) {
+      if (!byChain.has(key)) await watcher.setFeeds([]);
+    }
+
+    for (const [key, feeds] of byChain) {
+      let watcher = this.chains.get(key);
+      const isNew = !watcher;
+      if (!watcher) {
+        watcher = new OriginChainWatcher(
+          this.ctx,
+          BigInt(key),
+          this.cursors,
+          this.onFeed
+        );
+        this.chains.set(key, watcher);
+      }
+      await watcher.setFeeds(feeds);
+      if (isNew) await watcher.start();
+    }
+  }
+
+  stop(): void {
+    for (const watcher of this.chains.values()) watcher.stop();
+  }
+}
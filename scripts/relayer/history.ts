@@ -0,0 +1,120 @@
+/**
+ * Print a feed's recent forward/skip decisions from the reactor's
+ * getDecisions() ring buffer, newest first.
+ *
+ * The reactor keeps the last DECISION_HISTORY_SIZE decisions per feed, one
+ * per destination and round, so this answers "why was round N skipped?"
+ * without scraping UpdateSkipped logs.
+ *
+ * Usage:
+ *   npm run relayer -- history --feed <feedId>
+ *   npm run relayer -- history --feed <feedId> --limit 50 --destination 1
+ *   npm run relayer -- history --feed <feedId> --json
+ */
+
+import { parseArgs } from "util";
+import type { Hex } from "viem";
+import {
+  DECISION_HISTORY_SIZE,
+  describeDecision,
+  fetchDecisions,
+  type Decision,
+  type RawDecision,
+} from "../../frontend/src/history.js";
+import { ConfigError } from "./config.js";
+import type { RelayerContext } from "./context.js";
+
+export interface HistoryOptions {
+  feedId: Hex;
+  limit: number;
+  destination?: number;
+  json: boolean;
+}
+
+export function parseHistoryArgs(args: string[]): HistoryOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      feed: { type: "string" },
+      limit: { type: "string", default: "20" },
+      destination: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.feed || !/^0x[0-9a-fA-F]{64}$/.test(values.feed)) {
+    throw new ConfigError("--feed must be a 32-byte feed ID");
+  }
+
+  const limit = Number(values.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new ConfigError("--limit must be a positive integer");
+  }
+
+  let destination: number | undefined;
+  if (values.destination !== undefined) {
+    destination = Number(values.destination);
+    if (!Number.isInteger(destination) || destination < 0) {
+      throw new ConfigError("--destination must be a destination index");
+    }
+  }
+
+  return {
+    feedId: values.feed as Hex,
+    limit: Math.min(limit, DECISION_HISTORY_SIZE),
+    destination,
+    json: values.json,
+  };
+}
+
+export async function readDecisionHistory(
+  ctx: RelayerContext,
+  feedId: Hex,
+  limit: number
+): Promise<Decision[]> {
+  return fetchDecisions(
+    async (offset, pageLimit) =>
+      (await ctx.reactive.publicClient.readContract({
+        address: ctx.config.reactorAddress,
+        abi: ctx.reactorAbi,
+        functionName: "getDecisions",
+        args: [feedId, offset, pageLimit],
+      })) as RawDecision[],
+    limit
+  );
+}
+
+export async function history(
+  ctx: RelayerContext,
+  options: HistoryOptions
+): Promise<Decision[]> {
+  // Filtering happens after the read, so --destination may show fewer rows
+  const decisions = (
+    await readDecisionHistory(ctx, options.feedId, options.limit)
+  ).filter(
+    (decision) =>
+      options.destination === undefined ||
+      decision.destinationIndex === options.destination
+  );
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        decisions,
+        (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+        2
+      )
+    );
+    return decisions;
+  }
+
+  console.log(`📜 Last ${decisions.length} decision(s) for ${options.feedId}`);
+  for (const decision of decisions) {
+    const updatedAt = new Date(Number(decision.updatedAt) * 1000).toISOString();
+    console.log(
+      `   round ${decision.roundId} → destination ${decision.destinationIndex}: ` +
+        `answer ${decision.answer}, updatedAt ${updatedAt}, ${describeDecision(decision)}`
+    );
+  }
+  return decisions;
+}
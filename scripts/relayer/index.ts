@@ -0,0 +1,167 @@
+/**
+ * Long-running relayer that mirrors every feed registered on ChainlinkFeedReactor
+ *
+ * Usage:
+ *   npm run relayer            # same as `npm run relayer -- run`
+ *   npm run relayer -- run
+ *   npm run relayer -- reconcile [--fix] [--dry-run] [--report <path>] [--json]
+ *   npm run relayer -- backfill --feed <feedId> --from-round <id> --to-round <id>
+ *   npm run relayer -- sign-server
+ *   npm run relayer -- history --feed <feedId> [--limit <n>] [--destination <i>] [--json]
+ *
+ * See ./config.ts for the environment variables it reads.
+ */
+
+import * as dotenv from "dotenv";
+import { backfill, parseBackfillArgs } from "./backfill.js";
+import { ConfigError, loadRelayerConfig } from "./config.js";
+import { createRelayerContext } from "./context.js";
+import { AnswerUpdatedWatcher } from "./events.js";
+import { history, parseHistoryArgs } from "./history.js";
+import { log } from "./logger.js";
+import { assertAuthorizedRelayer } from "./pipeline.js";
+import { parseReconcileArgs, reconcile } from "./reconcile.js";
+import { recoverPendingForwards } from "./recovery.js";
+import { FeedScheduler } from "./scheduler.js";
+import { startSignServer } from "./sign-server.js";
+
+dotenv.config({ path: ".env.local" });
+dotenv.config();
+
+async function run(): Promise<void> {
+  const config = loadRelayerConfig();
+  const ctx = createRelayerContext(config);
+
+  let watcher: AnswerUpdatedWatcher | undefined;
+  const scheduler = new FeedScheduler(ctx, {
+    polling: config.mode === "poll",
+    onFeedsChanged:
+      config.mode === "events"
+        ? (feedIds) => watcher!.setFeeds(feedIds)
+        : undefined,
+  });
+  if (config.mode === "events") {
+    watcher = new AnswerUpdatedWatcher(ctx, (feedId) =>
+      scheduler.trigger(feedId)
+    );
+  }
+
+  log("🔄 Starting Chainlink Mirror relayer");
+  log(`   Reactor: ${config.reactorAddress}`);
+  log(`   Mode: ${config.mode}`);
+  log(`   Updates: ${config.updateMode}`);
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    log(`🛑 Received ${signal}, shutting down...`);
+    watcher?.stop();
+    const drained = await scheduler.stop();
+    ctx.journal.close();
+    if (!drained) {
+      log("⚠️  Shutdown timeout reached with pipelines still running");
+    }
+    process.exit(drained ? 0 : 1);
+  };
+
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+
+  await assertAuthorizedRelayer(ctx);
+  await recoverPendingForwards(ctx);
+  await scheduler.start();
+  if (config.mode === "events") {
+    // Settle anything that landed before the first log we will see
+    await Promise.all(scheduler.feedIds.map((id) => scheduler.trigger(id)));
+  }
+  log(`✅ Relayer running for ${scheduler.feedIds.length} feed(s)`);
+}
+
+async function runReconcile(args: string[]): Promise<void> {
+  const options = parseReconcileArgs(args);
+  const ctx = createRelayerContext(loadRelayerConfig());
+  try {
+    const report = await reconcile(ctx, options);
+    if (report.feeds.some((feed) => feed.fix === "failed")) {
+      process.exitCode = 1;
+    }
+  } finally {
+    ctx.journal.close();
+  }
+}
+
+async function runBackfill(args: string[]): Promise<void> {
+  const options = parseBackfillArgs(args);
+  const ctx = createRelayerContext(loadRelayerConfig());
+  try {
+    const results = await backfill(ctx, options);
+    if (results.some((result) => result.error)) {
+      process.exitCode = 1;
+    }
+  } finally {
+    ctx.journal.close();
+  }
+}
+
+async function runHistory(args: string[]): Promise<void> {
+  const options = parseHistoryArgs(args);
+  const ctx = createRelayerContext(loadRelayerConfig());
+  try {
+    await history(ctx, options);
+  } finally {
+    ctx.journal.close();
+  }
+}
+
+function runSignServer(): void {
+  const config = loadRelayerConfig();
+  const ctx = createRelayerContext(config);
+  const server = startSignServer(ctx, config.signServerPort);
+
+  const shutdown = () => {
+    server.close();
+    ctx.journal.close();
+    process.exit(0);
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+}
+
+async function main(): Promise<void> {
+  const [command = "run", ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "run":
+      await run();
+      break;
+    case "reconcile":
+      await runReconcile(args);
+      break;
+    case "backfill":
+      await runBackfill(args);
+      break;
+    case "sign-server":
+      runSignServer();
+      break;
+    case "history":
+      await runHistory(args);
+      break;
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log(
+        "Available commands: run, reconcile, backfill, sign-server, history"
+      );
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof ConfigError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error("❌ Relayer failed:", error);
+  }
+  process.exit(1);
+});
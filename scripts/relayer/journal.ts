@@ -0,0 +1,240 @@
+/**
+ * Append-only journal of pipeline steps, one JSON line per step.
+ *
+ * Every forward is recorded per destination as it moves through
+ *   forward-decided → destination-submitted → destination-updated → confirmed
+ * so a relayer that dies between FeedProxy.updateRoundData() and
+ * confirmForward() can finish the job on its next start. A round the proxy's
+ * price guards quarantine ends as "quarantined": it is up to the proxy owner,
+ * and sending it again would only quarantine it again.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { Hex } from "viem";
+import type { RoundData } from "./types.js";
+
+export type JournalStep =
+  | "forward-decided"
+  | "destination-submitted"
+  | "destination-updated"
+  | "confirmed"
+  | "skipped"
+  | "quarantined"
+  | "abandoned";
+
+const TERMINAL_STEPS: ReadonlySet<JournalStep> = new Set([
+  "confirmed",
+  "skipped",
+  "quarantined",
+  "abandoned",
+]);
+
+/** Serialized form: bigints are stored as decimal strings */
+interface JournalLine {
+  feedId: Hex;
+  /** Destination index; absent in lines written before multi-destination feeds */
+  destination?: number;
+  roundId: string;
+  step: JournalStep;
+  answer?: string;
+  startedAt?: string;
+  updatedAt?: string;
+  answeredInRound?: string;
+  reason?: number;
+  txHash?: Hex;
+  note?: string;
+  at: string;
+}
+
+export interface JournalEntry {
+  feedId: Hex;
+  destination: number;
+  step: JournalStep;
+  round: Partial<RoundData> & { roundId: bigint };
+  reason?: number;
+  txHash?: Hex;
+  note?: string;
+  at: Date;
+}
+
+function toLine(entry: Omit<JournalEntry, "at">): JournalLine {
+  const { round } = entry;
+  return {
+    feedId: entry.feedId,
+    destination: entry.destination,
+    roundId: round.roundId.toString(),
+    step: entry.step,
+    answer: round.answer?.toString(),
+    startedAt: round.startedAt?.toString(),
+    updatedAt: round.updatedAt?.toString(),
+    answeredInRound: round.answeredInRound?.toString(),
+    reason: entry.reason,
+    txHash: entry.txHash,
+    note: entry.note,
+    at: new Date().toISOString(),
+  };
+}
+
+function fromLine(line: JournalLine): JournalEntry {
+  const optional = (value?: string) =>
+    value === undefined ? undefined : BigInt(value);
+  return {
+    feedId: line.feedId,
+    destination: line.destination ?? 0,
+    step: line.step,
+    round: {
+      roundId: BigInt(line.roundId),
+      answer: optional(line.answer),
+      startedAt: optional(line.startedAt),
+      updatedAt: optional(line.updatedAt),
+      answeredInRound: optional(line.answeredInRound),
+    },
+    reason: line.reason,
+    txHash: line.txHash,
+    note: line.note,
+    at: new Date(line.at),
+  };
+}
+
+function keyOf(feedId: Hex, destination: number, roundId: bigint): string {
+  return `${feedId.toLowerCase()}:${destination}:${roundId}`;
+}
+
+export class ForwardJournal {
+  private static readonly FILE = "journal.jsonl";
+  private readonly filePath: string;
+  /** Latest state per feed/destination/round, with round data merged across steps */
+  private readonly latest = new Map<string, JournalEntry>();
+  private fd?: number;
+
+  constructor(stateDir: string) {
+    fs.mkdirSync(stateDir, { recursive: true });
+    this.filePath = path.join(stateDir, ForwardJournal.FILE);
+    this.load();
+  }
+
+  /**
+   * Durably append a step. The line is fsynced before returning, so a step
+   * recorded before a transaction is sent survives a crash right after it.
+   */
+  record(entry: Omit<JournalEntry, "at">): void {
+    const line = toLine(entry);
+    this.fd ??= fs.openSync(this.filePath, "a");
+    fs.writeSync(this.fd, `${JSON.stringify(line)}\n`);
+    fs.fsyncSync(this.fd);
+    this.apply(fromLine(line));
+  }
+
+  /**
+   * Latest merged entry for a round at one destination, if it was ever journaled
+   */
+  get(
+    feedId: Hex,
+    destination: number,
+    roundId: bigint
+  ): JournalEntry | undefined {
+    return this.latest.get(keyOf(feedId, destination, roundId));
+  }
+
+  /**
+   * Forwards that were started but never reached a terminal step
+   */
+  pending(): JournalEntry[] {
+    return [...this.latest.values()]
+      .filter((entry) => !TERMINAL_STEPS.has(entry.step))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+  }
+
+  /**
+   * Rewrite the journal keeping only pending rounds and the last finished
+   * round of each feed destination
+   */
+  compact(): void {
+    const lastFinished = new Map<string, JournalEntry>();
+    const keep: JournalEntry[] = [];
+
+    for (const entry of this.latest.values()) {
+      if (!TERMINAL_STEPS.has(entry.step)) {
+        keep.push(entry);
+        continue;
+      }
+      const destinationKey = `${entry.feedId.toLowerCase()}:${entry.destination}`;
+      const previous = lastFinished.get(destinationKey);
+      if (!previous || previous.round.roundId < entry.round.roundId) {
+        lastFinished.set(destinationKey, entry);
+      }
+    }
+    keep.push(...lastFinished.values());
+
+    const lines = keep.map((entry) => {
+      const line = toLine(entry);
+      line.at = entry.at.toISOString();
+      return JSON.stringify(line);
+    });
+
+    this.close();
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, lines.length ? `${lines.join("\n")}\n` : "");
+    fs.renameSync(tmpPath, this.filePath);
+
+    this.latest.clear();
+    for (const entry of keep) {
+      this.latest.set(
+        keyOf(entry.feedId, entry.destination, entry.round.roundId),
+        entry
+      );
+    }
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, "utf-8").split("\n");
+    for (const [index, raw] of lines.entries()) {
+      if (!raw.trim()) continue;
+      try {
+        this.apply(fromLine(JSON.parse(raw) as JournalLine));
+      } catch {
+        // A crash mid-write can only truncate the final line; drop it so the
+        // next append does not land on the same line
+        if (index < lines.length - 1) {
+          throw new Error(
+            `Corrupt journal line ${index + 1} in ${this.filePath}`
+          );
+        }
+        this.compact();
+      }
+    }
+  }
+
+  private apply(entry: JournalEntry): void {
+    const key = keyOf(entry.feedId, entry.destination, entry.round.roundId);
+    const previous = this.latest.get(key);
+    if (!previous) {
+      this.latest.set(key, entry);
+      return;
+    }
+
+    this.latest.set(key, {
+      ...entry,
+      round: {
+        roundId: entry.round.roundId,
+        answer: entry.round.answer ?? previous.round.answer,
+        startedAt: entry.round.startedAt ?? previous.round.startedAt,
+        updatedAt: entry.round.updatedAt ?? previous.round.updatedAt,
+        answeredInRound:
+          entry.round.answeredInRound ?? previous.round.answeredInRound,
+      },
+      reason: entry.reason ?? previous.reason,
+      txHash: entry.txHash ?? previous.txHash,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import type { Hex } from "viem";
+
+function timestamp(): string {
+  return new Date().toISOString();
+}
+
+export function shortFeedId(feedId: Hex): string {
+  return `${feedId.slice(0, 10)}…`;
+}
+
+export function log(message: string): void {
+  console.log(`[${timestamp()}] ${message}`);
+}
+
+export function logFeed(feedId: Hex, message: string): void {
+  console.log(`[${timestamp()}] [${shortFeedId(feedId)}] ${message}`);
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    // viem errors carry a one-line summary alongside the verbose message
+    return (error as { shortMessage?: string }).shortMessage ?? error.message;
+  }
+  return String(error);
+}
+
+export function logFeedError(
+  feedId: Hex,
+  message: string,
+  error: unknown
+): void {
+  console.error(
+    `[${timestamp()}] [${shortFeedId(feedId)}] ❌ ${message}: ${errorMessage(
+      error
+    )}`
+  );
+}
@@ -0,0 +1,809 @@
+/**
+ * Forwarding pipeline for a batch of feeds:
+ *   fetch origin rounds → reactor.pollFeeds() → per forwarded destination:
+ *   FeedProxy.updateRoundData() → reactor.confirmForward()
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  parseEventLogs,
+  type Hex,
+  type Log,
+} from "viem";
+import {
+  decidePoll,
+  destinationDecisionConfig,
+  DeviationMode,
+  TriggerMode,
+  type SkipReason,
+  type UpdateReason,
+} from "../../frontend/src/decision.js";
+import { ConfigError } from "./config.js";
+import type { RelayerContext } from "./context.js";
+import { readDecisionHistory } from "./history.js";
+import { errorMessage, logFeed, logFeedError } from "./logger.js";
+import { phaseOf } from "./rounds.js";
+import { collectReportSignatures } from "./signing.js";
+import type {
+  Destination,
+  DestinationOutcome,
+  FeedConfig,
+  PendingForward,
+  PipelineResult,
+  RoundData,
+} from "./types.js";
+
+export class PipelineError extends Error {
+  constructor(
+    public readonly feedId: Hex,
+    public readonly step: string,
+    message: string,
+    /** Custom error the step's contract call reverted with, if decoded */
+    public readonly revert?: string
+  ) {
+    super(`${step}: ${message}`);
+    this.name = "PipelineError";
+  }
+}
+
+export async function readFeedConfig(
+  ctx: RelayerContext,
+  feedId: Hex
+): Promise<FeedConfig> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "getFeedConfig",
+    args: [feedId],
+  })) as FeedConfig;
+}
+
+/**
+ * Composite and aggregate feeds are computed by the reactor from other
+ * registered feeds, so they have no origin aggregator: their feedAddress is
+ * the reactor itself. Both are handled as composites here.
+ */
+export function isComposite(ctx: RelayerContext, config: FeedConfig): boolean {
+  return (
+    config.feedAddress.toLowerCase() === ctx.config.reactorAddress.toLowerCase()
+  );
+}
+
+export async function readDestinations(
+  ctx: RelayerContext,
+  feedId: Hex
+): Promise<Destination[]> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "getDestinations",
+    args: [feedId],
+  })) as Destination[];
+}
+
+export async function readDestination(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number
+): Promise<Destination> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "getDestination",
+    args: [feedId, BigInt(index)],
+  })) as Destination;
+}
+
+export async function readTriggerMode(
+  ctx: RelayerContext,
+  feedId: Hex
+): Promise<TriggerMode> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "triggerModes",
+    args: [feedId],
+  })) as TriggerMode;
+}
+
+/**
+ * The reactor's average round-to-round move for a feed, in basis points
+ */
+export async function readVolatility(
+  ctx: RelayerContext,
+  feedId: Hex
+): Promise<bigint> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "volatility",
+    args: [feedId],
+  })) as bigint;
+}
+
+/**
+ * Fail fast when the relayer account is missing from the reactor's allowlist,
+ * instead of reverting on the first pollFeed()
+ */
+export async function assertAuthorizedRelayer(
+  ctx: RelayerContext
+): Promise<void> {
+  const account = ctx.reactive.walletClient.account.address;
+  const authorized = (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "authorizedRelayers",
+    args: [account],
+  })) as boolean;
+  if (!authorized) {
+    throw new ConfigError(
+      `Relayer account ${account} is not authorized on the reactor; ask the owner to call addAuthorizedRelayer()`
+    );
+  }
+}
+
+/**
+ * The reactor's pending forward for a round at one destination, or undefined
+ * when there is none
+ */
+export async function readPendingForward(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  roundId: bigint
+): Promise<PendingForward | undefined> {
+  const [answer, updatedAt, reason, expiresAt] =
+    (await ctx.reactive.publicClient.readContract({
+      address: ctx.config.reactorAddress,
+      abi: ctx.reactorAbi,
+      functionName: "pendingForwards",
+      args: [feedId, BigInt(index), roundId],
+    })) as [bigint, bigint, number, bigint];
+  if (expiresAt === 0n) return undefined;
+  return { answer, updatedAt, reason: reason as UpdateReason, expiresAt };
+}
+
+export async function readAllFeedIds(ctx: RelayerContext): Promise<Hex[]> {
+  return (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "getAllFeeds",
+  })) as Hex[];
+}
+
+export async function fetchLatestRound(
+  ctx: RelayerContext,
+  config: FeedConfig
+): Promise<RoundData> {
+  const [roundId, answer, startedAt, updatedAt, answeredInRound] = (await ctx
+    .origin(config.originChainId)
+    .readContract({
+      address: config.feedAddress,
+      abi: ctx.aggregatorAbi,
+      functionName: "latestRoundData",
+    })) as readonly [bigint, bigint, bigint, bigint, bigint];
+
+  return { roundId, answer, startedAt, updatedAt, answeredInRound };
+}
+
+/**
+ * Read one origin round, or undefined for IDs the aggregator has no data for
+ */
+export async function fetchOriginRound(
+  ctx: RelayerContext,
+  config: FeedConfig,
+  roundId: bigint
+): Promise<RoundData | undefined> {
+  try {
+    const [id, answer, startedAt, updatedAt, answeredInRound] = (await ctx
+      .origin(config.originChainId)
+      .readContract({
+        address: config.feedAddress,
+        abi: ctx.aggregatorAbi,
+        functionName: "getRoundData",
+        args: [roundId],
+      })) as readonly [bigint, bigint, bigint, bigint, bigint];
+    if (updatedAt === 0n) return undefined;
+    return { roundId: id, answer, startedAt, updatedAt, answeredInRound };
+  } catch {
+    // Aggregators revert for IDs outside the phase's known rounds
+    return undefined;
+  }
+}
+
+/**
+ * Read the round the destination FeedProxy currently serves, or undefined if
+ * it has never been updated
+ */
+export async function readDestinationRound(
+  ctx: RelayerContext,
+  destination: Destination
+): Promise<RoundData | undefined> {
+  try {
+    const [roundId, answer, startedAt, updatedAt, answeredInRound] = (await ctx
+      .destinationReader(destination.chainId)
+      .readContract({
+        address: destination.proxy,
+        abi: ctx.feedProxyAbi,
+        functionName: "latestRoundData",
+      })) as readonly [bigint, bigint, bigint, bigint, bigint];
+    return { roundId, answer, startedAt, updatedAt, answeredInRound };
+  } catch (error) {
+    if (errorMessage(error).includes("NoDataAvailable")) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * The FeedProxy call that stores a round: updateRoundData() as an authorized
+ * sender, or in signed mode updateRoundDataSigned() with the signer set's
+ * signatures
+ */
+export async function destinationUpdate(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  round: RoundData
+): Promise<{ functionName: string; args: readonly unknown[] }> {
+  const args = [
+    round.roundId,
+    round.answer,
+    round.startedAt,
+    round.updatedAt,
+    round.answeredInRound,
+  ] as const;
+  if (ctx.config.updateMode === "sender") {
+    return { functionName: "updateRoundData", args };
+  }
+
+  const { signatures, threshold } = await collectReportSignatures(
+    ctx,
+    feedId,
+    index,
+    destination,
+    round
+  );
+  if (threshold === 0n || BigInt(signatures.length) < threshold) {
+    throw new PipelineError(
+      feedId,
+      "signReport",
+      `${signatures.length} of ${threshold} required signatures for round ${round.roundId}`
+    );
+  }
+  logFeed(
+    feedId,
+    `✍️  Round ${round.roundId} signed by ${signatures.map((s) => s.signer).join(", ")}`
+  );
+  return {
+    functionName: "updateRoundDataSigned",
+    args: [...args, signatures.map((s) => s.signature)],
+  };
+}
+
+/**
+ * Push a round the reactor decided to forward to a destination FeedProxy
+ * @returns The update transaction, and whether the proxy quarantined the
+ *          round instead of publishing it
+ */
+export async function pushToDestination(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  round: RoundData,
+  reason: UpdateReason
+): Promise<{ hash: Hex; quarantined: boolean }> {
+  const clients = ctx.destination(destination.chainId);
+  // With an explicit gas limit viem sends without estimating, so a round the
+  // proxy rejects would be mined as a bare revert; simulating names the error
+  let request;
+  try {
+    ({ request } = await clients.publicClient.simulateContract({
+      account: clients.walletClient.account,
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      ...(await destinationUpdate(ctx, feedId, index, destination, round)),
+      gas: ctx.config.destinationGasLimit,
+    }));
+  } catch (error) {
+    const revert = revertErrorName(error);
+    if (revert === undefined) throw error;
+    throw new PipelineError(
+      feedId,
+      "updateRoundData",
+      `round ${round.roundId} rejected by the FeedProxy on chain ${destination.chainId}: ${revert}`,
+      revert
+    );
+  }
+  const updateHash = await clients.walletClient.writeContract(request);
+  ctx.journal.record({
+    feedId,
+    destination: index,
+    step: "destination-submitted",
+    round,
+    reason,
+    txHash: updateHash,
+  });
+
+  const updateReceipt = await clients.publicClient.waitForTransactionReceipt({
+    hash: updateHash,
+  });
+  if (updateReceipt.status !== "success") {
+    throw new PipelineError(
+      feedId,
+      "updateRoundData",
+      `reverted in ${updateHash}`
+    );
+  }
+  // A quarantined round is held for the proxy owner, not published, so the
+  // forward must not be confirmed on the reactor. Sending it again would
+  // only quarantine it again, so the journal entry ends here.
+  const quarantined = parseEventLogs({
+    abi: ctx.feedProxyAbi,
+    eventName: "RoundQuarantined",
+    logs: updateReceipt.logs,
+  });
+  if (quarantined.length > 0) {
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "quarantined",
+      round,
+      reason,
+      txHash: updateHash,
+    });
+    logFeed(
+      feedId,
+      `🚧 Round ${round.roundId} quarantined by the price guards of the FeedProxy on chain ${destination.chainId} (${updateHash})`
+    );
+    return { hash: updateHash, quarantined: true };
+  }
+  ctx.journal.record({
+    feedId,
+    destination: index,
+    step: "destination-updated",
+    round,
+    reason,
+  });
+  logFeed(
+    feedId,
+    `✅ FeedProxy on chain ${destination.chainId} updated (${updateHash})`
+  );
+
+  return { hash: updateHash, quarantined: false };
+}
+
+/**
+ * Settle the pending forward pollFeed() recorded for the destination and
+ * round once the destination holds it
+ */
+export async function confirmOnReactor(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  round: RoundData,
+  reason: UpdateReason
+): Promise<void> {
+  const confirmHash = await ctx.reactive.walletClient.writeContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "confirmForward",
+    args: [feedId, BigInt(index), round.roundId],
+  });
+  const confirmReceipt =
+    await ctx.reactive.publicClient.waitForTransactionReceipt({
+      hash: confirmHash,
+    });
+  if (confirmReceipt.status !== "success") {
+    throw new PipelineError(
+      feedId,
+      "confirmForward",
+      `reverted in ${confirmHash}`
+    );
+  }
+  ctx.journal.record({
+    feedId,
+    destination: index,
+    step: "confirmed",
+    round,
+    reason,
+    txHash: confirmHash,
+  });
+  logFeed(feedId, `✅ Forward to destination ${index} confirmed on reactor`);
+}
+
+/** A feed whose origin has a round the reactor has not processed yet */
+interface DueFeed {
+  feedId: Hex;
+  config: FeedConfig;
+  destinations: Destination[];
+  /** Only read for feeds in Adaptive mode; 0 otherwise */
+  volatility: bigint;
+  round: RoundData;
+}
+
+type DecisionLog = {
+  eventName: "UpdateForwarded" | "UpdateSkipped" | "PollFailed";
+  args: {
+    feedId: Hex;
+    destinationIndex: bigint;
+    roundId: bigint;
+    /** The answer, or for twap destinations the TWAP; absent on PollFailed */
+    price?: bigint;
+    reason: number | Hex;
+  };
+};
+
+/**
+ * Read a feed's state and origin round. Feeds that need no pollFeeds() entry
+ * come back as a finished result.
+ */
+async function checkFeed(
+  ctx: RelayerContext,
+  feedId: Hex
+): Promise<DueFeed | PipelineResult> {
+  const config = await readFeedConfig(ctx, feedId);
+  if (!config.active) {
+    return { feedId, status: "inactive" };
+  }
+  if (isComposite(ctx, config)) {
+    // Recomputed by the reactor whenever one of its inputs is polled
+    return { feedId, status: "composite" };
+  }
+  if ((await readTriggerMode(ctx, feedId)) === TriggerMode.React) {
+    // Delivered by react() callbacks; pollFeed() would revert
+    return { feedId, status: "react-mode" };
+  }
+
+  const round = await fetchLatestRound(ctx, config);
+  if (round.roundId <= config.lastProcessedRoundId) {
+    return { feedId, status: "already-processed", roundId: round.roundId };
+  }
+
+  logFeed(
+    feedId,
+    `New round ${round.roundId} (answer ${round.answer}, updatedAt ${round.updatedAt})`
+  );
+  const phase = phaseOf(round.roundId);
+  if (
+    config.lastProcessedRoundId !== 0n &&
+    phase !== phaseOf(config.lastProcessedRoundId)
+  ) {
+    logFeed(
+      feedId,
+      `🔀 Origin moved from phase ${phaseOf(config.lastProcessedRoundId)} to phase ${phase} (new aggregator)`
+    );
+  }
+  const [destinations, volatility] = await Promise.all([
+    readDestinations(ctx, feedId),
+    config.deviationMode === DeviationMode.Adaptive
+      ? readVolatility(ctx, feedId)
+      : 0n,
+  ]);
+  return { feedId, config, destinations, volatility, round };
+}
+
+/**
+ * Name of the custom error a simulated contract call reverted with
+ */
+function revertErrorName(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const revert = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError
+  );
+  return revert instanceof ContractFunctionRevertedError
+    ? revert.data?.errorName
+    : undefined;
+}
+
+/**
+ * Readable form of a failed pollFeeds() entry's revert data
+ */
+function describeRevert(ctx: RelayerContext, data: Hex): string {
+  try {
+    const { errorName, args } = decodeErrorResult({
+      abi: ctx.reactorAbi,
+      data,
+    });
+    return errorName === "Error"
+      ? String(args?.[0])
+      : `${errorName}(${(args ?? []).join(", ")})`;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Let the reactor decide for a batch of feeds in one pollFeeds() transaction
+ */
+async function pollOnReactor(
+  ctx: RelayerContext,
+  feeds: DueFeed[]
+): Promise<Log[]> {
+  const pollHash = await ctx.reactive.walletClient.writeContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "pollFeeds",
+    args: [
+      feeds.map((feed) => feed.feedId),
+      feeds.map(({ round }) => ({
+        roundId: round.roundId,
+        answer: round.answer,
+        updatedAt: round.updatedAt,
+        answeredInRound: round.answeredInRound,
+      })),
+    ],
+  });
+  const pollReceipt = await ctx.reactive.publicClient.waitForTransactionReceipt(
+    { hash: pollHash }
+  );
+  if (pollReceipt.status !== "success") {
+    throw new PipelineError(
+      feeds[0].feedId,
+      "pollFeeds",
+      `reverted in ${pollHash}`
+    );
+  }
+  return pollReceipt.logs;
+}
+
+/**
+ * Act on the reactor's decisions for one feed of a polled batch
+ */
+async function forwardDecisions(
+  ctx: RelayerContext,
+  feed: DueFeed,
+  logs: DecisionLog[]
+): Promise<PipelineResult> {
+  const { feedId, config, destinations, volatility, round } = feed;
+
+  const failure = logs.find((log) => log.eventName === "PollFailed");
+  if (failure) {
+    const error = describeRevert(ctx, failure.args.reason as Hex);
+    return { feedId, status: "failed", roundId: round.roundId, error };
+  }
+
+  // Every active destination gets exactly one decision event
+  if (logs.length === 0 && destinations.some((d) => d.active)) {
+    throw new PipelineError(feedId, "pollFeeds", "no decision event emitted");
+  }
+
+  const outcomes: DestinationOutcome[] = [];
+  for (const decision of logs) {
+    const index = Number(decision.args.destinationIndex);
+    const destination = destinations[index];
+    const decided = decision.args.reason as number;
+    // The reactor's price is the answer, or for a twap destination the TWAP
+    // it computed
+    const sent = { ...round, answer: decision.args.price! };
+
+    // The reactor has the final say; the local prediction only flags drift
+    // between the contract and the shared decision engine
+    const predicted = decidePoll(
+      destinationDecisionConfig(config, destination, volatility),
+      round.roundId,
+      sent.answer,
+      round.updatedAt
+    );
+    const forwarded = decision.eventName === "UpdateForwarded";
+    const expectedReason = predicted.shouldForward
+      ? predicted.reason
+      : predicted.skipReason;
+    if (forwarded !== predicted.shouldForward || decided !== expectedReason) {
+      logFeed(
+        feedId,
+        `⚠️  Reactor decision for destination ${index} (${decision.eventName}, reason ${decided}) differs from local prediction (${predicted.shouldForward ? "forward" : "skip"}, reason ${expectedReason})`
+      );
+    }
+
+    if (!forwarded) {
+      ctx.journal.record({
+        feedId,
+        destination: index,
+        step: "skipped",
+        round: sent,
+        reason: decided,
+      });
+      logFeed(
+        feedId,
+        `⏭️  Skipped round ${round.roundId} for destination ${index}`
+      );
+      outcomes.push({
+        index,
+        status: "skipped",
+        skipReason: decided as SkipReason,
+      });
+      continue;
+    }
+
+    const reason = decided as UpdateReason;
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "forward-decided",
+      round: sent,
+      reason,
+    });
+
+    // One failing destination must not hold back the others; the journal
+    // keeps the failed forward for recovery on the next start
+    try {
+      // Push the round to the destination FeedProxy
+      const { hash: destinationTx, quarantined } = await pushToDestination(
+        ctx,
+        feedId,
+        index,
+        destination,
+        sent,
+        reason
+      );
+      if (quarantined) {
+        outcomes.push({ index, status: "quarantined", reason, destinationTx });
+        continue;
+      }
+
+      // Settle the destination's last-sent state on the reactor
+      await confirmOnReactor(ctx, feedId, index, sent, reason);
+
+      outcomes.push({ index, status: "forwarded", reason, destinationTx });
+    } catch (error) {
+      logFeedError(feedId, `Forward to destination ${index} failed`, error);
+      outcomes.push({
+        index,
+        status: "failed",
+        reason,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return {
+    feedId,
+    status: "polled",
+    roundId: round.roundId,
+    answer: round.answer,
+    destinations: outcomes,
+  };
+}
+
+/**
+ * Act on the decisions for composite feeds the reactor recomputed while
+ * polling their inputs, one composite round at a time. Rounds are rebuilt
+ * from the composite's decision history; the prediction is made against the
+ * feed as it was before the round, except for its volatility.
+ */
+async function forwardCompositeDecisions(
+  ctx: RelayerContext,
+  logs: DecisionLog[]
+): Promise<PipelineResult[]> {
+  const byFeed = new Map<string, DecisionLog[]>();
+  for (const log of logs) {
+    const key = log.args.feedId.toLowerCase();
+    byFeed.set(key, [...(byFeed.get(key) ?? []), log]);
+  }
+
+  const results: PipelineResult[] = [];
+  for (const feedLogs of byFeed.values()) {
+    const { feedId } = feedLogs[0].args;
+    const roundIds = [...new Set(feedLogs.map((log) => log.args.roundId))];
+    try {
+      // One decision per destination and round, all in this batch
+      const history = await readDecisionHistory(ctx, feedId, feedLogs.length);
+      for (const roundId of roundIds) {
+        const config = await readFeedConfig(ctx, feedId);
+        const [destinations, volatility] = await Promise.all([
+          readDestinations(ctx, feedId),
+          config.deviationMode === DeviationMode.Adaptive
+            ? readVolatility(ctx, feedId)
+            : 0n,
+        ]);
+        const decisions = history.filter((entry) => entry.roundId === roundId);
+        const decision =
+          decisions.find(
+            (entry) => !destinations[entry.destinationIndex].twap
+          ) ?? decisions[0];
+        if (!decision) {
+          throw new PipelineError(
+            feedId,
+            "getDecisions",
+            `no decision recorded for round ${roundId}`
+          );
+        }
+
+        logFeed(
+          feedId,
+          `Composite round ${roundId} (answer ${decision.answer}, updatedAt ${decision.updatedAt})`
+        );
+        results.push(
+          await forwardDecisions(
+            ctx,
+            {
+              feedId,
+              config: { ...config, lastProcessedRoundId: roundId - 1n },
+              destinations,
+              volatility,
+              round: {
+                roundId,
+                answer: decision.answer,
+                startedAt: decision.updatedAt,
+                updatedAt: decision.updatedAt,
+                answeredInRound: roundId,
+              },
+            },
+            feedLogs.filter((log) => log.args.roundId === roundId)
+          )
+        );
+      }
+    } catch (error) {
+      results.push({ feedId, status: "failed", error: errorMessage(error) });
+    }
+  }
+  return results;
+}
+
+/**
+ * Run the full pipeline once for a set of feeds. Feeds with a new origin
+ * round share pollFeeds() transactions of up to RELAYER_BATCH_SIZE entries;
+ * rounds the reactor has already processed are ignored without sending a
+ * transaction. Composites recomputed from the batch's rounds are forwarded
+ * after it and come back as results of their own. A feed that fails on its
+ * own comes back as a "failed" result; only a pollFeeds() transaction that
+ * reverts as a whole throws.
+ */
+export async function runFeedBatch(
+  ctx: RelayerContext,
+  feedIds: Hex[]
+): Promise<PipelineResult[]> {
+  const checked = await Promise.all(
+    feedIds.map((feedId) =>
+      checkFeed(ctx, feedId).catch((error): PipelineResult => ({
+        feedId,
+        status: "failed",
+        error: errorMessage(error),
+      }))
+    )
+  );
+  const results = checked.filter(
+    (entry): entry is PipelineResult => "status" in entry
+  );
+  const due = checked.filter((entry): entry is DueFeed => !("status" in entry));
+
+  for (let i = 0; i < due.length; i += ctx.config.batchSize) {
+    const batch = due.slice(i, i + ctx.config.batchSize);
+    const decisions = parseEventLogs({
+      abi: ctx.reactorAbi,
+      eventName: ["UpdateForwarded", "UpdateSkipped", "PollFailed"],
+      logs: await pollOnReactor(ctx, batch),
+    }) as unknown as DecisionLog[];
+    const polled = new Set(batch.map((feed) => feed.feedId.toLowerCase()));
+
+    const forwarded = await Promise.all(
+      batch.map((feed) =>
+        forwardDecisions(
+          ctx,
+          feed,
+          decisions.filter(
+            (log) => log.args.feedId.toLowerCase() === feed.feedId.toLowerCase()
+          )
+        ).catch((error): PipelineResult => ({
+          feedId: feed.feedId,
+          status: "failed",
+          roundId: feed.round.roundId,
+          error: errorMessage(error),
+        }))
+      )
+    );
+    results.push(...forwarded);
+    results.push(
+      ...(await forwardCompositeDecisions(
+        ctx,
+        decisions.filter((log) => !polled.has(log.args.feedId.toLowerCase()))
+      ))
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,503 @@
+/**
+ * Reconcile the reactor's last-sent state with what each destination
+ * FeedProxy actually serves.
+ *
+ * Drift usually comes from writes that bypass the relayer (e.g.
+ * update-feedproxy-directly.ts) or from a relayer that died mid-forward.
+ * For every destination of every registered feed the command compares
+ *   getDestination().lastSentPrice / lastSentTime
+ * with FeedProxy.latestRoundData() and classifies the result:
+ *   - in-sync             nothing to do
+ *   - reactor-mismatch    realignLastSent() with the destination's answer
+ *   - destination-behind  push the origin's latest round, then realign to it
+ *   - destination-empty   same, for a proxy that was never written
+ * Twap destinations serve the reactor's TWAP rather than origin answers, so
+ * they are never pushed origin rounds: a lagging one is realigned to what it
+ * serves and an empty one waits for its next forward. Composite feeds have
+ * no origin, so all their destinations are treated the same way.
+ *
+ * Fixes call the owner-only realignLastSent(), so --fix needs the reactor
+ * owner's key as REACTIVE_PRIVATE_KEY. While the reactor's timelock is on,
+ * the realignment is queued instead (fix status "queued") and has to be
+ * executed with timelock-actions.ts once the delay has passed.
+ *
+ * Usage:
+ *   npm run relayer -- reconcile                     # print the diff only
+ *   npm run relayer -- reconcile --fix               # apply fixes
+ *   npm run relayer -- reconcile --fix --dry-run     # simulate fixes
+ *   npm run relayer -- reconcile --report drift.json # also write a JSON report
+ *   npm run relayer -- reconcile --json              # JSON on stdout
+ */
+
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { encodeFunctionData, type Hex } from "viem";
+import { UpdateReason } from "../../frontend/src/decision.js";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, logFeed } from "./logger.js";
+import {
+  destinationUpdate,
+  fetchLatestRound,
+  isComposite,
+  PipelineError,
+  pushToDestination,
+  readAllFeedIds,
+  readDestinationRound,
+  readDestinations,
+  readFeedConfig,
+} from "./pipeline.js";
+import type { Destination, FeedConfig, RoundData } from "./types.js";
+
+/**
+ * Journal reason for rounds pushed by reconcile. The reactor itself is
+ * realigned with realignLastSent(), which does not touch forward metrics.
+ */
+const REALIGN_REASON = UpdateReason.FirstUpdate;
+
+export type DriftKind =
+  | "in-sync"
+  | "reactor-mismatch"
+  | "destination-behind"
+  | "destination-empty"
+  | "inactive"
+  | "error";
+
+export type FixAction = "none" | "confirm-destination" | "push-origin-round";
+
+export type FixStatus =
+  "not-requested" | "applied" | "queued" | "simulated" | "failed";
+
+export interface ReconcileOptions {
+  fix: boolean;
+  dryRun: boolean;
+  reportPath?: string;
+  json: boolean;
+}
+
+export interface FeedReconciliation {
+  feedId: Hex;
+  /** Unset when the feed itself could not be read */
+  destinationIndex?: number;
+  destinationChainId?: bigint;
+  drift: DriftKind;
+  action: FixAction;
+  fix: FixStatus;
+  reactor?: { lastSentPrice: bigint; lastSentTime: bigint };
+  destination?: RoundData;
+  origin?: RoundData;
+  error?: string;
+}
+
+export interface ReconcileReport {
+  generatedAt: string;
+  reactor: Hex;
+  fix: boolean;
+  dryRun: boolean;
+  feeds: FeedReconciliation[];
+}
+
+export function parseReconcileArgs(args: string[]): ReconcileOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      fix: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      report: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  return {
+    // A dry run only makes sense for fixes, so it implies --fix
+    fix: values.fix || values["dry-run"],
+    dryRun: values["dry-run"],
+    reportPath: values.report,
+    json: values.json,
+  };
+}
+
+function classify(
+  config: FeedConfig,
+  destination: Destination,
+  served: RoundData | undefined,
+  origin: RoundData | undefined
+): { drift: DriftKind; action: FixAction } {
+  if (!config.active || !destination.active) {
+    return { drift: "inactive", action: "none" };
+  }
+  const pushable = origin !== undefined && !destination.twap;
+  if (!served) {
+    return {
+      drift: "destination-empty",
+      action: pushable ? "push-origin-round" : "none",
+    };
+  }
+  // The reactor believes it sent something newer than the proxy holds
+  if (destination.lastSentTime > served.updatedAt) {
+    return {
+      drift: "destination-behind",
+      action: pushable ? "push-origin-round" : "confirm-destination",
+    };
+  }
+  if (
+    destination.lastSentPrice !== served.answer ||
+    destination.lastSentTime !== served.updatedAt
+  ) {
+    return { drift: "reactor-mismatch", action: "confirm-destination" };
+  }
+  return { drift: "in-sync", action: "none" };
+}
+
+async function simulateFix(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  action: FixAction,
+  round: RoundData
+): Promise<void> {
+  if (action === "push-origin-round") {
+    const clients = ctx.destination(destination.chainId);
+    await clients.publicClient.simulateContract({
+      account: clients.walletClient.account,
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      ...(await destinationUpdate(ctx, feedId, index, destination, round)),
+    });
+  }
+  const { functionName, args } = await realignCall(ctx, feedId, index, round);
+  await ctx.reactive.publicClient.simulateContract({
+    account: ctx.reactive.walletClient.account,
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName,
+    args,
+  });
+}
+
+/**
+ * realignLastSent(), or queueAction() with it while the reactor's timelock
+ * is on
+ */
+async function realignCall(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  round: RoundData
+): Promise<{ functionName: string; args: unknown[]; queued: boolean }> {
+  const args = [feedId, BigInt(index), round.answer, round.updatedAt];
+  const timelockDelay = (await ctx.reactive.publicClient.readContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    functionName: "timelockDelay",
+  })) as bigint;
+  if (timelockDelay === 0n) {
+    return { functionName: "realignLastSent", args, queued: false };
+  }
+  const data = encodeFunctionData({
+    abi: ctx.reactorAbi,
+    functionName: "realignLastSent",
+    args,
+  });
+  return { functionName: "queueAction", args: [data], queued: true };
+}
+
+async function realignOnReactor(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  round: RoundData
+): Promise<FixStatus> {
+  const { queued, ...call } = await realignCall(ctx, feedId, index, round);
+  const hash = await ctx.reactive.walletClient.writeContract({
+    address: ctx.config.reactorAddress,
+    abi: ctx.reactorAbi,
+    ...call,
+  });
+  const receipt = await ctx.reactive.publicClient.waitForTransactionReceipt({
+    hash,
+  });
+  if (receipt.status !== "success") {
+    throw new PipelineError(feedId, call.functionName, `reverted in ${hash}`);
+  }
+  if (queued) {
+    // Nothing changes on the reactor until the action is executed, and
+    // there is no pending forward for startup recovery to confirm
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "abandoned",
+      round,
+      reason: REALIGN_REASON,
+      txHash: hash,
+      note: "reconcile: realignLastSent() queued behind the timelock",
+    });
+    logFeed(
+      feedId,
+      `⏱️  Queued realignment of destination ${index} to round ${round.roundId} in ${hash}`
+    );
+    return "queued";
+  }
+  ctx.journal.record({
+    feedId,
+    destination: index,
+    step: "confirmed",
+    round,
+    reason: REALIGN_REASON,
+    txHash: hash,
+    note: "reconcile",
+  });
+  logFeed(
+    feedId,
+    `✅ Reactor realigned destination ${index} to round ${round.roundId}`
+  );
+  return "applied";
+}
+
+async function applyFix(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  action: FixAction,
+  round: RoundData
+): Promise<FixStatus> {
+  if (action === "push-origin-round") {
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "forward-decided",
+      round,
+      reason: REALIGN_REASON,
+      note: "reconcile",
+    });
+    const { hash, quarantined } = await pushToDestination(
+      ctx,
+      feedId,
+      index,
+      destination,
+      round,
+      REALIGN_REASON
+    );
+    if (quarantined) {
+      // The proxy still serves its old round, so there is nothing to realign to
+      throw new PipelineError(
+        feedId,
+        "updateRoundData",
+        `round ${round.roundId} quarantined by the proxy's price guards (${hash})`
+      );
+    }
+  }
+  return realignOnReactor(ctx, feedId, index, round);
+}
+
+async function reconcileDestination(
+  ctx: RelayerContext,
+  feedId: Hex,
+  config: FeedConfig,
+  index: number,
+  destination: Destination,
+  origin: RoundData | undefined,
+  options: ReconcileOptions
+): Promise<FeedReconciliation> {
+  const served = await readDestinationRound(ctx, destination);
+  const { drift, action } = classify(config, destination, served, origin);
+
+  const result: FeedReconciliation = {
+    feedId,
+    destinationIndex: index,
+    destinationChainId: destination.chainId,
+    drift,
+    action,
+    fix: "not-requested",
+    reactor: {
+      lastSentPrice: destination.lastSentPrice,
+      lastSentTime: destination.lastSentTime,
+    },
+    destination: served,
+    origin,
+  };
+  if (!options.fix || action === "none") return result;
+
+  if (
+    action === "push-origin-round" &&
+    served &&
+    origin!.roundId <= served.roundId
+  ) {
+    // The origin has nothing newer than the destination, so align the
+    // reactor with the destination instead
+    result.action = "confirm-destination";
+  }
+  const round = result.action === "push-origin-round" ? origin! : served!;
+
+  try {
+    if (options.dryRun) {
+      await simulateFix(ctx, feedId, index, destination, result.action, round);
+      result.fix = "simulated";
+    } else {
+      result.fix = await applyFix(
+        ctx,
+        feedId,
+        index,
+        destination,
+        result.action,
+        round
+      );
+    }
+  } catch (error) {
+    result.fix = "failed";
+    result.error = errorMessage(error);
+  }
+  return result;
+}
+
+async function reconcileFeed(
+  ctx: RelayerContext,
+  feedId: Hex,
+  options: ReconcileOptions
+): Promise<FeedReconciliation[]> {
+  const config = await readFeedConfig(ctx, feedId);
+  const [destinations, origin] = await Promise.all([
+    readDestinations(ctx, feedId),
+    isComposite(ctx, config) ? undefined : fetchLatestRound(ctx, config),
+  ]);
+
+  const results: FeedReconciliation[] = [];
+  for (const [index, destination] of destinations.entries()) {
+    try {
+      results.push(
+        await reconcileDestination(
+          ctx,
+          feedId,
+          config,
+          index,
+          destination,
+          origin,
+          options
+        )
+      );
+    } catch (error) {
+      results.push({
+        feedId,
+        destinationIndex: index,
+        destinationChainId: destination.chainId,
+        drift: "error",
+        action: "none",
+        fix: "not-requested",
+        error: errorMessage(error),
+      });
+    }
+  }
+  return results;
+}
+
+const DRIFT_ICONS: Record<DriftKind, string> = {
+  "in-sync": "✅",
+  "reactor-mismatch": "⚠️ ",
+  "destination-behind": "⚠️ ",
+  "destination-empty": "⚠️ ",
+  inactive: "⏸️ ",
+  error: "❌",
+};
+
+function printFeed(entry: FeedReconciliation): void {
+  const target =
+    entry.destinationIndex === undefined
+      ? ""
+      : ` → destination ${entry.destinationIndex} (chain ${entry.destinationChainId})`;
+  console.log(
+    `\n${DRIFT_ICONS[entry.drift]} ${entry.feedId}${target} (${entry.drift})`
+  );
+  if (entry.reactor) {
+    console.log(
+      `   Reactor:     lastSentPrice ${entry.reactor.lastSentPrice}, lastSentTime ${entry.reactor.lastSentTime}`
+    );
+  }
+  console.log(
+    entry.destination
+      ? `   Destination: round ${entry.destination.roundId}, answer ${entry.destination.answer}, updatedAt ${entry.destination.updatedAt}`
+      : "   Destination: no data"
+  );
+  if (entry.origin) {
+    console.log(
+      `   Origin:      round ${entry.origin.roundId}, answer ${entry.origin.answer}, updatedAt ${entry.origin.updatedAt}`
+    );
+  }
+  if (entry.action !== "none") {
+    console.log(`   Fix:         ${entry.action} (${entry.fix})`);
+  }
+  if (entry.error) console.log(`   Error:       ${entry.error}`);
+}
+
+function toJson(report: ReconcileReport): string {
+  return JSON.stringify(
+    report,
+    (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+}
+
+/**
+ * Diff every destination of every registered feed and optionally repair the
+ * drift
+ */
+export async function reconcile(
+  ctx: RelayerContext,
+  options: ReconcileOptions
+): Promise<ReconcileReport> {
+  const feedIds = await readAllFeedIds(ctx);
+  const feeds: FeedReconciliation[] = [];
+
+  // Sequential on purpose: fixes share one reactor account
+  for (const feedId of feedIds) {
+    try {
+      feeds.push(...(await reconcileFeed(ctx, feedId, options)));
+    } catch (error) {
+      feeds.push({
+        feedId,
+        drift: "error",
+        action: "none",
+        fix: "not-requested",
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  const report: ReconcileReport = {
+    generatedAt: new Date().toISOString(),
+    reactor: ctx.config.reactorAddress,
+    fix: options.fix,
+    dryRun: options.dryRun,
+    feeds,
+  };
+
+  if (options.reportPath) {
+    fs.writeFileSync(options.reportPath, `${toJson(report)}\n`);
+  }
+
+  if (options.json) {
+    console.log(toJson(report));
+    return report;
+  }
+
+  console.log(
+    `🔍 Reconciling ${feeds.length} destination(s)${options.dryRun ? " (dry run)" : ""}`
+  );
+  feeds.forEach(printFeed);
+
+  const drifted = feeds.filter(
+    (entry) => entry.drift !== "in-sync" && entry.drift !== "inactive"
+  );
+  const failed = feeds.filter((entry) => entry.fix === "failed");
+  console.log(
+    `\n📊 ${feeds.length - drifted.length} in sync, ${drifted.length} drifted` +
+      (options.fix ? `, ${failed.length} fix(es) failed` : "")
+  );
+  if (drifted.length > 0 && !options.fix) {
+    console.log("   Re-run with --fix to repair, or --dry-run to simulate");
+  }
+  if (options.reportPath) {
+    console.log(`📝 Report written to ${options.reportPath}`);
+  }
+  return report;
+}
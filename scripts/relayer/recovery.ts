@@ -0,0 +1,242 @@
+/**
+ * Startup recovery for forwards the journal shows as unfinished.
+ *
+ * Each pending round is reconciled, per destination, against what the chains
+ * actually hold:
+ *   - FeedProxy.latestRoundData() tells whether updateRoundData() landed
+ *   - pendingForwards() tells whether confirmForward() is still owed
+ * and the missing steps are replayed.
+ */
+
+import { parseEventLogs, type Hex } from "viem";
+import type { UpdateReason } from "../../frontend/src/decision.js";
+import type { RelayerContext } from "./context.js";
+import type { JournalEntry } from "./journal.js";
+import { errorMessage, log, logFeed, logFeedError } from "./logger.js";
+import {
+  confirmOnReactor,
+  PipelineError,
+  pushToDestination,
+  readDestination,
+  readDestinationRound,
+  readPendingForward,
+} from "./pipeline.js";
+import type { RoundData } from "./types.js";
+
+/** FeedProxy errors that mean the round can never be written */
+const UNRECOVERABLE_DESTINATION_ERRORS = ["StaleData", "InvalidRound"];
+
+export type RecoveryAction =
+  | "confirmed"
+  | "already-confirmed"
+  | "replayed"
+  | "quarantined"
+  | "abandoned"
+  | "failed";
+
+export interface RecoveryOutcome {
+  feedId: Hex;
+  destination: number;
+  roundId: bigint;
+  action: RecoveryAction;
+}
+
+function completeRound(entry: JournalEntry): RoundData | undefined {
+  const { roundId, answer, startedAt, updatedAt, answeredInRound } =
+    entry.round;
+  if (
+    answer === undefined ||
+    updatedAt === undefined ||
+    answeredInRound === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    roundId,
+    answer,
+    startedAt: startedAt ?? updatedAt,
+    updatedAt,
+    answeredInRound,
+  };
+}
+
+async function recoverEntry(
+  ctx: RelayerContext,
+  entry: JournalEntry
+): Promise<RecoveryAction> {
+  const { feedId, destination: index } = entry;
+  const round = completeRound(entry);
+  const reason = entry.reason as UpdateReason | undefined;
+  if (!round || reason === undefined) {
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "abandoned",
+      round: entry.round,
+      note: "incomplete journal entry",
+    });
+    return "abandoned";
+  }
+
+  const destination = await readDestination(ctx, feedId, index);
+  let served = await readDestinationRound(ctx, destination);
+
+  // A submitted transaction may have been mined after the crash
+  if ((!served || served.roundId < round.roundId) && entry.txHash) {
+    const receipt = await ctx
+      .destinationReader(destination.chainId)
+      .getTransactionReceipt({ hash: entry.txHash })
+      .catch(() => undefined);
+    if (
+      receipt?.status === "success" &&
+      parseEventLogs({
+        abi: ctx.feedProxyAbi,
+        eventName: "RoundQuarantined",
+        logs: receipt.logs,
+      }).length > 0
+    ) {
+      ctx.journal.record({
+        feedId,
+        destination: index,
+        step: "quarantined",
+        round,
+        reason,
+        txHash: entry.txHash,
+      });
+      return "quarantined";
+    }
+    if (receipt?.status === "success") {
+      served = await readDestinationRound(ctx, destination);
+    }
+  }
+
+  let action: RecoveryAction = "confirmed";
+  if (!served || served.roundId < round.roundId) {
+    logFeed(
+      feedId,
+      `↻ Replaying updateRoundData for round ${round.roundId} on destination ${index}`
+    );
+    try {
+      const { quarantined } = await pushToDestination(
+        ctx,
+        feedId,
+        index,
+        destination,
+        round,
+        reason
+      );
+      // Journaled as finished; the proxy owner decides on the round
+      if (quarantined) return "quarantined";
+      served = round;
+      action = "replayed";
+    } catch (error) {
+      if (
+        error instanceof PipelineError &&
+        error.revert !== undefined &&
+        UNRECOVERABLE_DESTINATION_ERRORS.includes(error.revert)
+      ) {
+        ctx.journal.record({
+          feedId,
+          destination: index,
+          step: "abandoned",
+          round,
+          reason,
+          note: errorMessage(error),
+        });
+        return "abandoned";
+      }
+      throw error;
+    }
+  } else {
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "destination-updated",
+      round,
+      reason,
+    });
+  }
+
+  // Only the pending forward pollFeed() recorded for this round can be
+  // confirmed. A destination that has since moved on is left for
+  // `relayer reconcile --fix` to realign.
+  const pending = await readPendingForward(ctx, feedId, index, round.roundId);
+  if (!pending) {
+    const confirmed =
+      destination.lastSentPrice === round.answer &&
+      destination.lastSentTime === round.updatedAt;
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: confirmed ? "confirmed" : "abandoned",
+      round,
+      reason,
+      note: confirmed
+        ? "already confirmed on reactor"
+        : "no pending forward on reactor",
+    });
+    return confirmed ? "already-confirmed" : "abandoned";
+  }
+
+  const { timestamp } = await ctx.reactive.publicClient.getBlock();
+  if (timestamp > pending.expiresAt) {
+    ctx.journal.record({
+      feedId,
+      destination: index,
+      step: "abandoned",
+      round,
+      reason,
+      note: "pending forward expired",
+    });
+    return "abandoned";
+  }
+
+  await confirmOnReactor(ctx, feedId, index, round, reason);
+  return action;
+}
+
+/**
+ * Resume or reconcile every half-finished forward in the journal
+ */
+export async function recoverPendingForwards(
+  ctx: RelayerContext
+): Promise<RecoveryOutcome[]> {
+  const pending = ctx.journal.pending();
+  if (pending.length === 0) {
+    ctx.journal.compact();
+    return [];
+  }
+
+  log(`🩹 Recovering ${pending.length} unfinished forward(s) from the journal`);
+  const outcomes: RecoveryOutcome[] = [];
+  for (const entry of pending) {
+    try {
+      const action = await recoverEntry(ctx, entry);
+      logFeed(
+        entry.feedId,
+        `Round ${entry.round.roundId} on destination ${entry.destination}: ${action}`
+      );
+      outcomes.push({
+        feedId: entry.feedId,
+        destination: entry.destination,
+        roundId: entry.round.roundId,
+        action,
+      });
+    } catch (error) {
+      logFeedError(
+        entry.feedId,
+        `Recovery of round ${entry.round.roundId} on destination ${entry.destination} failed`,
+        error
+      );
+      outcomes.push({
+        feedId: entry.feedId,
+        destination: entry.destination,
+        roundId: entry.round.roundId,
+        action: "failed",
+      });
+    }
+  }
+
+  ctx.journal.compact();
+  return outcomes;
+}
@@ -0,0 +1,15 @@
+/**
+ * Chainlink proxy round IDs, mirroring contracts/libraries/ChainlinkRoundIds.sol:
+ * roundId = phaseId << 64 | aggregatorRoundId
+ */
+
+const PHASE_OFFSET = 64n;
+const AGGREGATOR_ROUND_MASK = (1n << PHASE_OFFSET) - 1n;
+
+export function phaseOf(roundId: bigint): number {
+  return Number(roundId >> PHASE_OFFSET);
+}
+
+export function aggregatorRoundOf(roundId: bigint): bigint {
+  return roundId & AGGREGATOR_ROUND_MASK;
+}
@@ -0,0 +1,273 @@
+import type { Hex } from "viem";
+import { pollIntervalFor } from "./config.js";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, log, logFeed, logFeedError } from "./logger.js";
+import { readAllFeedIds, runFeedBatch } from "./pipeline.js";
+import { recoverPendingForwards, type RecoveryOutcome } from "./recovery.js";
+import type { PipelineResult } from "./types.js";
+
+export type PipelineRunner = (
+  ctx: RelayerContext,
+  feedIds: Hex[]
+) => Promise<PipelineResult[]>;
+
+export interface FeedSchedulerOptions {
+  /** Run each feed on its own timer (disabled when triggered by origin events) */
+  polling: boolean;
+  runner: PipelineRunner;
+  /** Replays the journal's unfinished forwards */
+  recover: (ctx: RelayerContext) => Promise<RecoveryOutcome[]>;
+  /** Called after the tracked feed set changes */
+  onFeedsChanged?: (feedIds: Hex[]) => Promise<void>;
+}
+
+/**
+ * Runs the forwarding pipeline for every registered feed, either on a per-feed
+ * timer or whenever trigger() is called.
+ *
+ * Feeds triggered in the same tick (timers that fire together, logs from one
+ * getLogs poll) are batched into one pipeline run, so the reactor sees a
+ * single pollFeeds() transaction. At most one run includes a given feed at
+ * any time: a trigger that arrives while the feed is queued joins that run.
+ * One that arrives while the feed's run is in progress may carry a round the
+ * run has already read past, so it queues one more run for when it finishes;
+ * further triggers meanwhile share that follow-up run.
+ *
+ * A failed run can leave a forward half-finished, e.g. pushed to the
+ * destination but not confirmed on the reactor. Such forwards are recovered
+ * from the journal on the next recovery tick, once the runs already in
+ * progress have settled; runs that come due meanwhile wait for it.
+ */
+export class FeedScheduler {
+  private readonly tracked = new Set<Hex>();
+  private readonly timers = new Map<Hex, NodeJS.Timeout>();
+  /** Runs resolve to the feeds whose pipeline failed */
+  private readonly inFlight = new Map<Hex, Promise<Set<Hex>>>();
+  private nextBatch?: { feedIds: Set<Hex>; run: Promise<Set<Hex>> };
+  /** Follow-up runs for feeds triggered while their run was in progress */
+  private readonly reruns = new Map<Hex, Promise<boolean>>();
+  /** Runs past the recovery gate */
+  private readonly running = new Set<Promise<Set<Hex>>>();
+  private recovery?: Promise<void>;
+  private recoveryDue = false;
+  private readonly options: FeedSchedulerOptions;
+  private refreshTimer?: NodeJS.Timeout;
+  private recoveryTimer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    private readonly ctx: RelayerContext,
+    options: Partial<FeedSchedulerOptions> = {}
+  ) {
+    this.options = {
+      polling: true,
+      runner: runFeedBatch,
+      recover: recoverPendingForwards,
+      ...options,
+    };
+  }
+
+  get feedIds(): Hex[] {
+    return [...this.tracked];
+  }
+
+  async start(): Promise<void> {
+    await this.refreshFeeds();
+    this.scheduleRefresh();
+    this.scheduleRecovery();
+  }
+
+  /**
+   * Queue a feed for the next batch, or run it again once its run in
+   * progress finishes
+   * @returns Whether the feed's pipeline settled; false when it failed or
+   *          the scheduler is stopped
+   */
+  trigger(feedId: Hex): Promise<boolean> {
+    if (this.stopped) return Promise.resolve(false);
+
+    const running = this.inFlight.get(feedId);
+    if (running && !this.nextBatch?.feedIds.has(feedId)) {
+      let rerun = this.reruns.get(feedId);
+      if (!rerun) {
+        // inFlight no longer holds the feed once the run has settled
+        rerun = running.then(() => {
+          this.reruns.delete(feedId);
+          return this.trigger(feedId);
+        });
+        this.reruns.set(feedId, rerun);
+      }
+      return rerun;
+    }
+
+    if (!this.nextBatch) {
+      const feedIds = new Set<Hex>();
+      // setImmediate runs after every timer due in this tick has fired
+      const run = new Promise<void>((resolve) => setImmediate(resolve))
+        .then(async () => {
+          // Still queued, and joinable, while recovery holds it back
+          while (this.recovery) await this.recovery;
+          this.nextBatch = undefined;
+          const batch = this.runBatch([...feedIds]);
+          this.running.add(batch);
+          return batch.finally(() => this.running.delete(batch));
+        })
+        .finally(() => {
+          for (const id of feedIds) this.inFlight.delete(id);
+        });
+      this.nextBatch = { feedIds, run };
+    }
+
+    this.nextBatch.feedIds.add(feedId);
+    this.inFlight.set(feedId, this.nextBatch.run);
+    return this.nextBatch.run.then((failed) => !failed.has(feedId));
+  }
+
+  private async runBatch(feedIds: Hex[]): Promise<Set<Hex>> {
+    let results: PipelineResult[];
+    try {
+      results = await this.options.runner(this.ctx, feedIds);
+    } catch (error) {
+      for (const feedId of feedIds) {
+        logFeedError(feedId, "Pipeline failed", error);
+      }
+      this.recoveryDue = true;
+      return new Set(feedIds);
+    }
+
+    const failed = new Set<Hex>();
+    for (const result of results) {
+      if (result.status === "inactive") {
+        logFeed(result.feedId, "Feed inactive, nothing to do");
+      } else if (result.status === "react-mode") {
+        logFeed(result.feedId, "Feed is driven by react(), nothing to do");
+      } else if (result.status === "composite") {
+        logFeed(result.feedId, "Composite feed, forwarded with its inputs");
+      } else if (result.status === "failed") {
+        logFeedError(result.feedId, "Pipeline failed", result.error);
+        this.recoveryDue = true;
+        failed.add(result.feedId);
+      } else if (
+        result.status === "polled" &&
+        result.destinations.some((outcome) => outcome.status === "failed")
+      ) {
+        // The failed forwards stay pending in the journal
+        this.recoveryDue = true;
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Replay unfinished forwards once the runs past the gate have settled
+   */
+  private recover(): Promise<void> {
+    this.recovery ??= (async () => {
+      await Promise.allSettled(this.running);
+      this.recoveryDue = false;
+      try {
+        const outcomes = await this.options.recover(this.ctx);
+        // Retried on the next tick, e.g. once an RPC is back
+        this.recoveryDue = outcomes.some(
+          (outcome) => outcome.action === "failed"
+        );
+      } catch (error) {
+        this.recoveryDue = true;
+        log(`❌ Journal recovery failed: ${errorMessage(error)}`);
+      }
+    })().finally(() => {
+      this.recovery = undefined;
+    });
+    return this.recovery;
+  }
+
+  /**
+   * Stop scheduling new runs and wait for in-flight pipelines to settle
+   */
+  async stop(timeoutMs = this.ctx.config.shutdownTimeoutMs): Promise<boolean> {
+    this.stopped = true;
+    clearTimeout(this.refreshTimer);
+    clearTimeout(this.recoveryTimer);
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+
+    if (this.inFlight.size === 0 && !this.recovery) return true;
+    log(`⏳ Waiting for ${this.inFlight.size} in-flight pipeline(s)...`);
+
+    let timeout: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      Promise.allSettled([...this.inFlight.values(), this.recovery]).then(
+        () => true
+      ),
+      new Promise<boolean>((resolve) => {
+        timeout = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timeout);
+    return drained;
+  }
+
+  private async refreshFeeds(): Promise<void> {
+    const feedIds = await readAllFeedIds(this.ctx);
+    const current = new Set(feedIds);
+    let changed = false;
+
+    for (const feedId of feedIds) {
+      if (!this.tracked.has(feedId)) {
+        logFeed(feedId, "Tracking feed");
+        this.tracked.add(feedId);
+        changed = true;
+        if (this.options.polling) this.schedule(feedId, 0);
+      }
+    }
+
+    for (const feedId of this.tracked) {
+      if (!current.has(feedId)) {
+        logFeed(feedId, "Feed no longer registered, untracking");
+        this.tracked.delete(feedId);
+        clearTimeout(this.timers.get(feedId));
+        this.timers.delete(feedId);
+        changed = true;
+      }
+    }
+
+    if (changed && this.options.onFeedsChanged) {
+      await this.options.onFeedsChanged(this.feedIds);
+    }
+  }
+
+  private schedule(feedId: Hex, delayMs: number): void {
+    if (this.stopped) return;
+
+    const timer = setTimeout(async () => {
+      await this.trigger(feedId);
+      // Only reschedule feeds that are still tracked
+      if (this.timers.get(feedId) === timer) {
+        this.schedule(feedId, pollIntervalFor(this.ctx.config, feedId));
+      }
+    }, delayMs);
+    this.timers.set(feedId, timer);
+  }
+
+  private scheduleRefresh(): void {
+    if (this.stopped) return;
+
+    this.refreshTimer = setTimeout(async () => {
+      try {
+        await this.refreshFeeds();
+      } catch (error) {
+        log(`❌ Failed to refresh feed list: ${errorMessage(error)}`);
+      }
+      this.scheduleRefresh();
+    }, this.ctx.config.feedRefreshIntervalMs);
+  }
+
+  private scheduleRecovery(): void {
+    if (this.stopped) return;
+
+    this.recoveryTimer = setTimeout(async () => {
+      if (this.recoveryDue) await this.recover();
+      this.scheduleRecovery();
+    }, this.ctx.config.recoveryIntervalMs);
+  }
+}
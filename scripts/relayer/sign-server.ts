@@ -0,0 +1,223 @@
+/**
+ * HTTP endpoint that lets other relayers collect this signer's report
+ * signature for FeedProxy.updateRoundDataSigned().
+ *
+ * POST /sign with a SignRequest body. The server never trusts the caller's
+ * data: it looks the destination up on the reactor, re-reads the round from
+ * the origin aggregator and only signs when every field matches. A twap
+ * destination's answer must instead match the TWAP the reactor recorded as
+ * the round's pending forward, as must every field of a composite feed's
+ * round, which has no origin.
+ *
+ * Usage:
+ *   npm run relayer -- sign-server            # RELAYER_SIGN_SERVER_PORT, default 8787
+ */
+
+import * as http from "http";
+import type { Hex } from "viem";
+import { ConfigError } from "./config.js";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, log, logFeed } from "./logger.js";
+import {
+  fetchOriginRound,
+  isComposite,
+  readDestination,
+  readFeedConfig,
+  readPendingForward,
+} from "./pipeline.js";
+import {
+  decodeRound,
+  signReport,
+  type ReportSignature,
+  type SignRequest,
+} from "./signing.js";
+import type { Destination, FeedConfig, RoundData } from "./types.js";
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+class SignRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SignRequestError";
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf-8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new SignRequestError(413, "Request body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+function parseSignRequest(body: string): SignRequest {
+  let parsed: SignRequest;
+  try {
+    parsed = JSON.parse(body) as SignRequest;
+  } catch {
+    throw new SignRequestError(400, "Body must be valid JSON");
+  }
+  if (
+    !/^0x[0-9a-fA-F]{64}$/.test(parsed.feedId ?? "") ||
+    !Number.isInteger(parsed.destination) ||
+    parsed.destination < 0 ||
+    typeof parsed.round !== "object"
+  ) {
+    throw new SignRequestError(400, "Malformed sign request");
+  }
+  return parsed;
+}
+
+/**
+ * Check a round against the origin aggregator, or for a twap destination
+ * its answer against the reactor's TWAP
+ */
+async function assertMatchesOrigin(
+  ctx: RelayerContext,
+  feedId: Hex,
+  config: FeedConfig,
+  request: SignRequest,
+  destination: Destination,
+  round: RoundData
+): Promise<void> {
+  const origin = await fetchOriginRound(ctx, config, round.roundId);
+  let expectedAnswer = origin?.answer;
+  if (destination.twap) {
+    const pending = await readPendingForward(
+      ctx,
+      feedId,
+      request.destination,
+      round.roundId
+    );
+    expectedAnswer = pending?.answer;
+  }
+  if (
+    !origin ||
+    expectedAnswer !== round.answer ||
+    origin.startedAt !== round.startedAt ||
+    origin.updatedAt !== round.updatedAt ||
+    origin.answeredInRound !== round.answeredInRound
+  ) {
+    throw new SignRequestError(
+      409,
+      destination.twap
+        ? `Round ${round.roundId} does not match the origin aggregator and the reactor's TWAP`
+        : `Round ${round.roundId} does not match the origin aggregator`
+    );
+  }
+}
+
+/**
+ * Sign a round only if it matches the origin aggregator, or for a composite
+ * feed the reactor's pending forward
+ */
+export async function handleSignRequest(
+  ctx: RelayerContext,
+  request: SignRequest
+): Promise<ReportSignature> {
+  if (!ctx.reportSigner) {
+    throw new ConfigError("RELAYER_SIGNER_PRIVATE_KEY is required to sign");
+  }
+
+  let round: RoundData;
+  try {
+    round = decodeRound(request.round);
+  } catch {
+    throw new SignRequestError(400, "Round fields must be integers");
+  }
+
+  const feedId = request.feedId as Hex;
+  const config = await readFeedConfig(ctx, feedId);
+  if (config.feedAddress === "0x0000000000000000000000000000000000000000") {
+    throw new SignRequestError(404, `Feed ${feedId} is not registered`);
+  }
+  let destination: Destination;
+  try {
+    destination = await readDestination(ctx, feedId, request.destination);
+  } catch {
+    throw new SignRequestError(
+      404,
+      `Feed ${feedId} has no destination ${request.destination}`
+    );
+  }
+
+  if (isComposite(ctx, config)) {
+    // A composite has no origin; its rounds exist only as the reactor's
+    // pending forwards
+    const pending = await readPendingForward(
+      ctx,
+      feedId,
+      request.destination,
+      round.roundId
+    );
+    if (
+      !pending ||
+      pending.answer !== round.answer ||
+      pending.updatedAt !== round.startedAt ||
+      pending.updatedAt !== round.updatedAt ||
+      round.answeredInRound !== round.roundId
+    ) {
+      throw new SignRequestError(
+        409,
+        `Round ${round.roundId} does not match the reactor's pending forward`
+      );
+    }
+  } else {
+    await assertMatchesOrigin(ctx, feedId, config, request, destination, round);
+  }
+
+  logFeed(
+    feedId,
+    `✍️  Signing round ${round.roundId} for destination ${request.destination}`
+  );
+  return signReport(ctx.reportSigner, destination, round);
+}
+
+export function startSignServer(
+  ctx: RelayerContext,
+  port: number
+): http.Server {
+  if (!ctx.reportSigner) {
+    throw new ConfigError("RELAYER_SIGNER_PRIVATE_KEY is required to sign");
+  }
+
+  const server = http.createServer((request, response) => {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, { "content-type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method !== "POST" || request.url !== "/sign") {
+      reply(404, { error: "Not found" });
+      return;
+    }
+
+    readBody(request)
+      .then((body) => handleSignRequest(ctx, parseSignRequest(body)))
+      .then((signed) => reply(200, signed))
+      .catch((error) => {
+        if (error instanceof SignRequestError) {
+          reply(error.status, { error: error.message });
+        } else {
+          log(`❌ Sign request failed: ${errorMessage(error)}`);
+          reply(500, { error: errorMessage(error) });
+        }
+      });
+  });
+
+  server.listen(port, () => {
+    log(`✍️  Sign server for ${ctx.reportSigner!.address} on port ${port}`);
+  });
+  return server;
+}
@@ -0,0 +1,188 @@
+/**
+ * EIP-712 reports for FeedProxy.updateRoundDataSigned().
+ *
+ * A report is one round signed for one FeedProxy (the domain's
+ * verifyingContract). In signed mode the relayer signs with its own
+ * RELAYER_SIGNER_PRIVATE_KEY, asks every RELAYER_SIGNER_PEERS sign-server for
+ * theirs, and keeps the signatures that recover to the proxy's signer set.
+ */
+
+import {
+  getAddress,
+  recoverTypedDataAddress,
+  type Address,
+  type Hex,
+  type LocalAccount,
+} from "viem";
+import type { RelayerContext } from "./context.js";
+import { errorMessage, logFeed } from "./logger.js";
+import type { Destination, RoundData } from "./types.js";
+
+export const REPORT_TYPES = {
+  Report: [
+    { name: "roundId", type: "uint80" },
+    { name: "answer", type: "int256" },
+    { name: "startedAt", type: "uint256" },
+    { name: "updatedAt", type: "uint256" },
+    { name: "answeredInRound", type: "uint80" },
+  ],
+} as const;
+
+export interface ReportSignature {
+  signer: Address;
+  signature: Hex;
+}
+
+/** Body of a sign-server request; bigints travel as decimal strings */
+export interface SignRequest {
+  feedId: Hex;
+  destination: number;
+  round: Record<keyof RoundData, string>;
+}
+
+function reportTypedData(destination: Destination, round: RoundData) {
+  return {
+    domain: {
+      name: "FeedProxy",
+      version: "1",
+      chainId: destination.chainId,
+      verifyingContract: destination.proxy,
+    },
+    types: REPORT_TYPES,
+    primaryType: "Report" as const,
+    message: {
+      roundId: round.roundId,
+      answer: round.answer,
+      startedAt: round.startedAt,
+      updatedAt: round.updatedAt,
+      answeredInRound: round.answeredInRound,
+    },
+  };
+}
+
+export async function signReport(
+  account: LocalAccount,
+  destination: Destination,
+  round: RoundData
+): Promise<ReportSignature> {
+  const signature = await account.signTypedData(
+    reportTypedData(destination, round)
+  );
+  return { signer: account.address, signature };
+}
+
+export function encodeRound(round: RoundData): SignRequest["round"] {
+  return {
+    roundId: round.roundId.toString(),
+    answer: round.answer.toString(),
+    startedAt: round.startedAt.toString(),
+    updatedAt: round.updatedAt.toString(),
+    answeredInRound: round.answeredInRound.toString(),
+  };
+}
+
+export function decodeRound(round: SignRequest["round"]): RoundData {
+  return {
+    roundId: BigInt(round.roundId),
+    answer: BigInt(round.answer),
+    startedAt: BigInt(round.startedAt),
+    updatedAt: BigInt(round.updatedAt),
+    answeredInRound: BigInt(round.answeredInRound),
+  };
+}
+
+async function requestPeerSignature(
+  peer: string,
+  request: SignRequest
+): Promise<Hex> {
+  const response = await fetch(`${peer}/sign`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(request),
+    signal: AbortSignal.timeout(10_000),
+  });
+  const body = (await response.json()) as { signature?: Hex; error?: string };
+  if (!response.ok || !body.signature) {
+    throw new Error(body.error ?? `HTTP ${response.status}`);
+  }
+  return body.signature;
+}
+
+/**
+ * Gather signatures for a round from this relayer and its peers.
+ *
+ * Only signatures that recover to a current signer of the proxy count, one
+ * per signer. The result holds at most `threshold` of them, ordered by
+ * ascending signer address as updateRoundDataSigned() requires; callers
+ * compare its length with the threshold.
+ */
+export async function collectReportSignatures(
+  ctx: RelayerContext,
+  feedId: Hex,
+  index: number,
+  destination: Destination,
+  round: RoundData
+): Promise<{ signatures: ReportSignature[]; threshold: bigint }> {
+  const reader = ctx.destinationReader(destination.chainId);
+  const [signerSet, threshold] = await Promise.all([
+    reader.readContract({
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      functionName: "getSigners",
+    }) as Promise<Address[]>,
+    reader.readContract({
+      address: destination.proxy,
+      abi: ctx.feedProxyAbi,
+      functionName: "signatureThreshold",
+    }) as Promise<bigint>,
+  ]);
+  const allowed = new Set(signerSet.map((signer) => getAddress(signer)));
+
+  const request: SignRequest = {
+    feedId,
+    destination: index,
+    round: encodeRound(round),
+  };
+  const candidates = await Promise.allSettled([
+    ...(ctx.reportSigner
+      ? [
+          signReport(ctx.reportSigner, destination, round).then(
+            ({ signature }) => signature
+          ),
+        ]
+      : []),
+    ...ctx.config.signerPeers.map((peer) =>
+      requestPeerSignature(peer, request).catch((error) => {
+        throw new Error(`${peer}: ${errorMessage(error)}`);
+      })
+    ),
+  ]);
+
+  const bySigner = new Map<Address, ReportSignature>();
+  for (const candidate of candidates) {
+    if (candidate.status === "rejected") {
+      logFeed(
+        feedId,
+        `⚠️  No report signature: ${errorMessage(candidate.reason)}`
+      );
+      continue;
+    }
+    const signer = await recoverTypedDataAddress({
+      ...reportTypedData(destination, round),
+      signature: candidate.value,
+    });
+    if (!allowed.has(signer)) {
+      logFeed(
+        feedId,
+        `⚠️  Ignoring report signature from ${signer}, not a signer of ${destination.proxy}`
+      );
+      continue;
+    }
+    bySigner.set(signer, { signer, signature: candidate.value });
+  }
+
+  const signatures = [...bySigner.values()]
+    .sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1))
+    .slice(0, Number(threshold));
+  return { signatures, threshold };
+}
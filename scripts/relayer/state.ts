@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Read a JSON file from the relayer state directory, or undefined if missing
+ */
+export function readStateFile<T>(
+  stateDir: string,
+  name: string
+): T | undefined {
+  const filePath = path.join(stateDir, name);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+}
+
+/**
+ * Atomically replace a JSON file in the relayer state directory
+ */
+export function writeStateFile(
+  stateDir: string,
+  name: string,
+  value: unknown
+): void {
+  fs.mkdirSync(stateDir, { recursive: true });
+  const filePath = path.join(stateDir, name);
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Last origin block whose AnswerUpdated logs were fully handled, per chain.
+ * Lets the event watcher catch up on blocks missed while the relayer was down.
+ */
+export class BlockCursorStore {
+  private static readonly FILE = "block-cursors.json";
+  private readonly cursors: Record<string, string>;
+
+  constructor(private readonly stateDir: string) {
+    this.cursors =
+      readStateFile<Record<string, string>>(stateDir, BlockCursorStore.FILE) ??
+      {};
+  }
+
+  get(chainId: bigint): bigint | undefined {
+    const value = this.cursors[chainId.toString()];
+    return value === undefined ? undefined : BigInt(value);
+  }
+
+  set(chainId: bigint, blockNumber: bigint): void {
+    const current = this.get(chainId);
+    if (current !== undefined && current >= blockNumber) return;
+
+    this.cursors[chainId.toString()] = blockNumber.toString();
+    writeStateFile(this.stateDir, BlockCursorStore.FILE, this.cursors);
+  }
+}
@@ -0,0 +1,106 @@
+import type { Address, Hex } from "viem";
+import type {
+  DeviationMode,
+  SkipReason,
+  UpdateReason,
+} from "../../frontend/src/decision.js";
+
+/**
+ * Mirrors ChainlinkFeedReactor.FeedConfig as returned by getFeedConfig()
+ */
+export interface FeedConfig {
+  originChainId: bigint;
+  feedAddress: Address;
+  decimals: number;
+  description: string;
+  deviationThreshold: bigint;
+  heartbeat: bigint;
+  lastProcessedRoundId: bigint;
+  active: boolean;
+  deviationMode: DeviationMode;
+  minDeviation: bigint;
+  maxDeviation: bigint;
+  twapWindow: bigint;
+}
+
+/**
+ * Mirrors ChainlinkFeedReactor.FeedMetrics as returned by getFeedMetrics()
+ */
+export interface FeedMetrics {
+  totalEventsReceived: bigint;
+  updatesForwarded: bigint;
+  updatesSkipped: bigint;
+  deviationTriggered: bigint;
+  heartbeatTriggered: bigint;
+  estimatedGasSaved: bigint;
+  adaptiveTriggered: bigint;
+}
+
+/**
+ * Mirrors ChainlinkFeedReactor.Destination as returned by getDestinations().
+ * Zero deviationThreshold/heartbeat mean "use the feed's setting"; a twap
+ * destination is sent the feed's TWAP instead of each answer.
+ */
+export interface Destination {
+  chainId: bigint;
+  proxy: Address;
+  deviationThreshold: bigint;
+  heartbeat: bigint;
+  lastSentPrice: bigint;
+  lastSentTime: bigint;
+  active: boolean;
+  twap: boolean;
+}
+
+/**
+ * Mirrors ChainlinkFeedReactor.PendingForward as returned by pendingForwards()
+ */
+export interface PendingForward {
+  answer: bigint;
+  updatedAt: bigint;
+  reason: UpdateReason;
+  expiresAt: bigint;
+}
+
+/**
+ * Round tuple returned by AggregatorV3Interface.latestRoundData()/getRoundData()
+ */
+export interface RoundData {
+  roundId: bigint;
+  answer: bigint;
+  startedAt: bigint;
+  updatedAt: bigint;
+  answeredInRound: bigint;
+}
+
+/** What pollFeed() decided for one destination, and how forwarding went */
+export type DestinationOutcome =
+  | { index: number; status: "skipped"; skipReason: SkipReason }
+  | {
+      index: number;
+      status: "forwarded";
+      reason: UpdateReason;
+      destinationTx: Hex;
+    }
+  /** Held back by the proxy's price guards, so not confirmed on the reactor */
+  | {
+      index: number;
+      status: "quarantined";
+      reason: UpdateReason;
+      destinationTx: Hex;
+    }
+  | { index: number; status: "failed"; reason: UpdateReason; error: string };
+
+export type PipelineResult =
+  | { feedId: Hex; status: "inactive" }
+  | { feedId: Hex; status: "react-mode" }
+  | { feedId: Hex; status: "composite" }
+  | { feedId: Hex; status: "already-processed"; roundId: bigint }
+  | { feedId: Hex; status: "failed"; roundId?: bigint; error: string }
+  | {
+      feedId: Hex;
+      status: "polled";
+      roundId: bigint;
+      answer: bigint;
+      destinations: DestinationOutcome[];
+    };
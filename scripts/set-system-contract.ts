@@ -205,14 +205,12 @@ async function main() {
     console.log("✅ System contract address set successfully!");
     console.log("");
     console.log("💡 Next steps:");
-    console.log("   1. Re-register your feed to trigger subscription:");
+    console.log("   1. Existing subscriptions are not moved automatically;");
+    console.log("      call syncSubscription(feedId) for each registered feed");
+    console.log("   2. Audit the subscription set:");
     console.log(
-      "      npx hardhat run scripts/register-feed.ts --network reactive"
+      "      npx hardhat run scripts/verify-subscription.ts --network reactive"
     );
-    console.log(
-      "   2. Or subscribe existing feed manually using subscribeFeed()"
-    );
-    console.log("   3. Verify subscription appears on Reactscan");
   } else {
     console.error("❌ Verification failed - check transaction");
     console.error("   Expected:", systemContractAddress);
@@ -208,6 +208,20 @@ async function main() {
     console.log("   Heartbeat:", heartbeat.toString(), "seconds");
     console.log("");
 
+    // With the timelock on, registration has to be queued
+    const timelockDelay = (await publicClient.readContract({
+      address: reactorAddress as `0x${string}`,
+      abi: reactorAbi,
+      functionName: "timelockDelay",
+    })) as bigint;
+    if (timelockDelay > 0n) {
+      console.error("❌ Error: The reactor's timelock is on");
+      console.log(
+        "   Queue the registration with scripts/register-feed.ts, then run this script again once it has executed"
+      );
+      process.exit(1);
+    }
+
     // Register feed
     console.log("➕ Registering feed...");
     const registerTxHash = await walletClient.writeContract({
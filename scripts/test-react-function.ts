@@ -123,7 +123,7 @@ async function main() {
   console.log("");
 
   try {
-    // Try to call react() - this will fail if reactorOnly modifier restricts it
+    // Try to call react() - this fails unless the wallet is an authorized relayer
     const txHash = await walletClient.writeContract({
       address: reactorAddress as `0x${string}`,
       abi: abi,
@@ -182,7 +182,9 @@ async function main() {
     console.error(error.message);
     console.log("");
     console.log("This could mean:");
-    console.log("  1. reactorOnly modifier is blocking the call");
+    console.log(
+      "  1. The wallet is not an authorized relayer (NotSystemOrRelayer)"
+    );
     console.log("  2. Function reverted for some reason");
     console.log("  3. Invalid LogRecord format");
   }
@@ -0,0 +1,144 @@
+import { network } from "hardhat";
+import { decodeFunctionData, isAddress, type Abi, type Hex } from "viem";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * List and execute queued timelock actions on a FeedProxy or
+ * ChainlinkFeedReactor.
+ *
+ * Environment:
+ *   TIMELOCK_ADDRESS: Contract to inspect (required)
+ *   TIMELOCK_CONTRACT: "FeedProxy" (default) or "ChainlinkFeedReactor"
+ *   TIMELOCK_COMMAND: "list" (default) or "execute"
+ *   TIMELOCK_ACTION_ID: Action to execute; without it every ready action runs
+ *
+ * Usage:
+ *   TIMELOCK_ADDRESS=0x... npx hardhat run scripts/timelock-actions.ts --network bnbTestnet
+ *   TIMELOCK_COMMAND=execute TIMELOCK_CONTRACT=ChainlinkFeedReactor \
+ *     TIMELOCK_ADDRESS=0x... npx hardhat run scripts/timelock-actions.ts --network reactive
+ */
+
+const ARTIFACTS = {
+  FeedProxy: "artifacts/contracts/destination/FeedProxy.sol/FeedProxy.json",
+  ChainlinkFeedReactor:
+    "artifacts/contracts/reactive/ChainlinkFeedReactor.sol/ChainlinkFeedReactor.json",
+} as const;
+
+interface QueuedAction {
+  id: Hex;
+  data: Hex;
+  eta: bigint;
+}
+
+function describeCall(abi: Abi, data: Hex): string {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi, data });
+    const rendered = (args ?? []).map((arg) =>
+      typeof arg === "bigint" ? arg.toString() : JSON.stringify(arg)
+    );
+    return `${functionName}(${rendered.join(", ")})`;
+  } catch {
+    return `unknown call ${data.slice(0, 10)}`;
+  }
+}
+
+async function main() {
+  const address = process.env.TIMELOCK_ADDRESS;
+  if (!address || !isAddress(address)) {
+    throw new Error("TIMELOCK_ADDRESS must be a contract address");
+  }
+  const contractName = (process.env.TIMELOCK_CONTRACT ||
+    "FeedProxy") as keyof typeof ARTIFACTS;
+  if (!(contractName in ARTIFACTS)) {
+    throw new Error(
+      `TIMELOCK_CONTRACT must be one of ${Object.keys(ARTIFACTS).join(", ")}`
+    );
+  }
+  const command = process.env.TIMELOCK_COMMAND || "list";
+  if (command !== "list" && command !== "execute") {
+    throw new Error('TIMELOCK_COMMAND must be "list" or "execute"');
+  }
+
+  const artifact = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), ARTIFACTS[contractName]), "utf-8")
+  );
+  const abi = artifact.abi as Abi;
+
+  const { viem } = await network.connect();
+  const [wallet] = await viem.getWalletClients();
+  const publicClient = await viem.getPublicClient();
+
+  const delay = (await publicClient.readContract({
+    address,
+    abi,
+    functionName: "timelockDelay",
+  })) as bigint;
+  const actions = (await publicClient.readContract({
+    address,
+    abi,
+    functionName: "getQueuedActions",
+  })) as readonly QueuedAction[];
+  const block = await publicClient.getBlock();
+
+  console.log(`⏱️  ${contractName} at ${address}`);
+  console.log(
+    "   Timelock delay:",
+    delay === 0n ? "disabled" : `${delay.toString()} seconds`
+  );
+  console.log("");
+
+  if (actions.length === 0) {
+    console.log("ℹ️  No queued actions");
+    return;
+  }
+
+  console.log(`📋 ${actions.length} queued action(s):`);
+  for (const action of actions) {
+    const ready = block.timestamp >= action.eta;
+    console.log(`   - ${action.id}`);
+    console.log(`     call: ${describeCall(abi, action.data)}`);
+    console.log(
+      `     eta:  ${new Date(Number(action.eta) * 1000).toISOString()} ${
+        ready
+          ? "(ready)"
+          : `(in ${(action.eta - block.timestamp).toString()} seconds)`
+      }`
+    );
+  }
+  console.log("");
+
+  if (command === "list") return;
+
+  const actionId = process.env.TIMELOCK_ACTION_ID as Hex | undefined;
+  const toExecute = actionId
+    ? actions.filter((action) => action.id === actionId)
+    : actions.filter((action) => block.timestamp >= action.eta);
+  if (actionId && toExecute.length === 0) {
+    throw new Error(`Action ${actionId} is not queued`);
+  }
+  if (toExecute.length === 0) {
+    console.log("ℹ️  No action is ready yet");
+    return;
+  }
+
+  for (const action of toExecute) {
+    console.log(`🚀 Executing ${describeCall(abi, action.data)}...`);
+    const hash = await wallet.writeContract({
+      address,
+      abi,
+      functionName: "executeAction",
+      args: [action.id],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    console.log(`✅ Executed in block ${receipt.blockNumber} (${hash})`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Timelock script failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -202,7 +202,7 @@ async function main() {
     address: feedProxyAddress as `0x${string}`,
     abi: feedProxyAbi,
     functionName: "updateRoundData",
-    args: [roundId, answer, updatedAt, answeredInRound],
+    args: [roundId, answer, startedAt, updatedAt, answeredInRound],
   });
 
   console.log("   Transaction:", updateTxHash);
@@ -3,7 +3,7 @@
  *
  * This script checks:
  * 1. Feed registration event (FeedRegistered)
- * 2. Subscription parameters
+ * 2. Subscription set, rebuilt from FeedSubscribed/FeedUnsubscribed events
  * 3. Reactive Network explorer links
  * 4. Recent react() calls (if any)
  *
@@ -12,9 +12,10 @@
  */
 
 import { network } from "hardhat";
-import { getAddress, keccak256, encodePacked, http, createPublicClient, getContract } from "viem";
+import { getAddress, keccak256, encodePacked, http, createPublicClient, getContract, type Address, type Hex, type Log } from "viem";
 import { defineChain } from "viem";
-import { CONFIG } from "../frontend/src/config";
+import { CONFIG } from "../frontend/src/config.js";
+import type { Destination, FeedConfig, FeedMetrics } from "./relayer/types.js";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -40,6 +41,17 @@ const reactiveTestnetChain = defineChain({
   },
 });
 
+/** A decoded FeedRegistered log */
+type FeedRegisteredLog = Log<bigint, number, false> & {
+  args: Partial<{
+    feedId: Hex;
+    originChainId: bigint;
+    feedAddress: Address;
+    destinationChainId: bigint;
+    destinationProxy: Address;
+  }>;
+};
+
 async function main() {
   console.log("🔍 Reactive Network Subscription Verification\n");
   console.log("=".repeat(60));
@@ -93,21 +105,23 @@ async function main() {
   console.log("=".repeat(60));
 
   try {
-    const feedConfig = await reactor.read.getFeedConfig([feedId]);
+    const feedConfig = (await reactor.read.getFeedConfig([feedId])) as FeedConfig;
     console.log("✅ Feed is registered!");
     console.log("");
     console.log("📋 Registration Details:");
     console.log("   Feed ID:", feedId);
     console.log("   Origin Chain ID:", feedConfig.originChainId.toString());
     console.log("   Feed Address:", feedConfig.feedAddress);
-    console.log("   Destination Chain ID:", feedConfig.destinationChainId.toString());
-    console.log("   Destination Proxy:", feedConfig.destinationProxy);
+    const destinations = (await reactor.read.getDestinations([feedId])) as readonly Destination[];
+    for (const [index, destination] of destinations.entries()) {
+      console.log(`   Destination ${index}:`, `chain ${destination.chainId}, proxy ${destination.proxy}${destination.active ? "" : " (inactive)"}`);
+    }
     console.log("   Active:", feedConfig.active);
     console.log("   Description:", feedConfig.description);
     console.log("");
 
     // Check metrics
-    const metrics = await reactor.read.getFeedMetrics([feedId]);
+    const metrics = (await reactor.read.getFeedMetrics([feedId])) as FeedMetrics;
     console.log("📊 Metrics:");
     console.log("   Total Events Received:", metrics.totalEventsReceived.toString());
     console.log("   Updates Forwarded:", metrics.updatesForwarded.toString());
@@ -134,16 +148,16 @@ async function main() {
     const currentBlock = await reactivePublicClient.getBlockNumber();
     const fromBlock = currentBlock - 100000n; // Last ~100k blocks
 
-    const feedRegisteredEvents = await reactivePublicClient.getLogs({
+    const feedRegisteredEvents = (await reactivePublicClient.getLogs({
       address: reactorAddress,
       event: reactorAbi.find((e: any) => e.name === "FeedRegistered") as any,
       fromBlock,
       toBlock: currentBlock,
-    });
+    })) as FeedRegisteredLog[];
 
     if (feedRegisteredEvents.length > 0) {
       const registrationEvent = feedRegisteredEvents.find(
-        (e: any) => e.args.feedId?.toLowerCase() === feedId.toLowerCase()
+        (e) => e.args.feedId?.toLowerCase() === feedId.toLowerCase()
       ) || feedRegisteredEvents[feedRegisteredEvents.length - 1];
 
       if (registrationEvent) {
@@ -180,23 +194,73 @@ async function main() {
 
   console.log("");
   console.log("=".repeat(60));
-  console.log("3️⃣  Subscription Parameters");
+  console.log("3️⃣  Auditing Subscription Set");
   console.log("=".repeat(60));
 
   // Chainlink's AnswerUpdated event signature
   const ANSWER_UPDATED_TOPIC_0 = "0x0559884fd3a460db3073b7fc896cc77986f16e378210ded43186175bf646fc5f";
-  const REACTIVE_IGNORE = "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff";
+  const REACTIVE_IGNORE = "0xa65f96fc951c35ead38878e0f0b7a3c744a6f5ccc1476b313353ce31712313ad";
 
-  console.log("📋 Expected Subscription Parameters:");
-  console.log("   Chain ID:", originChainId.toString(), "(Sepolia)");
-  console.log("   Contract Address:", originFeedAddress);
+  console.log("📋 Subscription Parameters (per feed):");
   console.log("   Event Signature (Topic 0):", ANSWER_UPDATED_TOPIC_0);
-  console.log("   Topic 1 Filter:", REACTIVE_IGNORE, "(ignore - match any)");
-  console.log("   Topic 2 Filter:", REACTIVE_IGNORE, "(ignore - match any)");
-  console.log("   Topic 3 Filter:", REACTIVE_IGNORE, "(ignore - match any)");
+  console.log("   Topic 1-3 Filters:", REACTIVE_IGNORE, "(ignore - match any)");
   console.log("");
-  console.log("💡 These parameters should match what Reactive Network has registered");
-  console.log("   The subscribe() function was called with these values during feed registration");
+
+  let subscriptionMismatches = 0;
+  try {
+    const systemContract = await reactor.read.getSystemContract();
+    console.log("🛠️  System Contract:", systemContract);
+    console.log("");
+
+    // Replay FeedSubscribed/FeedUnsubscribed to rebuild the subscription set
+    const currentBlock = await reactivePublicClient.getBlockNumber();
+    const fromBlock = currentBlock > 100000n ? currentBlock - 100000n : 0n;
+    const subscriptionLogs = await reactivePublicClient.getLogs({
+      address: reactorAddress,
+      events: reactorAbi.filter(
+        (e: any) => e.name === "FeedSubscribed" || e.name === "FeedUnsubscribed"
+      ) as any,
+      fromBlock,
+      toBlock: currentBlock,
+    });
+
+    const eventSet = new Map<string, boolean>();
+    for (const log of subscriptionLogs as any[]) {
+      eventSet.set(log.args.feedId.toLowerCase(), log.eventName === "FeedSubscribed");
+    }
+
+    const allFeeds = (await reactor.read.getAllFeeds()) as `0x${string}`[];
+    for (const id of allFeeds) {
+      const config = (await reactor.read.getFeedConfig([id])) as FeedConfig;
+      const triggerMode = Number(await reactor.read.triggerModes([id]));
+      const subscribed = await reactor.read.subscriptions([id]);
+      // Composites, whose feedAddress is the reactor, have no origin logs to subscribe to
+      const composite = config.feedAddress.toLowerCase() === reactorAddress.toLowerCase();
+      const expected = config.active && triggerMode !== 1 && !composite; // TriggerMode.Poll
+      const fromEvents = eventSet.get(id.toLowerCase());
+
+      const ok = subscribed === expected && (fromEvents === undefined || fromEvents === subscribed);
+      if (!ok) subscriptionMismatches++;
+
+      console.log(`${ok ? "✅" : "❌"} ${config.description} (${id})`);
+      console.log("   Chain ID:", config.originChainId.toString(), "Contract:", config.feedAddress);
+      console.log("   Subscribed (state):", subscribed, "| expected:", expected);
+      console.log(
+        "   Subscribed (events):",
+        fromEvents === undefined ? "no events in range" : fromEvents
+      );
+    }
+
+    console.log("");
+    if (subscriptionMismatches === 0) {
+      console.log("✅ Subscription set matches feed state");
+    } else {
+      console.log(`❌ ${subscriptionMismatches} feed(s) out of sync`);
+      console.log("   💡 Call syncSubscription(feedId) as owner to re-apply");
+    }
+  } catch (error: any) {
+    console.log("⚠️  Error auditing subscriptions:", error.message);
+  }
 
   console.log("");
   console.log("=".repeat(60));
@@ -281,13 +345,18 @@ async function main() {
   console.log("6️⃣  Subscription Status Summary");
   console.log("=".repeat(60));
 
-  const metrics = await reactor.read.getFeedMetrics([feedId]);
-  const feedConfig = await reactor.read.getFeedConfig([feedId]);
+  const metrics = (await reactor.read.getFeedMetrics([feedId])) as FeedMetrics;
+  const feedConfig = (await reactor.read.getFeedConfig([feedId])) as FeedConfig;
+  const subscribed = await reactor.read.subscriptions([feedId]);
 
   console.log("");
   if (metrics.totalEventsReceived > 0n) {
     console.log("✅ SUBSCRIPTION IS ACTIVE");
     console.log("   Events are being received and processed");
+  } else if (feedConfig.active && !subscribed) {
+    console.log("❌ SUBSCRIPTION IS MISSING");
+    console.log("   Feed is active but the reactor holds no subscription");
+    console.log("   Check the system contract, then call syncSubscription()");
   } else if (feedConfig.active) {
     console.log("⚠️  SUBSCRIPTION STATUS: UNKNOWN");
     console.log("   Feed is registered but no events received yet");
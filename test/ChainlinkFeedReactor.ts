@@ -1,16 +1,47 @@
 import assert from "node:assert/strict";
 import { describe, it, before } from "node:test";
 import { network } from "hardhat";
-import { parseUnits, encodeAbiParameters, parseAbiParameters } from "viem";
+import {
+  parseUnits,
+  decodeErrorResult,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  keccak256,
+  parseAbiParameters,
+  parseEventLogs,
+  toHex,
+  zeroAddress,
+} from "viem";
 import { getAddress, type Address } from "viem";
+import {
+  adaptiveThreshold,
+  calculateTwap,
+  DeviationMode,
+  UpdateReason,
+} from "../frontend/src/decision.js";
+import {
+  DECISION_HISTORY_SIZE,
+  describeDecision,
+  fetchDecisions,
+} from "../frontend/src/history.js";
 
 describe("ChainlinkFeedReactor", async function () {
-  const { viem } = await network.connect();
+  const { viem, networkHelpers } = await network.connect();
   const publicClient = await viem.getPublicClient();
   const [owner, user] = await viem.getWalletClients();
 
   let reactor: any;
   let feedProxy: any;
+  let systemContract: any;
+  // External libraries the reactor is linked against
+  let libraries: Record<string, Address>;
+
+  const deployReactor = (systemContractAddress: Address) =>
+    viem.deployContract("ChainlinkFeedReactor", [systemContractAddress], {
+      libraries,
+    });
 
   const originChainId = 11155111n; // Sepolia
   const destinationChainId = 84532n; // Base Sepolia
@@ -24,8 +55,35 @@ describe("ChainlinkFeedReactor", async function () {
   const ANSWER_UPDATED_TOPIC_0 =
     0x0559884fd3a460db3073b7fc896cc77986f16e378210ded43186175bf646fc5fn;
 
+  // IReactive.LogRecord for an AnswerUpdated log emitted by `feed`
+  const answerUpdatedLog = (
+    feed: Address,
+    current: bigint,
+    roundId: bigint,
+    data: `0x${string}`
+  ) => ({
+    chain_id: originChainId,
+    _contract: feed,
+    topic_0: ANSWER_UPDATED_TOPIC_0,
+    topic_1: current,
+    topic_2: roundId,
+    topic_3: 0n,
+    data,
+    block_number: 0n,
+    op_code: 0n,
+    block_hash: 0n,
+    tx_hash: 0n,
+    log_index: 0n,
+  });
+
   before(async function () {
-    reactor = await viem.deployContract("ChainlinkFeedReactor");
+    systemContract = await viem.deployContract("SystemContractMock");
+    libraries = {
+      AdminTimelock: (await viem.deployContract("AdminTimelock")).address,
+      DerivedFeeds: (await viem.deployContract("DerivedFeeds")).address,
+      FeedArchive: (await viem.deployContract("FeedArchive")).address,
+    };
+    reactor = await deployReactor(systemContract.address);
 
     // Deploy a FeedProxy for testing
     feedProxy = await viem.deployContract("FeedProxy", [
@@ -82,7 +140,7 @@ describe("ChainlinkFeedReactor", async function () {
     });
 
     it("Should revert when non-owner tries to register feed", async function () {
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -96,12 +154,13 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: user.account }
         ),
-        /Not owner/
+        reactor,
+        "NotOwner"
       );
     });
 
     it("Should revert with invalid feed address", async function () {
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -115,12 +174,13 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Invalid feed address/
+        reactor,
+        "InvalidFeedAddress"
       );
     });
 
     it("Should revert with invalid proxy address", async function () {
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -134,12 +194,13 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Invalid proxy address/
+        reactor,
+        "InvalidProxyAddress"
       );
     });
 
     it("Should revert with invalid deviation threshold", async function () {
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -153,10 +214,11 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Invalid deviation/
+        reactor,
+        "InvalidDeviation"
       );
 
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -170,12 +232,13 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Invalid deviation/
+        reactor,
+        "InvalidDeviation"
       );
     });
 
     it("Should revert with heartbeat too short", async function () {
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -189,7 +252,8 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Heartbeat too short/
+        reactor,
+        "HeartbeatTooShort"
       );
     });
 
@@ -213,7 +277,7 @@ describe("ChainlinkFeedReactor", async function () {
       );
 
       // Try to register the same feed again
-      await assert.rejects(
+      await viem.assertions.revertWithCustomError(
         reactor.write.registerFeed(
           [
             originChainId,
@@ -227,7 +291,8 @@ describe("ChainlinkFeedReactor", async function () {
           ],
           { account: owner.account }
         ),
-        /Feed already registered/
+        reactor,
+        "FeedAlreadyRegistered"
       );
     });
 
@@ -290,21 +355,12 @@ describe("ChainlinkFeedReactor", async function () {
 
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n, // block_number
-            0n, // op_code
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "UpdateForwarded",
-        [feedId, testRoundId, testPrice, testUpdatedAt, 0n] // UpdateReason.FirstUpdate = 0
+        [feedId, 0n, testRoundId, testPrice, testUpdatedAt, 0] // UpdateReason.FirstUpdate = 0
       );
 
       // Check metrics
@@ -323,22 +379,88 @@ describe("ChainlinkFeedReactor", async function () {
 
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n,
-            0n,
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "Callback",
-        [destinationChainId, feedProxy.address, 0n]
+        [
+          destinationChainId,
+          getAddress(feedProxy.address),
+          1000000n,
+          encodeFunctionData({
+            abi: feedProxy.abi,
+            functionName: "updateRoundDataCallback",
+            args: [
+              zeroAddress,
+              topic2,
+              topic1,
+              testUpdatedAt + 1n,
+              testUpdatedAt + 1n,
+              topic2,
+            ],
+          }),
+        ]
+      );
+    });
+
+    it("Should deliver the Callback payload through the proxy's callback entry", async function () {
+      const [callback] = (await publicClient.getContractEvents({
+        address: reactor.address,
+        abi: reactor.abi,
+        eventName: "Callback",
+        fromBlock: await publicClient.getBlockNumber(),
+      })) as any[];
+      const { functionName, args } = decodeFunctionData({
+        abi: feedProxy.abi,
+        data: callback.args.payload,
+      });
+      assert.equal(functionName, "updateRoundDataCallback");
+      assert.equal(args[0], zeroAddress);
+
+      // Reactive Network fills in the reactor's RVM ID, i.e. its deployer,
+      // and the callback proxy (user here) delivers the payload
+      const rvmId = owner.account.address;
+      const delivered = encodeFunctionData({
+        abi: feedProxy.abi,
+        functionName: "updateRoundDataCallback",
+        args: [rvmId, ...args.slice(1)],
+      });
+      const destination = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await destination.write.setReactiveCallback(
+        [user.account.address, rvmId],
+        {
+          account: owner.account,
+        }
+      );
+      if ((await networkHelpers.time.latest()) < Number(args[4])) {
+        await networkHelpers.time.increaseTo(Number(args[4]));
+      }
+
+      await viem.assertions.revertWithCustomError(
+        owner.sendTransaction({ to: destination.address, data: delivered }),
+        destination,
+        "Unauthorized"
+      );
+      await viem.assertions.revertWithCustomError(
+        user.sendTransaction({
+          to: destination.address,
+          data: callback.args.payload,
+        }),
+        destination,
+        "Unauthorized"
       );
+
+      await user.sendTransaction({ to: destination.address, data: delivered });
+      const [roundId, answer, , updatedAt] =
+        await destination.read.latestRoundData();
+      assert.equal(roundId, testRoundId + 1n);
+      assert.equal(answer, parseUnits("3100", decimals));
+      assert.equal(updatedAt, testUpdatedAt + 1n);
     });
 
     it("Should skip update with insufficient deviation", async function () {
@@ -352,21 +474,12 @@ describe("ChainlinkFeedReactor", async function () {
 
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n,
-            0n,
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "UpdateSkipped",
-        [feedId, topic2, newPrice, 0n] // SkipReason.InsufficientDeviation = 0
+        [feedId, 0n, topic2, newPrice, 0] // SkipReason.InsufficientDeviation = 0
       );
 
       const metrics = await reactor.read.getFeedMetrics([feedId]);
@@ -384,21 +497,12 @@ describe("ChainlinkFeedReactor", async function () {
 
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n,
-            0n,
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "UpdateForwarded",
-        [feedId, topic2, newPrice, testUpdatedAt + 3n, 1n] // UpdateReason.DeviationThreshold = 1
+        [feedId, 0n, topic2, newPrice, testUpdatedAt + 3n, 1] // UpdateReason.DeviationThreshold = 1
       );
 
       const metrics = await reactor.read.getFeedMetrics([feedId]);
@@ -414,27 +518,18 @@ describe("ChainlinkFeedReactor", async function () {
 
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n,
-            0n,
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "UpdateSkipped",
-        [feedId, topic2, 0n, 2n] // SkipReason.InvalidData = 2
+        [feedId, 0n, topic2, 0n, 2] // SkipReason.InvalidData = 2
       );
     });
 
     it("Should forward update when heartbeat expires", async function () {
-      // Simulate time passing by using a future timestamp
-      const futureTime = testUpdatedAt + heartbeat + 1n;
+      // Simulate time passing: one heartbeat after the last forwarded round
+      const futureTime = testUpdatedAt + 3n + heartbeat;
 
       // First, update with a small change that would normally be skipped
       const smallPrice = parseUnits("3201", decimals);
@@ -447,21 +542,12 @@ describe("ChainlinkFeedReactor", async function () {
       // This should forward due to heartbeat expiration
       await viem.assertions.emitWithArgs(
         reactor.write.react(
-          [
-            originChainId,
-            testFeedAddress,
-            ANSWER_UPDATED_TOPIC_0,
-            topic1,
-            topic2,
-            data,
-            0n,
-            0n,
-          ],
+          [answerUpdatedLog(testFeedAddress, topic1, topic2, data)],
           { account: owner.account }
         ),
         reactor,
         "UpdateForwarded",
-        [feedId, topic2, smallPrice, futureTime, 2n] // UpdateReason.HeartbeatExpired = 2
+        [feedId, 0n, topic2, smallPrice, futureTime, 2] // UpdateReason.HeartbeatExpired = 2
       );
 
       const metrics = await reactor.read.getFeedMetrics([feedId]);
@@ -479,16 +565,7 @@ describe("ChainlinkFeedReactor", async function () {
 
       // Should not emit any events
       await reactor.write.react(
-        [
-          originChainId,
-          unregisteredFeed,
-          ANSWER_UPDATED_TOPIC_0,
-          topic1,
-          topic2,
-          data,
-          0n,
-          0n,
-        ],
+        [answerUpdatedLog(unregisteredFeed, topic1, topic2, data)],
         { account: owner.account }
       );
 
@@ -500,39 +577,2175 @@ describe("ChainlinkFeedReactor", async function () {
         metricsAfter.totalEventsReceived
       );
     });
+
+    it("Should only accept react() from the system contract and relayers", async function () {
+      const config = await reactor.read.getFeedConfig([feedId]);
+      const metricsBefore = await reactor.read.getFeedMetrics([feedId]);
+      const data = encodeAbiParameters(parseAbiParameters("uint256"), [
+        testUpdatedAt + heartbeat,
+      ]);
+
+      // A forged round ID near uint80's limit would block every later round
+      await viem.assertions.revertWithCustomError(
+        reactor.write.react(
+          [answerUpdatedLog(testFeedAddress, testPrice, 2n ** 79n, data)],
+          { account: user.account }
+        ),
+        reactor,
+        "NotSystemOrRelayer"
+      );
+      assert.equal(
+        (await reactor.read.getFeedConfig([feedId])).lastProcessedRoundId,
+        config.lastProcessedRoundId
+      );
+
+      await networkHelpers.impersonateAccount(systemContract.address);
+      await networkHelpers.setBalance(systemContract.address, 10n ** 18n);
+      const service = await viem.getWalletClient(systemContract.address);
+      await reactor.write.react(
+        [
+          answerUpdatedLog(
+            testFeedAddress,
+            testPrice,
+            config.lastProcessedRoundId + 1n,
+            data
+          ),
+        ],
+        { account: service.account }
+      );
+      await networkHelpers.stopImpersonatingAccount(systemContract.address);
+
+      assert.equal(
+        (await reactor.read.getFeedConfig([feedId])).lastProcessedRoundId,
+        config.lastProcessedRoundId + 1n
+      );
+      assert.equal(
+        (await reactor.read.getFeedMetrics([feedId])).totalEventsReceived,
+        metricsBefore.totalEventsReceived + 1n
+      );
+    });
+
+    it("Should ignore react() for feeds in poll mode", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.setTriggerMode([feedId, 1], { account: owner.account }),
+        reactor,
+        "TriggerModeUpdated",
+        [feedId, 1] // TriggerMode.Poll = 1
+      );
+
+      const metricsBefore = await reactor.read.getFeedMetrics([feedId]);
+      const data = encodeAbiParameters(parseAbiParameters("uint256"), [
+        testUpdatedAt + 2n * heartbeat,
+      ]);
+      await reactor.write.react(
+        [
+          answerUpdatedLog(
+            testFeedAddress,
+            BigInt(parseUnits("5000", decimals)),
+            testRoundId + 10n,
+            data
+          ),
+        ],
+        { account: owner.account }
+      );
+
+      const metricsAfter = await reactor.read.getFeedMetrics([feedId]);
+      assert.equal(
+        metricsAfter.totalEventsReceived,
+        metricsBefore.totalEventsReceived
+      );
+    });
+
+    it("Should reject pollFeed() for feeds in react mode", async function () {
+      await reactor.write.setTriggerMode([feedId, 2], {
+        account: owner.account,
+      });
+
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeed(
+          [
+            feedId,
+            testRoundId + 11n,
+            parseUnits("5000", decimals),
+            testUpdatedAt,
+            testRoundId + 11n,
+          ],
+          { account: owner.account }
+        ),
+        reactor,
+        "FeedInReactMode"
+      );
+
+      await reactor.write.setTriggerMode([feedId, 0], {
+        account: owner.account,
+      });
+    });
+
+    it("Should revert when non-owner sets the trigger mode", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.setTriggerMode([feedId, 1], { account: user.account }),
+        reactor,
+        "NotOwner"
+      );
+    });
   });
 
-  describe("View Functions", function () {
-    it("Should return feed config", async function () {
+  describe("Subscriptions", function () {
+    const subFeedAddress =
+      "0x5555555555555555555555555555555555555555" as Address;
+    let feedId: `0x${string}`;
+
+    it("Should subscribe to AnswerUpdated when a feed is registered", async function () {
+      const countBefore = await systemContract.read.subscriptionCount();
+      const hash = await reactor.write.registerFeed(
+        [
+          originChainId,
+          subFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      await publicClient.waitForTransactionReceipt({ hash });
+
       const allFeeds = await reactor.read.getAllFeeds();
-      if (allFeeds.length > 0) {
-        const config = await reactor.read.getFeedConfig([allFeeds[0]]);
-        assert(
-          config.feedAddress !== "0x0000000000000000000000000000000000000000"
-        );
-        assert(config.active === true);
-      }
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
+
+      assert.equal(await reactor.read.subscriptions([feedId]), true);
+      assert.equal(
+        await systemContract.read.subscriptionCount(),
+        countBefore + 1n
+      );
+      const events = await publicClient.getContractEvents({
+        address: systemContract.address,
+        abi: systemContract.abi,
+        eventName: "Subscribed",
+        blockHash: (await publicClient.getTransactionReceipt({ hash }))
+          .blockHash,
+      });
+      assert.equal(events.length, 1);
+      assert.equal(events[0].args.chainId, originChainId);
+      assert.equal(events[0].args._contract, getAddress(subFeedAddress));
+      assert.equal(events[0].args.topic0, ANSWER_UPDATED_TOPIC_0);
     });
 
-    it("Should return feed metrics", async function () {
+    it("Should unsubscribe when the feed is deactivated", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.setFeedActive([feedId, false], {
+          account: owner.account,
+        }),
+        reactor,
+        "FeedUnsubscribed",
+        [feedId, originChainId, getAddress(subFeedAddress)]
+      );
+      assert.equal(await reactor.read.subscriptions([feedId]), false);
+    });
+
+    it("Should resubscribe when the feed is re-activated", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.setFeedActive([feedId, true], {
+          account: owner.account,
+        }),
+        reactor,
+        "FeedSubscribed",
+        [feedId, originChainId, getAddress(subFeedAddress)]
+      );
+      assert.equal(await reactor.read.subscriptions([feedId]), true);
+    });
+
+    it("Should unsubscribe while the feed is in poll mode", async function () {
+      await viem.assertions.emit(
+        reactor.write.setTriggerMode([feedId, 1], { account: owner.account }),
+        reactor,
+        "FeedUnsubscribed"
+      );
+      await viem.assertions.emit(
+        reactor.write.setTriggerMode([feedId, 0], { account: owner.account }),
+        reactor,
+        "FeedSubscribed"
+      );
+    });
+
+    it("Should not subscribe without a system contract", async function () {
+      const standalone = await deployReactor(
+        "0x0000000000000000000000000000000000000000"
+      );
+      await standalone.write.registerFeed(
+        [
+          originChainId,
+          subFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const [standaloneFeedId] = await standalone.read.getAllFeeds();
+      assert.equal(
+        await standalone.read.subscriptions([standaloneFeedId]),
+        false
+      );
+    });
+
+    it("Should revert when non-owner changes the system contract", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.setSystemContract([user.account.address], {
+          account: user.account,
+        }),
+        reactor,
+        "NotOwner"
+      );
+    });
+  });
+
+  describe("Relayer Access Control", function () {
+    const relayerFeedAddress =
+      "0x6666666666666666666666666666666666666666" as Address;
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    let feedId: `0x${string}`;
+
+    const pollAs = (account: any, roundId: bigint) =>
+      reactor.write.pollFeed(
+        [feedId, roundId, parseUnits("3000", decimals), testUpdatedAt, roundId],
+        { account }
+      );
+
+    before(async function () {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          relayerFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
       const allFeeds = await reactor.read.getAllFeeds();
-      if (allFeeds.length > 0) {
-        const metrics = await reactor.read.getFeedMetrics([allFeeds[0]]);
-        assert.equal(typeof metrics.totalEventsReceived, "bigint");
-        assert.equal(typeof metrics.updatesForwarded, "bigint");
-        assert.equal(typeof metrics.updatesSkipped, "bigint");
-      }
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
     });
 
-    it("Should return all feed IDs", async function () {
-      const feedIds = await reactor.read.getAllFeeds();
-      assert(Array.isArray(feedIds));
-      assert(feedIds.length > 0);
+    it("Should authorize the deployer as a relayer", async function () {
+      assert.equal(
+        await reactor.read.authorizedRelayers([owner.account.address]),
+        true
+      );
     });
 
-    it("Should return correct feed count", async function () {
-      const count = await reactor.read.getFeedCount();
-      assert(count > 0n);
+    it("Should reject pollFeed() from unauthorized callers", async function () {
+      await viem.assertions.revertWithCustomError(
+        pollAs(user.account, 1n),
+        reactor,
+        "NotAuthorizedRelayer"
+      );
+    });
+
+    it("Should reject confirmForward() from unauthorized callers", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 0n, 1n], {
+          account: user.account,
+        }),
+        reactor,
+        "NotAuthorizedRelayer"
+      );
+    });
+
+    it("Should let the owner add and remove relayers", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.addAuthorizedRelayer([user.account.address], {
+          account: owner.account,
+        }),
+        reactor,
+        "AuthorizedRelayerUpdated",
+        [getAddress(user.account.address), true]
+      );
+      await pollAs(user.account, 1n);
+
+      await viem.assertions.emitWithArgs(
+        reactor.write.removeAuthorizedRelayer([user.account.address], {
+          account: owner.account,
+        }),
+        reactor,
+        "AuthorizedRelayerUpdated",
+        [getAddress(user.account.address), false]
+      );
+      await viem.assertions.revertWithCustomError(
+        pollAs(user.account, 2n),
+        reactor,
+        "NotAuthorizedRelayer"
+      );
+    });
+
+    it("Should revert when non-owner manages relayers", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.addAuthorizedRelayer([user.account.address], {
+          account: user.account,
+        }),
+        reactor,
+        "NotOwner"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.removeAuthorizedRelayer([owner.account.address], {
+          account: user.account,
+        }),
+        reactor,
+        "NotOwner"
+      );
+    });
+
+    it("Should revert when adding the zero address", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.addAuthorizedRelayer(
+          ["0x0000000000000000000000000000000000000000"],
+          { account: owner.account }
+        ),
+        reactor,
+        "InvalidAddress"
+      );
+    });
+  });
+
+  describe("Pending Forwards", function () {
+    const pendingFeedAddress =
+      "0x7777777777777777777777777777777777777777" as Address;
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    let feedId: `0x${string}`;
+
+    const poll = (roundId: bigint, answer: bigint, updatedAt: bigint) =>
+      reactor.write.pollFeed([feedId, roundId, answer, updatedAt, roundId], {
+        account: owner.account,
+      });
+
+    before(async function () {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          pendingFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
+    });
+
+    it("Should record a pending forward when pollFeed() forwards", async function () {
+      await poll(1n, testPrice, testUpdatedAt);
+
+      const [answer, updatedAt, reason, expiresAt] =
+        await reactor.read.pendingForwards([feedId, 0n, 1n]);
+      assert.equal(answer, testPrice);
+      assert.equal(updatedAt, testUpdatedAt);
+      assert.equal(reason, 0); // UpdateReason.FirstUpdate
+      assert(expiresAt > 0n);
+
+      const destination = await reactor.read.getDestination([feedId, 0n]);
+      assert.equal(destination.lastSentPrice, 0n);
+    });
+
+    it("Should reject confirmForward() for a round without a pending forward", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 0n, 2n], {
+          account: owner.account,
+        }),
+        reactor,
+        "NoPendingForward"
+      );
+    });
+
+    it("Should settle the pending forward on confirmForward()", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.confirmForward([feedId, 0n, 1n], {
+          account: owner.account,
+        }),
+        reactor,
+        "ForwardConfirmed",
+        [feedId, 0n, 1n]
+      );
+
+      const destination = await reactor.read.getDestination([feedId, 0n]);
+      assert.equal(destination.lastSentPrice, testPrice);
+      assert.equal(destination.lastSentTime, testUpdatedAt);
+      const metrics = await reactor.read.getFeedMetrics([feedId]);
+      assert.equal(metrics.updatesForwarded, 1n);
+
+      const [, , , expiresAt] = await reactor.read.pendingForwards([
+        feedId,
+        0n,
+        1n,
+      ]);
+      assert.equal(expiresAt, 0n);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 0n, 1n], {
+          account: owner.account,
+        }),
+        reactor,
+        "NoPendingForward"
+      );
+    });
+
+    it("Should reject confirmForward() once the pending forward expired", async function () {
+      const ttl = await reactor.read.PENDING_FORWARD_TTL();
+      await poll(2n, testPrice, testUpdatedAt + heartbeat);
+
+      await viem.assertions.revertWithCustomError(
+        reactor.write.clearExpiredForward([feedId, 0n, 2n]),
+        reactor,
+        "ForwardNotExpired"
+      );
+
+      await networkHelpers.time.increase(ttl + 1n);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 0n, 2n], {
+          account: owner.account,
+        }),
+        reactor,
+        "ForwardExpired"
+      );
+
+      await viem.assertions.emitWithArgs(
+        reactor.write.clearExpiredForward([feedId, 0n, 2n], {
+          account: user.account,
+        }),
+        reactor,
+        "PendingForwardExpired",
+        [feedId, 0n, 2n]
+      );
+      const destination = await reactor.read.getDestination([feedId, 0n]);
+      assert.equal(destination.lastSentTime, testUpdatedAt);
+    });
+
+    it("Should let only the owner realign last-sent state", async function () {
+      const realignedPrice = parseUnits("3100", decimals);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.realignLastSent([feedId, 0n, realignedPrice, 1n], {
+          account: user.account,
+        }),
+        reactor,
+        "NotOwner"
+      );
+
+      const metricsBefore = await reactor.read.getFeedMetrics([feedId]);
+      await viem.assertions.emitWithArgs(
+        reactor.write.realignLastSent(
+          [feedId, 0n, realignedPrice, testUpdatedAt + 1n],
+          { account: owner.account }
+        ),
+        reactor,
+        "LastSentRealigned",
+        [feedId, 0n, realignedPrice, testUpdatedAt + 1n]
+      );
+      const destination = await reactor.read.getDestination([feedId, 0n]);
+      assert.equal(destination.lastSentPrice, realignedPrice);
+      const metricsAfter = await reactor.read.getFeedMetrics([feedId]);
+      assert.equal(
+        metricsAfter.updatesForwarded,
+        metricsBefore.updatesForwarded
+      );
+    });
+  });
+
+  describe("Multiple Destinations", function () {
+    const multiFeedAddress =
+      "0x8888888888888888888888888888888888888888" as Address;
+    const bnbTestnetChainId = 97n;
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    let feedId: `0x${string}`;
+    let secondProxy: any;
+
+    const poll = (roundId: bigint, answer: bigint, updatedAt: bigint) =>
+      reactor.write.pollFeed([feedId, roundId, answer, updatedAt, roundId], {
+        account: owner.account,
+      });
+
+    before(async function () {
+      secondProxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          multiFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
+    });
+
+    it("Should add a destination with its own overrides", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.addDestination(
+          [feedId, bnbTestnetChainId, secondProxy.address, 200n, 600n],
+          { account: owner.account }
+        ),
+        reactor,
+        "DestinationAdded",
+        [
+          feedId,
+          1n,
+          bnbTestnetChainId,
+          getAddress(secondProxy.address),
+          200n,
+          600n,
+          false,
+        ]
+      );
+
+      assert.equal(await reactor.read.getDestinationCount([feedId]), 2n);
+      const [first, second] = await reactor.read.getDestinations([feedId]);
+      assert.equal(first.chainId, destinationChainId);
+      assert.equal(first.deviationThreshold, 0n); // feed default
+      assert.equal(second.chainId, bnbTestnetChainId);
+      assert.equal(second.proxy, getAddress(secondProxy.address));
+      assert.equal(second.deviationThreshold, 200n);
+    });
+
+    it("Should reject duplicate destinations and non-owner changes", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.addDestination(
+          [feedId, bnbTestnetChainId, secondProxy.address, 0n, 0n],
+          { account: owner.account }
+        ),
+        reactor,
+        "DestinationAlreadyAdded"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.addDestination(
+          [feedId, 1n, secondProxy.address, 0n, 0n],
+          {
+            account: user.account,
+          }
+        ),
+        reactor,
+        "NotOwner"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.setDestinationActive([feedId, 5n, false], {
+          account: owner.account,
+        }),
+        reactor,
+        "UnknownDestination"
+      );
+    });
+
+    it("Should decide and confirm each destination separately", async function () {
+      // First round forwards to both destinations
+      await poll(1n, testPrice, testUpdatedAt);
+      await reactor.write.confirmForward([feedId, 0n, 1n], {
+        account: owner.account,
+      });
+      await reactor.write.confirmForward([feedId, 1n, 1n], {
+        account: owner.account,
+      });
+
+      // 1% move: above the feed's 0.5% default, below the 2% override
+      const movedPrice = (testPrice * 101n) / 100n;
+      const hash = await poll(2n, movedPrice, testUpdatedAt + 60n);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: reactor.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+      // Skips are emitted while deciding, forwards afterwards
+      assert.deepEqual(
+        events.map((e) => [e.eventName, e.args.destinationIndex]),
+        [
+          ["UpdateSkipped", 1n],
+          ["UpdateForwarded", 0n],
+        ]
+      );
+
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 1n, 2n], {
+          account: owner.account,
+        }),
+        reactor,
+        "NoPendingForward"
+      );
+      await reactor.write.confirmForward([feedId, 0n, 2n], {
+        account: owner.account,
+      });
+
+      const [first, second] = await reactor.read.getDestinations([feedId]);
+      assert.equal(first.lastSentPrice, movedPrice);
+      assert.equal(second.lastSentPrice, testPrice);
+
+      const firstMetrics = await reactor.read.getDestinationMetrics([
+        feedId,
+        0n,
+      ]);
+      const secondMetrics = await reactor.read.getDestinationMetrics([
+        feedId,
+        1n,
+      ]);
+      assert.equal(firstMetrics.updatesForwarded, 2n);
+      assert.equal(firstMetrics.deviationTriggered, 1n);
+      assert.equal(secondMetrics.updatesForwarded, 1n);
+      assert.equal(secondMetrics.updatesSkipped, 1n);
+
+      const feedMetrics = await reactor.read.getFeedMetrics([feedId]);
+      assert.equal(feedMetrics.totalEventsReceived, 2n);
+      assert.equal(feedMetrics.updatesForwarded, 3n);
+    });
+
+    it("Should emit a Callback per destination from react()", async function () {
+      const hash = await reactor.write.react(
+        [
+          answerUpdatedLog(
+            multiFeedAddress,
+            testPrice * 2n,
+            3n,
+            encodeAbiParameters(parseAbiParameters("uint256"), [
+              testUpdatedAt + 120n,
+            ])
+          ),
+        ],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const callbacks = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "Callback",
+        logs: receipt.logs,
+      }) as any[];
+      assert.deepEqual(
+        callbacks.map((e) => [e.args.chain_id, e.args._contract]),
+        [
+          [destinationChainId, getAddress(feedProxy.address)],
+          [bnbTestnetChainId, getAddress(secondProxy.address)],
+        ]
+      );
+    });
+
+    it("Should skip inactive destinations", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.setDestinationActive([feedId, 1n, false], {
+          account: owner.account,
+        }),
+        reactor,
+        "DestinationActiveUpdated",
+        [feedId, 1n, false]
+      );
+
+      const hash = await poll(4n, testPrice, testUpdatedAt + 2n * heartbeat);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: reactor.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+      assert.deepEqual(
+        events.map((e) => e.args.destinationIndex),
+        [0n]
+      );
+    });
+
+    it("Should let the owner change a destination's overrides", async function () {
+      await viem.assertions.emitWithArgs(
+        reactor.write.setDestinationOverrides([feedId, 1n, 0n, 0n], {
+          account: owner.account,
+        }),
+        reactor,
+        "DestinationOverridesUpdated",
+        [feedId, 1n, 0n, 0n]
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.setDestinationOverrides([feedId, 1n, 0n, 30n], {
+          account: owner.account,
+        }),
+        reactor,
+        "HeartbeatTooShort"
+      );
+    });
+  });
+
+  describe("Batch Polling", function () {
+    const batchFeedAddresses = [
+      "0x9999999999999999999999999999999999999991",
+      "0x9999999999999999999999999999999999999992",
+    ] as Address[];
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    const round = (roundId: bigint, answer: bigint, updatedAt: bigint) => ({
+      roundId,
+      answer,
+      updatedAt,
+      answeredInRound: roundId,
+    });
+    let batchFeedIds: `0x${string}`[];
+
+    before(async function () {
+      for (const address of batchFeedAddresses) {
+        await reactor.write.registerFeed(
+          [
+            originChainId,
+            address,
+            destinationChainId,
+            feedProxy.address,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+          { account: owner.account }
+        );
+      }
+      const allFeeds = await reactor.read.getAllFeeds();
+      batchFeedIds = allFeeds.slice(-2) as `0x${string}`[];
+    });
+
+    it("Should decide every feed in one transaction", async function () {
+      const ids = batchFeedIds;
+      const rounds = [
+        round(1n, testPrice, testUpdatedAt),
+        round(1n, -1n, testUpdatedAt),
+      ];
+
+      const { result } = await publicClient.simulateContract({
+        account: owner.account,
+        address: reactor.address,
+        abi: reactor.abi,
+        functionName: "pollFeeds",
+        args: [ids, rounds],
+      });
+      assert.deepEqual(
+        result.map((r: any) => [r.success, r.forwardCount]),
+        [
+          [true, 1n],
+          [true, 0n],
+        ]
+      );
+
+      const hash = await reactor.write.pollFeeds([ids, rounds], {
+        account: owner.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: reactor.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+      assert.deepEqual(
+        events.map((e) => [e.eventName, e.args.feedId]),
+        [
+          ["UpdateForwarded", ids[0]],
+          ["UpdateSkipped", ids[1]],
+        ]
+      );
+
+      const [, , , expiresAt] = await reactor.read.pendingForwards([
+        ids[0],
+        0n,
+        1n,
+      ]);
+      assert(expiresAt > 0n);
+    });
+
+    it("Should not revert the batch when an entry fails", async function () {
+      const unknownFeedId = `0x${"ab".repeat(32)}` as `0x${string}`;
+      const ids = [unknownFeedId, batchFeedIds[0]];
+      const rounds = [
+        round(1n, testPrice, testUpdatedAt),
+        round(2n, testPrice, testUpdatedAt + heartbeat),
+      ];
+
+      const hash = await reactor.write.pollFeeds([ids, rounds], {
+        account: owner.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [failure] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "PollFailed",
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(failure.args.feedId, unknownFeedId);
+      assert.equal(failure.args.roundId, 1n);
+      const { errorName } = decodeErrorResult({
+        abi: reactor.abi,
+        data: failure.args.reason,
+      });
+      assert.equal(errorName, "FeedNotActive");
+
+      const config = await reactor.read.getFeedConfig([batchFeedIds[0]]);
+      assert.equal(config.lastProcessedRoundId, 2n);
+    });
+
+    it("Should reject mismatched arrays and unauthorized callers", async function () {
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeeds([batchFeedIds, []], {
+          account: owner.account,
+        }),
+        reactor,
+        "LengthMismatch"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeeds([[], []], { account: user.account }),
+        reactor,
+        "NotAuthorizedRelayer"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeedFromBatch(
+          [batchFeedIds[0], 9n, testPrice, testUpdatedAt],
+          { account: owner.account }
+        ),
+        reactor,
+        "OnlySelf"
+      );
+    });
+  });
+
+  describe("Round Phases", function () {
+    const phasedFeedAddress =
+      "0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa" as Address;
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    const phaseRound = (phase: bigint, aggregatorRound: bigint) =>
+      (phase << 64n) | aggregatorRound;
+    let feedId: `0x${string}`;
+
+    before(async function () {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          phasedFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
+    });
+
+    it("Should emit FeedPhaseChanged when polled rounds move to a new phase", async function () {
+      await reactor.write.pollFeed(
+        [
+          feedId,
+          phaseRound(1n, 900n),
+          testPrice,
+          testUpdatedAt,
+          phaseRound(1n, 900n),
+        ],
+        { account: owner.account }
+      );
+      assert.equal(await reactor.read.getFeedPhase([feedId]), 1);
+
+      await viem.assertions.emitWithArgs(
+        reactor.write.pollFeed(
+          [
+            feedId,
+            phaseRound(2n, 1n),
+            testPrice,
+            testUpdatedAt + 60n,
+            phaseRound(2n, 1n),
+          ],
+          { account: owner.account }
+        ),
+        reactor,
+        "FeedPhaseChanged",
+        [feedId, 1, 2]
+      );
+      assert.equal(await reactor.read.getFeedPhase([feedId]), 2);
+
+      // A round of the previous phase is older than anything in phase 2
+      await viem.assertions.emitWithArgs(
+        reactor.write.pollFeed(
+          [
+            feedId,
+            phaseRound(1n, 901n),
+            testPrice,
+            testUpdatedAt + 120n,
+            phaseRound(1n, 901n),
+          ],
+          { account: owner.account }
+        ),
+        reactor,
+        "UpdateSkipped",
+        [feedId, 0n, phaseRound(1n, 901n), testPrice, 2] // SkipReason.InvalidData
+      );
+    });
+
+    it("Should place raw aggregator round IDs from react() in the current phase", async function () {
+      const roundId = phaseRound(2n, 2n);
+      const movedPrice = testPrice * 2n;
+      const hash = await reactor.write.react(
+        [
+          answerUpdatedLog(
+            phasedFeedAddress,
+            movedPrice,
+            2n,
+            encodeAbiParameters(parseAbiParameters("uint256"), [
+              testUpdatedAt + 180n,
+            ])
+          ),
+        ],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [forwarded] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "UpdateForwarded",
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(forwarded.args.roundId, roundId);
+
+      const [callback] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "Callback",
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(
+        callback.args.payload,
+        encodeFunctionData({
+          abi: feedProxy.abi,
+          functionName: "updateRoundDataCallback",
+          args: [
+            zeroAddress,
+            roundId,
+            movedPrice,
+            testUpdatedAt + 180n,
+            testUpdatedAt + 180n,
+            roundId,
+          ],
+        })
+      );
+
+      const config = await reactor.read.getFeedConfig([feedId]);
+      assert.equal(config.lastProcessedRoundId, roundId);
+    });
+  });
+
+  describe("View Functions", function () {
+    it("Should return feed config", async function () {
+      const allFeeds = await reactor.read.getAllFeeds();
+      if (allFeeds.length > 0) {
+        const config = await reactor.read.getFeedConfig([allFeeds[0]]);
+        assert(
+          config.feedAddress !== "0x0000000000000000000000000000000000000000"
+        );
+        assert(config.active === true);
+      }
+    });
+
+    it("Should return feed metrics", async function () {
+      const allFeeds = await reactor.read.getAllFeeds();
+      if (allFeeds.length > 0) {
+        const metrics = await reactor.read.getFeedMetrics([allFeeds[0]]);
+        assert.equal(typeof metrics.totalEventsReceived, "bigint");
+        assert.equal(typeof metrics.updatesForwarded, "bigint");
+        assert.equal(typeof metrics.updatesSkipped, "bigint");
+      }
+    });
+
+    it("Should return all feed IDs", async function () {
+      const feedIds = await reactor.read.getAllFeeds();
+      assert(Array.isArray(feedIds));
+      assert(feedIds.length > 0);
+    });
+
+    it("Should return correct feed count", async function () {
+      const count = await reactor.read.getFeedCount();
+      assert(count > 0n);
+    });
+  });
+
+  describe("Ownership and Timelock", function () {
+    let ownedReactor: any;
+    const delay = 3600n;
+
+    before(async function () {
+      ownedReactor = await deployReactor(systemContract.address);
+    });
+
+    it("Should transfer ownership in two steps", async function () {
+      await viem.assertions.emitWithArgs(
+        ownedReactor.write.transferOwnership([user.account.address], {
+          account: owner.account,
+        }),
+        ownedReactor,
+        "OwnershipTransferStarted",
+        [getAddress(owner.account.address), getAddress(user.account.address)]
+      );
+      assert.equal(
+        await ownedReactor.read.owner(),
+        getAddress(owner.account.address)
+      );
+      await viem.assertions.revertWithCustomError(
+        ownedReactor.write.acceptOwnership({ account: owner.account }),
+        reactor,
+        "NotPendingOwner"
+      );
+
+      await viem.assertions.emitWithArgs(
+        ownedReactor.write.acceptOwnership({ account: user.account }),
+        ownedReactor,
+        "OwnershipTransferred",
+        [getAddress(owner.account.address), getAddress(user.account.address)]
+      );
+      assert.equal(
+        await ownedReactor.read.owner(),
+        getAddress(user.account.address)
+      );
+
+      await ownedReactor.write.transferOwnership([owner.account.address], {
+        account: user.account,
+      });
+      await ownedReactor.write.acceptOwnership({ account: owner.account });
+    });
+
+    it("Should run timelocked admin calls only through the queue", async function () {
+      await ownedReactor.write.setTimelockDelay([delay], {
+        account: owner.account,
+      });
+      await viem.assertions.revertWithCustomError(
+        ownedReactor.write.addAuthorizedRelayer([user.account.address], {
+          account: owner.account,
+        }),
+        reactor,
+        "TimelockRequired"
+      );
+      const anyFeed = keccak256(toHex("any"));
+      for (const [functionName, args] of [
+        [
+          "addDestination",
+          [anyFeed, destinationChainId, feedProxy.address, 0n, 0n],
+        ],
+        [
+          "addTwapDestination",
+          [anyFeed, destinationChainId, feedProxy.address, 0n, 0n],
+        ],
+        ["setDestinationOverrides", [anyFeed, 0n, 0n, 0n]],
+        ["realignLastSent", [anyFeed, 0n, 1n, 1n]],
+        ["deregisterFeed", [anyFeed]],
+        [
+          "registerFeed",
+          [
+            originChainId,
+            feedAddress,
+            destinationChainId,
+            feedProxy.address,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+        ],
+        [
+          "registerFeedDefault",
+          [
+            originChainId,
+            feedAddress,
+            destinationChainId,
+            feedProxy.address,
+            decimals,
+            description,
+          ],
+        ],
+        [
+          "registerComposite",
+          [
+            anyFeed,
+            anyFeed,
+            0,
+            destinationChainId,
+            feedProxy.address,
+            decimals,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+        ],
+        [
+          "registerAggregate",
+          [
+            [anyFeed],
+            1,
+            3600,
+            destinationChainId,
+            feedProxy.address,
+            description,
+            deviationThreshold,
+            heartbeat,
+          ],
+        ],
+      ] as const) {
+        await viem.assertions.revertWithCustomError(
+          ownedReactor.write[functionName](args, { account: owner.account }),
+          reactor,
+          "TimelockRequired"
+        );
+      }
+
+      const data = encodeFunctionData({
+        abi: ownedReactor.abi,
+        functionName: "addAuthorizedRelayer",
+        args: [user.account.address],
+      });
+      await ownedReactor.write.queueAction([data], { account: owner.account });
+      const [{ id, eta }] = await ownedReactor.read.getQueuedActions();
+      assert.equal(eta, (await publicClient.getBlock()).timestamp + delay);
+      await viem.assertions.revertWithCustomError(
+        ownedReactor.write.executeAction([id], { account: owner.account }),
+        reactor,
+        "ActionNotReady"
+      );
+
+      await networkHelpers.time.increase(delay);
+      await viem.assertions.emitWithArgs(
+        ownedReactor.write.executeAction([id], { account: owner.account }),
+        ownedReactor,
+        "ActionExecuted",
+        [id]
+      );
+      assert.equal(
+        await ownedReactor.read.authorizedRelayers([user.account.address]),
+        true
+      );
+      assert.deepEqual(await ownedReactor.read.getQueuedActions(), []);
+    });
+
+    it("Should revert execution with the queued call's reason", async function () {
+      const data = encodeFunctionData({
+        abi: ownedReactor.abi,
+        functionName: "updateFeedConfig",
+        args: [keccak256(toHex("any")), 0n, heartbeat, 0, 0n, 0n, 0n],
+      });
+      await ownedReactor.write.queueAction([data], { account: owner.account });
+      const [{ id }] = await ownedReactor.read.getQueuedActions();
+      await networkHelpers.time.increase(delay);
+
+      await viem.assertions.revertWithCustomError(
+        ownedReactor.write.executeAction([id], { account: owner.account }),
+        reactor,
+        "FeedNotRegistered"
+      );
+      assert.equal((await ownedReactor.read.getQueuedActions()).length, 1);
+      await ownedReactor.write.cancelAction([id], { account: owner.account });
+      assert.deepEqual(await ownedReactor.read.getQueuedActions(), []);
+    });
+  });
+
+  describe("Decision History", function () {
+    const historyFeedAddress =
+      "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" as Address;
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    let feedId: `0x${string}`;
+
+    const poll = (roundId: bigint, answer: bigint, updatedAt: bigint) =>
+      reactor.write.pollFeed([feedId, roundId, answer, updatedAt, roundId], {
+        account: owner.account,
+      });
+
+    before(async function () {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          historyFeedAddress,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      feedId = allFeeds[allFeeds.length - 1] as `0x${string}`;
+    });
+
+    it("Should record forwards and skips newest first", async function () {
+      const movedPrice = (testPrice * 101n) / 100n;
+      await poll(1n, testPrice, testUpdatedAt);
+      await reactor.write.confirmForward([feedId, 0n, 1n], {
+        account: owner.account,
+      });
+      await poll(2n, testPrice + 1n, testUpdatedAt + 60n);
+      await poll(3n, movedPrice, testUpdatedAt + 120n);
+
+      assert.equal(await reactor.read.decisionCount([feedId]), 3n);
+      const [third, second, first] = await reactor.read.getDecisions([
+        feedId,
+        0n,
+        10n,
+      ]);
+      assert.deepEqual(first, {
+        roundId: 1n,
+        updatedAt: testUpdatedAt,
+        destinationIndex: 0,
+        forwarded: true,
+        updateReason: 0, // UpdateReason.FirstUpdate
+        skipReason: 0,
+        answer: testPrice,
+      });
+      assert.equal(second.forwarded, false);
+      assert.equal(second.skipReason, 0); // SkipReason.InsufficientDeviation
+      assert.equal(third.roundId, 3n);
+      assert.equal(third.forwarded, true);
+      assert.equal(third.updateReason, 1); // UpdateReason.DeviationThreshold
+
+      const [page] = await reactor.read.getDecisions([feedId, 1n, 1n]);
+      assert.equal(page.roundId, 2n);
+      assert.deepEqual(await reactor.read.getDecisions([feedId, 3n, 10n]), []);
+    });
+
+    it("Should keep only the most recent decisions", async function () {
+      const size = await reactor.read.DECISION_HISTORY_SIZE();
+      assert.equal(size, BigInt(DECISION_HISTORY_SIZE));
+
+      const lastRound = size + 5n;
+      for (let roundId = 4n; roundId <= lastRound; roundId++) {
+        await poll(roundId, testPrice, testUpdatedAt + 120n + roundId);
+      }
+
+      const decisions = await fetchDecisions(
+        (offset, limit) => reactor.read.getDecisions([feedId, offset, limit]),
+        DECISION_HISTORY_SIZE + 10
+      );
+      assert.equal(decisions.length, DECISION_HISTORY_SIZE);
+      assert.equal(decisions[0].roundId, lastRound);
+      assert.equal(
+        decisions[decisions.length - 1].roundId,
+        lastRound - size + 1n
+      );
+      assert.equal(
+        describeDecision(decisions[0]),
+        "Skipped (Insufficient deviation)"
+      );
+    });
+  });
+
+  describe("Adaptive Deviation and TWAP", function () {
+    const testPrice = parseUnits("3000", decimals);
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    const twapProxy = "0xdddddddddddddddddddddddddddddddddddddddd" as Address;
+
+    const register = async (feed: Address) => {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          feed,
+          destinationChainId,
+          feedProxy.address,
+          decimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      return allFeeds[allFeeds.length - 1] as `0x${string}`;
+    };
+
+    const pollEvents = async (
+      feedId: `0x${string}`,
+      roundId: bigint,
+      answer: bigint,
+      updatedAt: bigint
+    ) => {
+      const hash = await reactor.write.pollFeed(
+        [feedId, roundId, answer, updatedAt, roundId],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      return parseEventLogs({
+        abi: reactor.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+    };
+
+    it("Should follow volatility in Adaptive mode", async function () {
+      const feedId = await register(
+        "0xcccccccccccccccccccccccccccccccccccccccc" as Address
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.updateFeedConfig(
+          [
+            feedId,
+            deviationThreshold,
+            heartbeat,
+            DeviationMode.Adaptive,
+            0n,
+            500n,
+            0n,
+          ],
+          { account: owner.account }
+        ),
+        reactor,
+        "InvalidAdaptiveRange"
+      );
+      await reactor.write.updateFeedConfig(
+        [
+          feedId,
+          deviationThreshold,
+          heartbeat,
+          DeviationMode.Adaptive,
+          10n,
+          500n,
+          0n,
+        ],
+        { account: owner.account }
+      );
+
+      await pollEvents(feedId, 1n, testPrice, testUpdatedAt);
+      await reactor.write.confirmForward([feedId, 0n, 1n], {
+        account: owner.account,
+      });
+
+      // Calm so far: the threshold sits at its 0.1% floor, so a 0.2% move forwards
+      const calmPrice = (testPrice * 1002n) / 1000n;
+      const [calm] = await pollEvents(
+        feedId,
+        2n,
+        calmPrice,
+        testUpdatedAt + 60n
+      );
+      assert.equal(calm.eventName, "UpdateForwarded");
+      assert.equal(calm.args.reason, UpdateReason.AdaptiveDeviation);
+      await reactor.write.confirmForward([feedId, 0n, 2n], {
+        account: owner.account,
+      });
+
+      // Swing ±5% a few times; forwards stay unconfirmed
+      const swingPrice = (calmPrice * 105n) / 100n;
+      for (let roundId = 3n; roundId <= 6n; roundId++) {
+        await pollEvents(
+          feedId,
+          roundId,
+          roundId % 2n === 1n ? swingPrice : calmPrice,
+          testUpdatedAt + 60n * roundId
+        );
+      }
+      const threshold = adaptiveThreshold(
+        await reactor.read.volatility([feedId]),
+        10n,
+        500n
+      );
+      assert(threshold > 200n);
+
+      // A 2% move would pass the fixed 0.5% threshold but not the relaxed one
+      const [skipped] = await pollEvents(
+        feedId,
+        7n,
+        (calmPrice * 102n) / 100n,
+        testUpdatedAt + 420n
+      );
+      assert.equal(skipped.eventName, "UpdateSkipped");
+      assert.equal(skipped.args.reason, 0); // SkipReason.InsufficientDeviation
+
+      const metrics = await reactor.read.getFeedMetrics([feedId]);
+      assert.equal(metrics.adaptiveTriggered, 1n);
+      assert.equal(metrics.deviationTriggered, 0n);
+    });
+
+    it("Should send the TWAP to a twap destination", async function () {
+      const feedId = await register(
+        "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee" as Address
+      );
+      await reactor.write.updateFeedConfig(
+        [
+          feedId,
+          deviationThreshold,
+          heartbeat,
+          DeviationMode.Fixed,
+          0n,
+          0n,
+          600n,
+        ],
+        { account: owner.account }
+      );
+      await viem.assertions.emitWithArgs(
+        reactor.write.addTwapDestination(
+          [feedId, destinationChainId, twapProxy, 0n, 0n],
+          { account: owner.account }
+        ),
+        reactor,
+        "DestinationAdded",
+        [feedId, 1n, destinationChainId, getAddress(twapProxy), 0n, 0n, true]
+      );
+
+      // Without history the TWAP is the answer itself
+      const first = await pollEvents(feedId, 1n, testPrice, testUpdatedAt);
+      assert.deepEqual(
+        first.map((e) => e.args.price),
+        [testPrice, testPrice]
+      );
+      for (const index of [0n, 1n]) {
+        await reactor.write.confirmForward([feedId, index, 1n], {
+          account: owner.account,
+        });
+      }
+
+      // A 10% jump reaches the spot destination; the TWAP has not moved yet
+      const jumpPrice = (testPrice * 110n) / 100n;
+      const second = await pollEvents(
+        feedId,
+        2n,
+        jumpPrice,
+        testUpdatedAt + 300n
+      );
+      assert.deepEqual(
+        second.map((e) => [e.eventName, e.args.destinationIndex, e.args.price]),
+        [
+          ["UpdateSkipped", 1n, testPrice],
+          ["UpdateForwarded", 0n, jumpPrice],
+        ]
+      );
+
+      // Half of the 10 minute window at each price
+      const observations = await reactor.read.getObservations([feedId]);
+      const twap = calculateTwap(
+        observations,
+        jumpPrice,
+        testUpdatedAt + 600n,
+        600n
+      );
+      assert.equal(twap, (testPrice + jumpPrice) / 2n);
+      const third = await pollEvents(
+        feedId,
+        3n,
+        jumpPrice,
+        testUpdatedAt + 600n
+      );
+      const forwarded = third.find((e) => e.args.destinationIndex === 1n);
+      assert.equal(forwarded.eventName, "UpdateForwarded");
+      assert.equal(forwarded.args.price, twap);
+      const [answer] = await reactor.read.pendingForwards([feedId, 1n, 3n]);
+      assert.equal(answer, twap);
+    });
+  });
+
+  describe("Composite Feeds", function () {
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    const ethUsdFeed = "0x4141414141414141414141414141414141414141" as Address;
+    const btcUsdFeed = "0x4242424242424242424242424242424242424242" as Address;
+    const linkEthFeed = "0x4343434343434343434343434343434343434343" as Address;
+    const compositeProxy =
+      "0x4646464646464646464646464646464646464646" as Address;
+    const ethUsd = parseUnits("3000", decimals);
+    const btcUsd = parseUnits("60000", decimals);
+
+    let ethId: `0x${string}`;
+    let btcId: `0x${string}`;
+    let ethBtcId: `0x${string}`;
+
+    const register = async (feed: Address, feedDecimals: number) => {
+      await reactor.write.registerFeed(
+        [
+          originChainId,
+          feed,
+          destinationChainId,
+          feedProxy.address,
+          feedDecimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      return allFeeds[allFeeds.length - 1] as `0x${string}`;
+    };
+
+    const registerComposite = (
+      baseFeedId: `0x${string}`,
+      quoteFeedId: `0x${string}`,
+      op: number,
+      compositeDecimals: number
+    ) =>
+      reactor.write.registerComposite(
+        [
+          baseFeedId,
+          quoteFeedId,
+          op,
+          destinationChainId,
+          compositeProxy,
+          compositeDecimals,
+          "Composite",
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+
+    // Decision events for `feedId` from a pollFeed() of one of its inputs
+    const pollEvents = async (
+      inputId: `0x${string}`,
+      roundId: bigint,
+      answer: bigint,
+      updatedAt: bigint,
+      feedId: `0x${string}`
+    ) => {
+      const hash = await reactor.write.pollFeed(
+        [inputId, roundId, answer, updatedAt, roundId],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      return (
+        parseEventLogs({
+          abi: reactor.abi,
+          eventName: ["UpdateForwarded", "UpdateSkipped"],
+          logs: receipt.logs,
+        }) as any[]
+      ).filter((e) => e.args.feedId === feedId);
+    };
+
+    before(async function () {
+      ethId = await register(ethUsdFeed, decimals);
+      btcId = await register(btcUsdFeed, decimals);
+    });
+
+    it("Should register a composite of two registered feeds", async function () {
+      await viem.assertions.revertWithCustomError(
+        registerComposite(ethId, keccak256(toHex("missing")), 0, 18),
+        reactor,
+        "FeedNotRegistered"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerComposite(ethId, btcId, 0, 19),
+        reactor,
+        "InvalidDecimals"
+      );
+
+      const hash = await registerComposite(ethId, btcId, 0, 18); // CompositeOp.Ratio
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [registered] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "CompositeRegistered",
+        logs: receipt.logs,
+      }) as any[];
+      ethBtcId = registered.args.feedId;
+      assert.equal(registered.args.baseFeedId, ethId);
+      assert.equal(registered.args.quoteFeedId, btcId);
+      assert.equal(registered.args.op, 0);
+
+      const config = await reactor.read.getFeedConfig([ethBtcId]);
+      assert.equal(config.originChainId, 0n);
+      assert.equal(config.feedAddress, getAddress(reactor.address));
+      assert.equal(config.decimals, 18);
+      assert.deepEqual(await reactor.read.composites([ethBtcId]), [
+        ethId,
+        btcId,
+        0,
+      ]);
+      // No origin logs to subscribe to, and nothing to poll
+      assert.equal(await reactor.read.subscriptions([ethBtcId]), false);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeed([ethBtcId, 1n, 1n, testUpdatedAt, 1n], {
+          account: owner.account,
+        }),
+        reactor,
+        "CompositeFeed"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerComposite(ethId, btcId, 0, 18),
+        reactor,
+        "FeedAlreadyRegistered"
+      );
+    });
+
+    it("Should recompute the composite when either input updates", async function () {
+      // Nothing to compute until both inputs have an answer
+      assert.deepEqual(
+        await pollEvents(ethId, 1n, ethUsd, testUpdatedAt, ethBtcId),
+        []
+      );
+
+      // 3000 / 60000 in 18 decimals, stamped with the newer input's time
+      const [first] = await pollEvents(
+        btcId,
+        1n,
+        btcUsd,
+        testUpdatedAt + 30n,
+        ethBtcId
+      );
+      assert.equal(first.eventName, "UpdateForwarded");
+      assert.deepEqual(
+        [first.args.roundId, first.args.price, first.args.updatedAt],
+        [1n, parseUnits("0.05", 18), testUpdatedAt + 30n]
+      );
+      assert.equal(first.args.reason, UpdateReason.FirstUpdate);
+      await reactor.write.confirmForward([ethBtcId, 0n, 1n], {
+        account: owner.account,
+      });
+
+      // ETH/USD +1% moves ETH/BTC by 1%, past the 0.5% threshold
+      const [moved] = await pollEvents(
+        ethId,
+        2n,
+        (ethUsd * 101n) / 100n,
+        testUpdatedAt + 60n,
+        ethBtcId
+      );
+      assert.equal(moved.eventName, "UpdateForwarded");
+      assert.equal(moved.args.roundId, 2n);
+      assert.equal(moved.args.price, parseUnits("0.0505", 18));
+      assert.equal(moved.args.reason, UpdateReason.DeviationThreshold);
+      await reactor.write.confirmForward([ethBtcId, 0n, 2n], {
+        account: owner.account,
+      });
+
+      // BTC/USD +0.05% barely moves it
+      const [calm] = await pollEvents(
+        btcId,
+        2n,
+        (btcUsd * 10005n) / 10000n,
+        testUpdatedAt + 90n,
+        ethBtcId
+      );
+      assert.equal(calm.eventName, "UpdateSkipped");
+      assert.equal(calm.args.roundId, 3n);
+
+      const metrics = await reactor.read.getFeedMetrics([ethBtcId]);
+      assert.equal(metrics.totalEventsReceived, 3n);
+      assert.equal(metrics.updatesForwarded, 2n);
+    });
+
+    it("Should normalize decimals and send react() rounds through Callbacks", async function () {
+      // LINK/ETH in 18 decimals times ETH/USD in 8 decimals gives LINK/USD in 8
+      const linkId = await register(linkEthFeed, 18);
+      const hash = await registerComposite(linkId, ethId, 1, decimals); // CompositeOp.Product
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [{ args }] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "CompositeRegistered",
+        logs: receipt.logs,
+      }) as any[];
+
+      const linkEth = parseUnits("0.005", 18);
+      const reactHash = await reactor.write.react(
+        [
+          answerUpdatedLog(
+            linkEthFeed,
+            linkEth,
+            1n,
+            encodeAbiParameters(parseAbiParameters("uint256"), [
+              testUpdatedAt + 120n,
+            ])
+          ),
+        ],
+        { account: owner.account }
+      );
+      const reactReceipt = await publicClient.waitForTransactionReceipt({
+        hash: reactHash,
+      });
+      const callbacks = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "Callback",
+        logs: reactReceipt.logs,
+      }) as any[];
+
+      // ETH/USD is still at 3030 from the previous test
+      const linkUsd = parseUnits("15.15", decimals);
+      const callback = callbacks.find(
+        (e) => e.args._contract === getAddress(compositeProxy)
+      );
+      assert.equal(
+        callback?.args.payload,
+        encodeFunctionData({
+          abi: feedProxy.abi,
+          functionName: "updateRoundDataCallback",
+          args: [
+            zeroAddress,
+            1n,
+            linkUsd,
+            testUpdatedAt + 120n,
+            testUpdatedAt + 120n,
+            1n,
+          ],
+        })
+      );
+      const destination = await reactor.read.getDestination([args.feedId, 0n]);
+      assert.equal(destination.lastSentPrice, linkUsd);
+    });
+  });
+
+  describe("Aggregate Feeds", function () {
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    // ETH/USD on Sepolia, Arbitrum Sepolia and Base Sepolia
+    const sources = [
+      [11155111n, "0x4747474747474747474747474747474747474747"],
+      [421614n, "0x4848484848484848484848484848484848484848"],
+      [84532n, "0x4949494949494949494949494949494949494949"],
+    ] as const;
+    const aggregateProxy =
+      "0x4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b4b" as Address;
+    const stalenessWindow = 600;
+    const usd = (amount: string) => parseUnits(amount, decimals);
+
+    // Source feed IDs in registration order, and in the ascending order the
+    // reactor takes them in
+    let sepoliaId: `0x${string}`;
+    let arbitrumId: `0x${string}`;
+    let baseId: `0x${string}`;
+    let sourceIds: `0x${string}`[];
+    let aggregateId: `0x${string}`;
+
+    const register = async (
+      chainId: bigint,
+      feed: Address,
+      feedDecimals: number
+    ) => {
+      await reactor.write.registerFeed(
+        [
+          chainId,
+          feed,
+          destinationChainId,
+          feedProxy.address,
+          feedDecimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+      const allFeeds = await reactor.read.getAllFeeds();
+      return allFeeds[allFeeds.length - 1] as `0x${string}`;
+    };
+
+    const registerAggregate = (ids: `0x${string}`[], minSources: number) =>
+      reactor.write.registerAggregate(
+        [
+          ids,
+          minSources,
+          stalenessWindow,
+          destinationChainId,
+          aggregateProxy,
+          "ETH/USD median",
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+
+    // Decision event for the aggregate from a pollFeed() of one of its sources
+    const pollEvent = async (
+      sourceId: `0x${string}`,
+      roundId: bigint,
+      answer: bigint,
+      updatedAt: bigint
+    ) => {
+      const hash = await reactor.write.pollFeed(
+        [sourceId, roundId, answer, updatedAt, roundId],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [event] = (
+        parseEventLogs({
+          abi: reactor.abi,
+          eventName: ["UpdateForwarded", "UpdateSkipped"],
+          logs: receipt.logs,
+        }) as any[]
+      ).filter((e) => e.args.feedId === aggregateId);
+      return event;
+    };
+
+    // Bitmask of sources by their position in sourceIds
+    const bits = (...ids: `0x${string}`[]) =>
+      ids.reduce((mask, id) => mask | (1 << sourceIds.indexOf(id)), 0);
+
+    before(async function () {
+      [sepoliaId, arbitrumId, baseId] = [
+        await register(...sources[0], decimals),
+        await register(...sources[1], decimals),
+        await register(...sources[2], decimals),
+      ];
+      sourceIds = [sepoliaId, arbitrumId, baseId].sort();
+    });
+
+    it("Should register an aggregate of registered feeds with the same decimals", async function () {
+      await viem.assertions.revertWithCustomError(
+        registerAggregate([...sourceIds].reverse(), 2),
+        reactor,
+        "InvalidSources"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerAggregate(sourceIds, 0),
+        reactor,
+        "InvalidSources"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerAggregate(sourceIds, 4),
+        reactor,
+        "InvalidSources"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerAggregate([keccak256(toHex("missing"))], 1),
+        reactor,
+        "FeedNotRegistered"
+      );
+      const otherDecimalsId = await register(
+        1n,
+        "0x4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a",
+        18
+      );
+      await viem.assertions.revertWithCustomError(
+        registerAggregate([sourceIds[0], otherDecimalsId].sort(), 1),
+        reactor,
+        "InvalidDecimals"
+      );
+
+      const hash = await registerAggregate(sourceIds, 2);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [registered] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "AggregateRegistered",
+        logs: receipt.logs,
+      }) as any[];
+      aggregateId = registered.args.feedId;
+      assert.equal(
+        aggregateId,
+        keccak256(encodePacked(["bytes32[]"], [sourceIds]))
+      );
+      assert.deepEqual(registered.args.sourceIds, sourceIds);
+      assert.equal(registered.args.minSources, 2);
+      assert.equal(registered.args.stalenessWindow, stalenessWindow);
+
+      const config = await reactor.read.getFeedConfig([aggregateId]);
+      assert.equal(config.feedAddress, getAddress(reactor.address));
+      assert.equal(config.decimals, decimals);
+      assert.equal(await reactor.read.subscriptions([aggregateId]), false);
+      assert.deepEqual(await reactor.read.aggregates([aggregateId]), [
+        2,
+        stalenessWindow,
+        0,
+      ]);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.pollFeed([aggregateId, 1n, 1n, testUpdatedAt, 1n], {
+          account: owner.account,
+        }),
+        reactor,
+        "CompositeFeed"
+      );
+      await viem.assertions.revertWithCustomError(
+        registerAggregate(sourceIds, 2),
+        reactor,
+        "FeedAlreadyRegistered"
+      );
+    });
+
+    it("Should forward the median once enough sources have an answer", async function () {
+      // One source is fewer than minSources
+      const first = await pollEvent(sepoliaId, 1n, usd("3000"), testUpdatedAt);
+      assert.equal(first.eventName, "UpdateSkipped");
+      assert.equal(first.args.roundId, 1n);
+      assert.equal(first.args.reason, 2); // SkipReason.InvalidData
+
+      // Two sources average their middle answers
+      const second = await pollEvent(
+        arbitrumId,
+        1n,
+        usd("3010"),
+        testUpdatedAt + 10n
+      );
+      assert.equal(second.eventName, "UpdateForwarded");
+      assert.deepEqual(
+        [second.args.roundId, second.args.price, second.args.updatedAt],
+        [2n, usd("3005"), testUpdatedAt + 10n]
+      );
+      await reactor.write.confirmForward([aggregateId, 0n, 2n], {
+        account: owner.account,
+      });
+
+      // An outlier on the third source only moves the median to 3010
+      const third = await pollEvent(
+        baseId,
+        1n,
+        usd("3500"),
+        testUpdatedAt + 20n
+      );
+      assert.equal(third.eventName, "UpdateSkipped");
+      assert.equal(third.args.roundId, 3n);
+      assert.equal(third.args.price, usd("3010"));
+      assert.equal(third.args.reason, 0); // SkipReason.InsufficientDeviation
+
+      const [, , contributors] = await reactor.read.aggregates([aggregateId]);
+      assert.equal(contributors, bits(sepoliaId, arbitrumId, baseId));
+      const contributions = Object.fromEntries(
+        (await reactor.read.getAggregateSources([aggregateId])).map(
+          (source: any) => [source.feedId, source.contributions]
+        )
+      );
+      assert.deepEqual(contributions, {
+        [sepoliaId]: 2n,
+        [arbitrumId]: 2n,
+        [baseId]: 1n,
+      });
+    });
+
+    it("Should leave sources older than the staleness window out", async function () {
+      // Sepolia and Arbitrum Sepolia now lag Base Sepolia by more than 600s
+      const later = testUpdatedAt + 1000n;
+      const alone = await pollEvent(baseId, 2n, usd("3200"), later);
+      assert.equal(alone.eventName, "UpdateSkipped");
+      assert.equal(alone.args.reason, 2); // SkipReason.InvalidData
+
+      const fresh = await pollEvent(sepoliaId, 2n, usd("3210"), later + 10n);
+      assert.equal(fresh.eventName, "UpdateForwarded");
+      assert.equal(fresh.args.price, usd("3205"));
+      assert.equal(fresh.args.reason, UpdateReason.DeviationThreshold);
+
+      const [, , contributors] = await reactor.read.aggregates([aggregateId]);
+      assert.equal(contributors, bits(sepoliaId, baseId));
+      const config = await reactor.read.getFeedConfig([aggregateId]);
+      assert.equal(config.lastProcessedRoundId, 5n);
+    });
+  });
+
+  describe("Feed Lifecycle", function () {
+    const testUpdatedAt = BigInt(Math.floor(Date.now() / 1000));
+    const lifecycleFeed =
+      "0x5050505050505050505050505050505050505050" as Address;
+    const newProxy = "0x5151515151515151515151515151515151515151" as Address;
+    const feedId = keccak256(
+      encodePacked(["uint64", "address"], [originChainId, lifecycleFeed])
+    );
+
+    const register = (feedDecimals: number, proxy: Address) =>
+      reactor.write.registerFeed(
+        [
+          originChainId,
+          lifecycleFeed,
+          destinationChainId,
+          proxy,
+          feedDecimals,
+          description,
+          deviationThreshold,
+          heartbeat,
+        ],
+        { account: owner.account }
+      );
+
+    it("Should emit an event for every change of a feed's state", async function () {
+      await register(decimals, feedProxy.address);
+
+      await viem.assertions.emitWithArgs(
+        reactor.write.setFeedActive([feedId, false], {
+          account: owner.account,
+        }),
+        reactor,
+        "FeedDeactivated",
+        [feedId]
+      );
+      await viem.assertions.emitWithArgs(
+        reactor.write.setFeedActive([feedId, true], {
+          account: owner.account,
+        }),
+        reactor,
+        "FeedActivated",
+        [feedId]
+      );
+      await viem.assertions.emitWithArgs(
+        reactor.write.updateFeedConfig(
+          [feedId, 100n, 7200n, DeviationMode.Fixed, 0n, 0n, 600n],
+          { account: owner.account }
+        ),
+        reactor,
+        "FeedConfigUpdated",
+        [feedId, 100n, 7200n, DeviationMode.Fixed, 0n, 0n, 600n]
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.updateFeedConfig(
+          [
+            keccak256(toHex("missing")),
+            deviationThreshold,
+            heartbeat,
+            DeviationMode.Fixed,
+            0n,
+            0n,
+            0n,
+          ],
+          { account: owner.account }
+        ),
+        reactor,
+        "FeedNotRegistered"
+      );
+    });
+
+    it("Should deregister a feed, archiving its metrics", async function () {
+      await reactor.write.pollFeed(
+        [feedId, 1n, parseUnits("3000", decimals), testUpdatedAt, 1n],
+        { account: owner.account }
+      );
+      const metrics = await reactor.read.getFeedMetrics([feedId]);
+      const [eventsBefore, forwardedBefore] =
+        await reactor.read.getGlobalStats();
+      const countBefore = await reactor.read.getFeedCount();
+
+      await viem.assertions.revertWithCustomError(
+        reactor.write.deregisterFeed([feedId], { account: user.account }),
+        reactor,
+        "NotOwner"
+      );
+      const hash = await reactor.write.deregisterFeed([feedId], {
+        account: owner.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: reactor.abi,
+        eventName: ["FeedDeactivated", "FeedUnsubscribed", "FeedDeregistered"],
+        logs: receipt.logs,
+      }) as any[];
+      assert.deepEqual(
+        events.map((e) => [e.eventName, e.args.feedId]),
+        [
+          ["FeedDeactivated", feedId],
+          ["FeedUnsubscribed", feedId],
+          ["FeedDeregistered", feedId],
+        ]
+      );
+
+      assert.equal(await reactor.read.subscriptions([feedId]), false);
+      assert.equal(await reactor.read.getFeedCount(), countBefore - 1n);
+      assert(!(await reactor.read.getAllFeeds()).includes(feedId));
+      const [eventsAfter, forwardedAfter] = await reactor.read.getGlobalStats();
+      assert.equal(eventsAfter, eventsBefore - metrics.totalEventsReceived);
+      assert.equal(forwardedAfter, forwardedBefore - metrics.updatesForwarded);
+
+      assert.deepEqual(
+        await reactor.read.getArchivedMetrics([feedId]),
+        metrics
+      );
+      assert.equal(
+        (await reactor.read.getFeedMetrics([feedId])).totalEventsReceived,
+        0n
+      );
+      assert.equal(await reactor.read.getDestinationCount([feedId]), 0n);
+      assert.equal(
+        (await reactor.read.getFeedConfig([feedId])).feedAddress,
+        "0x0000000000000000000000000000000000000000"
+      );
+      await viem.assertions.revertWithCustomError(
+        reactor.write.deregisterFeed([feedId], { account: owner.account }),
+        reactor,
+        "FeedNotRegistered"
+      );
+    });
+
+    it("Should register a deregistered feed again with a new destination and decimals", async function () {
+      await viem.assertions.emitWithArgs(
+        register(18, newProxy),
+        reactor,
+        "FeedSubscribed",
+        [feedId, originChainId, getAddress(lifecycleFeed)]
+      );
+
+      const config = await reactor.read.getFeedConfig([feedId]);
+      assert.equal(config.decimals, 18);
+      assert.equal(config.lastProcessedRoundId, 0n);
+      const destinations = await reactor.read.getDestinations([feedId]);
+      assert.deepEqual(
+        destinations.map((d: any) => d.proxy),
+        [getAddress(newProxy)]
+      );
+      assert((await reactor.read.getAllFeeds()).includes(feedId));
+      assert.equal(await reactor.read.registrations([feedId]), 2n);
+
+      // The round-1 forward of the first registration was never confirmed
+      // and cannot be confirmed onto this one
+      assert.deepEqual(await reactor.read.pendingForwards([feedId, 0n, 1n]), [
+        0n,
+        0n,
+        0,
+        0n,
+      ]);
+      await viem.assertions.revertWithCustomError(
+        reactor.write.confirmForward([feedId, 0n, 1n], {
+          account: owner.account,
+        }),
+        reactor,
+        "NoPendingForward"
+      );
+
+      // The first round forwards again; the archive keeps the old totals
+      const hash = await reactor.write.pollFeed(
+        [feedId, 1n, parseUnits("3000", 18), testUpdatedAt, 1n],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [forwarded] = parseEventLogs({
+        abi: reactor.abi,
+        eventName: "UpdateForwarded",
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(forwarded.args.reason, UpdateReason.FirstUpdate);
+      assert.equal(
+        (await reactor.read.getFeedMetrics([feedId])).totalEventsReceived,
+        1n
+      );
+      assert.equal(
+        (await reactor.read.getArchivedMetrics([feedId])).totalEventsReceived,
+        1n
+      );
+    });
+
+    it("Should deregister derived feeds before the feeds they are built on", async function () {
+      // The aggregate registered under "Aggregate Feeds"
+      const [registered] = (await publicClient.getContractEvents({
+        address: reactor.address,
+        abi: reactor.abi,
+        eventName: "AggregateRegistered",
+        fromBlock: 0n,
+      })) as any[];
+      const aggregateId = registered.args.feedId;
+      const [sourceId] = (
+        await reactor.read.getAggregateSources([aggregateId])
+      ).map((source: any) => source.feedId);
+
+      await viem.assertions.revertWithCustomError(
+        reactor.write.deregisterFeed([sourceId], { account: owner.account }),
+        reactor,
+        "FeedHasDependents"
+      );
+      await reactor.write.deregisterFeed([aggregateId], {
+        account: owner.account,
+      });
+      assert.deepEqual(
+        await reactor.read.getAggregateSources([aggregateId]),
+        []
+      );
+      assert.deepEqual(await reactor.read.aggregates([aggregateId]), [0, 0, 0]);
+
+      await viem.assertions.emitWithArgs(
+        reactor.write.deregisterFeed([sourceId], { account: owner.account }),
+        reactor,
+        "FeedDeregistered",
+        [sourceId]
+      );
     });
   });
 });
@@ -0,0 +1,396 @@
+import assert from "node:assert/strict";
+import { describe, it, before } from "node:test";
+import { network } from "hardhat";
+import { parseEventLogs, type Address } from "viem";
+import {
+  adaptiveThreshold,
+  ArithmeticPanicError,
+  calculateDeviation,
+  calculateTwap,
+  decidePoll,
+  destinationDecisionConfig,
+  DeviationMode,
+  getSkipReason,
+  nextVolatility,
+  shouldForward,
+  type DecisionConfig,
+} from "../frontend/src/decision.js";
+
+const INT256_MIN = -(1n << 255n);
+const INT256_MAX = (1n << 255n) - 1n;
+const UINT256_MAX = (1n << 256n) - 1n;
+
+/**
+ * Small seeded PRNG so a failing input can be reproduced from the seed
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const bits = (count: number) => {
+    let value = 0n;
+    for (let i = 0; i < count; i += 32) {
+      value = (value << 32n) | BigInt(int(2 ** 32));
+    }
+    return value & ((1n << BigInt(count)) - 1n);
+  };
+  const pick = <T>(values: T[]) => values[int(values.length)];
+
+  return { next, int, bits, pick };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Prices: mostly realistic 8-decimal values, plus the edges of int256 */
+function randomPrice(random: Random): bigint {
+  switch (random.int(6)) {
+    case 0:
+      return random.pick([0n, 1n, -1n, INT256_MIN, INT256_MAX, 10n ** 18n]);
+    case 1:
+      return random.bits(255) - (1n << 254n);
+    case 2:
+      return -BigInt(random.int(1e9));
+    default:
+      return BigInt(random.int(5e6)) * 10n ** 6n + BigInt(random.int(1e6));
+  }
+}
+
+/** A price within a few percent of a reference, to land near thresholds */
+function nearbyPrice(random: Random, reference: bigint): bigint {
+  const bps = BigInt(random.int(400)) - 200n;
+  return reference + (reference * bps) / 10000n + BigInt(random.int(3) - 1);
+}
+
+function randomTime(random: Random): bigint {
+  switch (random.int(5)) {
+    case 0:
+      return random.pick([0n, UINT256_MAX, UINT256_MAX - 3600n]);
+    case 1:
+      return random.bits(256);
+    default:
+      return 1_700_000_000n + BigInt(random.int(1e6));
+  }
+}
+
+function randomConfig(random: Random): DecisionConfig {
+  return {
+    lastSentPrice: random.int(8) === 0 ? 0n : randomPrice(random),
+    lastSentTime: randomTime(random),
+    deviationThreshold: BigInt(1 + random.int(10000)),
+    adaptive: random.int(2) === 0,
+    heartbeat: random.pick([
+      60n,
+      3600n,
+      86400n,
+      BigInt(60 + random.int(1e6)),
+      random.bits(256),
+    ]),
+    lastProcessedRoundId: 0n,
+  };
+}
+
+/**
+ * Run a TS computation and the matching contract call and require the same
+ * outcome: equal results, or a revert wherever the TS side panics
+ */
+async function assertSameOutcome<T>(
+  label: string,
+  local: () => T,
+  onChain: () => Promise<T>
+) {
+  let expected: T | ArithmeticPanicError;
+  try {
+    expected = local();
+  } catch (error) {
+    if (!(error instanceof ArithmeticPanicError)) throw error;
+    expected = error;
+  }
+
+  if (expected instanceof ArithmeticPanicError) {
+    await assert.rejects(onChain(), `${label}: contract should revert`);
+  } else {
+    assert.deepEqual(await onChain(), expected, label);
+  }
+}
+
+describe("Decision engine (differential)", async function () {
+  // The harness's wrappers push it past the 24KB code size limit the reactor
+  // itself has to fit in
+  const { viem } = await network.connect({
+    override: { allowUnlimitedContractSize: true },
+  });
+  const publicClient = await viem.getPublicClient();
+  const [owner] = await viem.getWalletClients();
+
+  const ITERATIONS = 2000;
+
+  let harness: any;
+
+  before(async function () {
+    harness = await viem.deployContract("ChainlinkFeedReactorHarness", [], {
+      libraries: {
+        AdminTimelock: (await viem.deployContract("AdminTimelock")).address,
+        DerivedFeeds: (await viem.deployContract("DerivedFeeds")).address,
+        FeedArchive: (await viem.deployContract("FeedArchive")).address,
+      },
+    });
+  });
+
+  it("Should match _calculateDeviation", async function () {
+    const random = createRandom(1);
+    for (let i = 0; i < ITERATIONS; i++) {
+      const oldPrice = randomPrice(random);
+      const newPrice =
+        random.int(2) === 0
+          ? nearbyPrice(random, oldPrice)
+          : randomPrice(random);
+      if (newPrice < INT256_MIN || newPrice > INT256_MAX) continue;
+
+      await assertSameOutcome(
+        `calculateDeviation(${newPrice}, ${oldPrice})`,
+        () => calculateDeviation(newPrice, oldPrice),
+        () => harness.read.calculateDeviation([newPrice, oldPrice])
+      );
+    }
+  });
+
+  it("Should match _shouldForward and _getSkipReason", async function () {
+    const random = createRandom(2);
+    for (let i = 0; i < ITERATIONS; i++) {
+      const config = randomConfig(random);
+      const newPrice =
+        random.int(3) === 0
+          ? randomPrice(random)
+          : nearbyPrice(random, config.lastSentPrice || 3000n * 10n ** 8n);
+      const updatedAt =
+        random.int(3) === 0
+          ? randomTime(random)
+          : config.lastSentTime + config.heartbeat + BigInt(random.int(5) - 2);
+      if (
+        newPrice < INT256_MIN ||
+        newPrice > INT256_MAX ||
+        updatedAt < 0n ||
+        updatedAt > UINT256_MAX
+      ) {
+        continue;
+      }
+
+      const args = [
+        config.lastSentPrice,
+        config.lastSentTime,
+        config.deviationThreshold,
+        config.heartbeat,
+        newPrice,
+        updatedAt,
+      ];
+      const label = `config ${JSON.stringify(config, (_k, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      )}, newPrice ${newPrice}, updatedAt ${updatedAt}`;
+
+      await assertSameOutcome(
+        `shouldForward: ${label}`,
+        () => {
+          const decision = shouldForward(config, newPrice, updatedAt);
+          return [decision.shouldForward, decision.reason];
+        },
+        () =>
+          harness.read.shouldForward([
+            ...args.slice(0, 4),
+            config.adaptive,
+            ...args.slice(4),
+          ])
+      );
+      await assertSameOutcome(
+        `getSkipReason: ${label}`,
+        () => getSkipReason(config, newPrice),
+        () => harness.read.getSkipReason(args)
+      );
+    }
+  });
+
+  it("Should predict every pollFeed() decision", async function () {
+    const random = createRandom(3);
+    const feedAddress = "0x4444444444444444444444444444444444444444" as Address;
+    await harness.write.registerFeed(
+      [11155111n, feedAddress, 97n, feedAddress, 8, "ETH/USD", 50n, 3600n],
+      { account: owner.account }
+    );
+    const [feedId] = await harness.read.getAllFeeds();
+    // A second destination with its own thresholds exercises the overrides
+    await harness.write.addDestination([feedId, 56n, feedAddress, 200n, 600n], {
+      account: owner.account,
+    });
+
+    let roundId = 1n;
+    for (let i = 0; i < 300; i++) {
+      // Move each destination to a random last-sent state within realistic bounds
+      const lastSentPrice = BigInt(1 + random.int(1e6)) * 10n ** 5n;
+      const lastSentTime = 1_700_000_000n + BigInt(random.int(1e6));
+      for (const index of [0n, 1n]) {
+        await harness.write.realignLastSent(
+          [
+            feedId,
+            index,
+            nearbyPrice(random, lastSentPrice),
+            lastSentTime + BigInt(random.int(600)),
+          ],
+          { account: owner.account }
+        );
+      }
+
+      const feed = await harness.read.getFeedConfig([feedId]);
+      const destinations = await harness.read.getDestinations([feedId]);
+      const answer =
+        random.int(10) === 0
+          ? -BigInt(random.int(100))
+          : nearbyPrice(random, lastSentPrice);
+      const updatedAt = lastSentTime + BigInt(random.int(7200));
+      const pollRound = random.int(10) === 0 ? roundId - 1n : roundId + 1n;
+      if (pollRound > roundId) roundId = pollRound;
+
+      const hash = await harness.write.pollFeed(
+        [feedId, pollRound, answer, updatedAt, pollRound],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: harness.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(events.length, destinations.length);
+
+      for (const event of events) {
+        const index = Number(event.args.destinationIndex);
+        const expected = decidePoll(
+          destinationDecisionConfig(feed, destinations[index], 0n),
+          pollRound,
+          answer,
+          updatedAt
+        );
+        if (expected.shouldForward) {
+          assert.equal(event.eventName, "UpdateForwarded");
+          assert.equal(event.args.reason, expected.reason);
+        } else {
+          assert.equal(event.eventName, "UpdateSkipped");
+          assert.equal(event.args.reason, expected.skipReason);
+        }
+      }
+    }
+  });
+
+  it("Should match _nextVolatility and _adaptiveThreshold", async function () {
+    const random = createRandom(4);
+    for (let i = 0; i < ITERATIONS; i++) {
+      const current = random.int(4) === 0 ? random.bits(256) : random.bits(16);
+      const previousAnswer = randomPrice(random);
+      const answer = nearbyPrice(random, previousAnswer);
+      if (answer < INT256_MIN || answer > INT256_MAX) continue;
+      await assertSameOutcome(
+        `nextVolatility(${current}, ${answer}, ${previousAnswer})`,
+        () => nextVolatility(current, answer, previousAnswer),
+        () => harness.read.nextVolatility([current, answer, previousAnswer])
+      );
+
+      const minDeviation = BigInt(1 + random.int(500));
+      const maxDeviation = minDeviation + BigInt(random.int(2000));
+      await assertSameOutcome(
+        `adaptiveThreshold(${current}, ${minDeviation}, ${maxDeviation})`,
+        () => adaptiveThreshold(current, minDeviation, maxDeviation),
+        () =>
+          harness.read.adaptiveThreshold([current, minDeviation, maxDeviation])
+      );
+    }
+  });
+
+  it("Should predict adaptive and TWAP decisions", async function () {
+    const random = createRandom(5);
+    const feedAddress = "0x5555555555555555555555555555555555555555" as Address;
+    await harness.write.registerFeed(
+      [11155111n, feedAddress, 97n, feedAddress, 8, "BTC/USD", 50n, 3600n],
+      { account: owner.account }
+    );
+    const feedIds = await harness.read.getAllFeeds();
+    const feedId = feedIds[feedIds.length - 1];
+    await harness.write.updateFeedConfig(
+      [feedId, 50n, 3600n, DeviationMode.Adaptive, 20n, 400n, 900n],
+      { account: owner.account }
+    );
+    // Destination 1 keeps a fixed override, destination 2 is sent the TWAP
+    await harness.write.addDestination([feedId, 56n, feedAddress, 100n, 0n], {
+      account: owner.account,
+    });
+    await harness.write.addTwapDestination(
+      [feedId, 8453n, feedAddress, 0n, 0n],
+      { account: owner.account }
+    );
+
+    let price = 60_000n * 10n ** 8n;
+    let updatedAt = 1_700_000_000n;
+    for (let roundId = 1n; roundId <= 150n; roundId++) {
+      // Calm stretches with occasional jumps, and an invalid answer now and then
+      price =
+        random.int(8) === 0
+          ? nearbyPrice(random, nearbyPrice(random, price))
+          : price + (price * BigInt(random.int(21) - 10)) / 10000n;
+      updatedAt += BigInt(1 + random.int(600));
+      const answer = random.int(20) === 0 ? 0n : price;
+
+      const [feed, destinations, volatility, observations] = await Promise.all([
+        harness.read.getFeedConfig([feedId]),
+        harness.read.getDestinations([feedId]),
+        harness.read.volatility([feedId]),
+        harness.read.getObservations([feedId]),
+      ]);
+      const twap =
+        answer > 0n
+          ? calculateTwap(
+              observations,
+              answer,
+              updatedAt,
+              feed.twapWindow || feed.heartbeat
+            )
+          : answer;
+
+      const hash = await harness.write.pollFeed(
+        [feedId, roundId, answer, updatedAt, roundId],
+        { account: owner.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const events = parseEventLogs({
+        abi: harness.abi,
+        eventName: ["UpdateForwarded", "UpdateSkipped"],
+        logs: receipt.logs,
+      }) as any[];
+      assert.equal(events.length, destinations.length);
+
+      for (const event of events) {
+        const index = Number(event.args.destinationIndex);
+        const sent = destinations[index].twap ? twap : answer;
+        assert.equal(event.args.price, sent, `round ${roundId}`);
+        const expected = decidePoll(
+          destinationDecisionConfig(feed, destinations[index], volatility),
+          roundId,
+          sent,
+          updatedAt
+        );
+        if (expected.shouldForward) {
+          assert.equal(event.eventName, "UpdateForwarded");
+          assert.equal(event.args.reason, expected.reason);
+          await harness.write.confirmForward([feedId, BigInt(index), roundId], {
+            account: owner.account,
+          });
+        } else {
+          assert.equal(event.eventName, "UpdateSkipped");
+          assert.equal(event.args.reason, expected.skipReason);
+        }
+      }
+    }
+  });
+});
@@ -2,10 +2,18 @@ import assert from "node:assert/strict";
 import { describe, it, before } from "node:test";
 import { network } from "hardhat";
 import { parseEther, parseUnits } from "viem";
-import { getAddress, type Address } from "viem";
+import {
+  encodeFunctionData,
+  getAddress,
+  parseEventLogs,
+  type Address,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { signReport } from "../scripts/relayer/signing.js";
+import type { Destination } from "../scripts/relayer/types.js";
 
 describe("FeedProxy", async function () {
-  const { viem } = await network.connect();
+  const { viem, networkHelpers } = await network.connect();
   const publicClient = await viem.getPublicClient();
   const [owner, authorizedSender, unauthorizedSender] =
     await viem.getWalletClients();
@@ -124,16 +132,34 @@ describe("FeedProxy", async function () {
           account: owner.account,
         }),
         feedProxy,
-        "OwnershipTransferred",
+        "OwnershipTransferStarted",
         [owner.account.address, newOwner]
       );
+      assert.equal(
+        await feedProxy.read.owner(),
+        getAddress(owner.account.address)
+      );
+      assert.equal(await feedProxy.read.pendingOwner(), getAddress(newOwner));
 
-      assert.equal(await feedProxy.read.owner(), newOwner);
+      await assert.rejects(
+        feedProxy.write.acceptOwnership({ account: authorizedSender.account }),
+        /Unauthorized/
+      );
+      await viem.assertions.emitWithArgs(
+        feedProxy.write.acceptOwnership({
+          account: unauthorizedSender.account,
+        }),
+        feedProxy,
+        "OwnershipTransferred",
+        [owner.account.address, newOwner]
+      );
+      assert.equal(await feedProxy.read.owner(), getAddress(newOwner));
 
       // Transfer back for other tests
       await feedProxy.write.transferOwnership([owner.account.address], {
         account: newOwner as Address,
       });
+      await feedProxy.write.acceptOwnership({ account: owner.account });
     });
   });
 
@@ -393,4 +419,1062 @@ describe("FeedProxy", async function () {
       assert.equal(await feedProxy.read.description(), newDescription);
     });
   });
+
+  describe("Backfill", function () {
+    let proxy: any;
+    let now: bigint;
+
+    const historicalRound = (roundId: bigint, secondsAgo: bigint) => ({
+      roundId,
+      answer: parseUnits("3000", decimals) + roundId,
+      startedAt: now - secondsAgo - 12n,
+      updatedAt: now - secondsAgo,
+      answeredInRound: roundId,
+    });
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should reject backfill until the owner enables it", async function () {
+      await assert.rejects(
+        proxy.write.backfillRounds([[historicalRound(1n, 30n * heartbeat)]], {
+          account: authorizedSender.account,
+        }),
+        /BackfillDisabled/
+      );
+      await assert.rejects(
+        proxy.write.setBackfillMode([true], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+
+      await viem.assertions.emitWithArgs(
+        proxy.write.setBackfillMode([true], { account: owner.account }),
+        proxy,
+        "BackfillModeUpdated",
+        [true]
+      );
+      assert.equal(await proxy.read.backfillEnabled(), true);
+    });
+
+    it("Should store historical rounds without setting the latest round", async function () {
+      const rounds = [
+        historicalRound(1n, 30n * heartbeat),
+        historicalRound(2n, 20n * heartbeat),
+      ];
+      await viem.assertions.emitWithArgs(
+        proxy.write.backfillRounds([rounds], {
+          account: authorizedSender.account,
+        }),
+        proxy,
+        "RoundsBackfilled",
+        [1n, 2n, 2n]
+      );
+
+      const [roundId, answer, startedAt, updatedAt] =
+        await proxy.read.getRoundData([1n]);
+      assert.equal(roundId, 1n);
+      assert.equal(answer, rounds[0].answer);
+      assert.equal(startedAt, rounds[0].startedAt);
+      assert.equal(updatedAt, rounds[0].updatedAt);
+      await assert.rejects(proxy.read.latestRoundData(), /NoDataAvailable/);
+      assert.equal(await proxy.read.totalUpdates(), 0n);
+    });
+
+    it("Should never move the latest round backwards", async function () {
+      await proxy.write.updateRoundData(
+        [10n, parseUnits("3100", decimals), now, 10n],
+        {
+          account: authorizedSender.account,
+        }
+      );
+
+      await assert.rejects(
+        proxy.write.backfillRounds([[historicalRound(10n, heartbeat)]], {
+          account: authorizedSender.account,
+        }),
+        /InvalidRound/
+      );
+      await proxy.write.backfillRounds(
+        [[historicalRound(2n, 0n), historicalRound(5n, heartbeat)]],
+        { account: authorizedSender.account }
+      );
+
+      const [latestRoundId] = await proxy.read.latestRoundData();
+      assert.equal(latestRoundId, 10n);
+      // Round 2 was already stored and is left untouched
+      const [, , , round2UpdatedAt] = await proxy.read.getRoundData([2n]);
+      assert.equal(round2UpdatedAt, now - 20n * heartbeat);
+      const [round5] = await proxy.read.getRoundData([5n]);
+      assert.equal(round5, 5n);
+    });
+
+    it("Should reject invalid historical rounds", async function () {
+      await assert.rejects(
+        proxy.write.backfillRounds(
+          [[{ ...historicalRound(3n, heartbeat), answer: 0n }]],
+          { account: authorizedSender.account }
+        ),
+        /InvalidAnswer/
+      );
+      await assert.rejects(
+        proxy.write.backfillRounds(
+          [[{ ...historicalRound(3n, heartbeat), updatedAt: now + 3600n }]],
+          { account: authorizedSender.account }
+        ),
+        /InvalidTimestamp/
+      );
+      await assert.rejects(
+        proxy.write.backfillRounds(
+          [[{ ...historicalRound(3n, heartbeat), startedAt: now }]],
+          { account: authorizedSender.account }
+        ),
+        /InvalidTimestamp/
+      );
+      await assert.rejects(
+        proxy.write.backfillRounds([[historicalRound(3n, heartbeat)]], {
+          account: unauthorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+    });
+  });
+
+  describe("startedAt", function () {
+    let proxy: any;
+    let now: bigint;
+    const answer = parseUnits("3000", decimals);
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should store the origin startedAt", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundData([1n, answer, now - 30n, now, 1n], {
+          account: authorizedSender.account,
+        }),
+        proxy,
+        "NewRound",
+        [1n, authorizedSender.account.address, now - 30n]
+      );
+
+      const [, , startedAt, updatedAt] = await proxy.read.latestRoundData();
+      assert.equal(startedAt, now - 30n);
+      assert.equal(updatedAt, now);
+      const [, , roundStartedAt] = await proxy.read.getRoundData([1n]);
+      assert.equal(roundStartedAt, now - 30n);
+    });
+
+    it("Should use updatedAt as startedAt for the legacy signature", async function () {
+      await proxy.write.updateRoundData([2n, answer, now + 1n, 2n], {
+        account: authorizedSender.account,
+      });
+
+      const [, , startedAt, updatedAt] = await proxy.read.latestRoundData();
+      assert.equal(startedAt, now + 1n);
+      assert.equal(updatedAt, now + 1n);
+    });
+
+    it("Should reject a startedAt of zero or after updatedAt", async function () {
+      await assert.rejects(
+        proxy.write.updateRoundData([3n, answer, 0n, now + 2n, 3n], {
+          account: authorizedSender.account,
+        }),
+        /InvalidTimestamp/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundData([3n, answer, now + 3n, now + 2n, 3n], {
+          account: authorizedSender.account,
+        }),
+        /InvalidTimestamp/
+      );
+    });
+  });
+
+  describe("Reactive Callbacks", function () {
+    let proxy: any;
+    let now: bigint;
+    // Stands in for the destination chain's callback proxy
+    let callbackProxy: Address;
+    const rvmId = "0x1111111111111111111111111111111111111111" as Address;
+    const answer = parseUnits("3000", decimals);
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      callbackProxy = unauthorizedSender.account.address;
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should reject callbacks until the owner sets the callback proxy", async function () {
+      await assert.rejects(
+        proxy.write.updateRoundDataCallback(
+          [
+            "0x0000000000000000000000000000000000000000",
+            1n,
+            answer,
+            now,
+            now,
+            1n,
+          ],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+      await assert.rejects(
+        proxy.write.setReactiveCallback([callbackProxy, rvmId], {
+          account: unauthorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+
+      await viem.assertions.emitWithArgs(
+        proxy.write.setReactiveCallback([callbackProxy, rvmId], {
+          account: owner.account,
+        }),
+        proxy,
+        "ReactiveCallbackUpdated",
+        [getAddress(callbackProxy), getAddress(rvmId)]
+      );
+      assert.equal(await proxy.read.callbackProxy(), getAddress(callbackProxy));
+      assert.equal(await proxy.read.rvmId(), getAddress(rvmId));
+    });
+
+    it("Should store rounds from the callback proxy carrying the RVM ID", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundDataCallback(
+          [rvmId, 1n, answer, now - 30n, now, 1n],
+          { account: unauthorizedSender.account }
+        ),
+        proxy,
+        "NewRound",
+        [1n, getAddress(callbackProxy), now - 30n]
+      );
+
+      const [roundId, latestAnswer, startedAt, updatedAt] =
+        await proxy.read.latestRoundData();
+      assert.equal(roundId, 1n);
+      assert.equal(latestAnswer, answer);
+      assert.equal(startedAt, now - 30n);
+      assert.equal(updatedAt, now);
+    });
+
+    it("Should reject other senders and RVM IDs", async function () {
+      await assert.rejects(
+        proxy.write.updateRoundDataCallback([rvmId, 2n, answer, now, now, 2n], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundDataCallback(
+          [owner.account.address, 2n, answer, now, now, 2n],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+    });
+  });
+
+  describe("AggregatorV2V3Interface", function () {
+    let proxy: any;
+    let now: bigint;
+    const answer = parseUnits("3000", decimals);
+    const phaseRound = (1n << 64n) | 7n;
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should return zero before the first round", async function () {
+      assert.equal(await proxy.read.latestAnswer(), 0n);
+      assert.equal(await proxy.read.latestTimestamp(), 0n);
+      assert.equal(await proxy.read.latestRound(), 0n);
+      assert.equal(await proxy.read.getAnswer([1n]), 0n);
+      assert.equal(await proxy.read.getTimestamp([1n]), 0n);
+    });
+
+    it("Should serve the latest and historical rounds", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundData([phaseRound, answer, now, phaseRound], {
+          account: authorizedSender.account,
+        }),
+        proxy,
+        "AnswerUpdated",
+        [answer, phaseRound, now]
+      );
+      await proxy.write.updateRoundData(
+        [phaseRound + 1n, answer + 1n, now + 1n, phaseRound + 1n],
+        { account: authorizedSender.account }
+      );
+
+      assert.equal(await proxy.read.latestAnswer(), answer + 1n);
+      assert.equal(await proxy.read.latestTimestamp(), now + 1n);
+      assert.equal(await proxy.read.latestRound(), phaseRound + 1n);
+      assert.equal(await proxy.read.getAnswer([phaseRound]), answer);
+      assert.equal(await proxy.read.getTimestamp([phaseRound]), now);
+    });
+
+    it("Should return zero for unknown or out-of-range round IDs", async function () {
+      assert.equal(await proxy.read.getAnswer([7n]), 0n);
+      assert.equal(await proxy.read.getTimestamp([phaseRound + 2n]), 0n);
+      const tooLarge = (1n << 80n) | phaseRound;
+      assert.equal(await proxy.read.getAnswer([tooLarge]), 0n);
+      assert.equal(await proxy.read.getTimestamp([tooLarge]), 0n);
+    });
+  });
+
+  describe("Signed Reports", function () {
+    let proxy: any;
+    let now: bigint;
+    let signers: any[];
+    const answer = parseUnits("3000", decimals);
+
+    const signRound = (signer: any, target: any, round: readonly bigint[]) =>
+      signer.signTypedData({
+        domain: {
+          name: "FeedProxy",
+          version: "1",
+          chainId: publicClient.chain.id,
+          verifyingContract: target.address,
+        },
+        types: {
+          Report: [
+            { name: "roundId", type: "uint80" },
+            { name: "answer", type: "int256" },
+            { name: "startedAt", type: "uint256" },
+            { name: "updatedAt", type: "uint256" },
+            { name: "answeredInRound", type: "uint80" },
+          ],
+        },
+        primaryType: "Report",
+        message: {
+          roundId: round[0],
+          answer: round[1],
+          startedAt: round[2],
+          updatedAt: round[3],
+          answeredInRound: round[4],
+        },
+      });
+
+    /** Signatures in the ascending signer order the contract requires */
+    const signAll = (group: any[], target: any, round: readonly bigint[]) =>
+      Promise.all(
+        [...group]
+          .sort((a, b) =>
+            BigInt(a.account.address) < BigInt(b.account.address) ? -1 : 1
+          )
+          .map((signer) => signRound(signer, target, round))
+      );
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      signers = (await viem.getWalletClients()).slice(3, 6);
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should let the owner configure the signer set", async function () {
+      const addresses = signers.map((signer) =>
+        getAddress(signer.account.address)
+      );
+      await viem.assertions.emitWithArgs(
+        proxy.write.setSigners([addresses, 2n], { account: owner.account }),
+        proxy,
+        "SignersUpdated",
+        [addresses, 2n]
+      );
+      assert.deepEqual(await proxy.read.getSigners(), addresses);
+      assert.equal(await proxy.read.signatureThreshold(), 2n);
+
+      await assert.rejects(
+        proxy.write.setSigners([addresses, 4n], { account: owner.account }),
+        /InvalidSignerSet/
+      );
+      await assert.rejects(
+        proxy.write.setSigners([[addresses[0], addresses[0]], 1n], {
+          account: owner.account,
+        }),
+        /InvalidSignerSet/
+      );
+      await assert.rejects(
+        proxy.write.setSigners([addresses, 2n], {
+          account: unauthorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+    });
+
+    it("Should accept a report from any sender once the threshold signs", async function () {
+      const round = [1n, answer, now - 5n, now, 1n] as const;
+      const signatures = await signAll(signers.slice(0, 2), proxy, round);
+
+      await proxy.write.updateRoundDataSigned([...round, signatures], {
+        account: unauthorizedSender.account,
+      });
+
+      const [roundId, latestAnswer, startedAt] =
+        await proxy.read.latestRoundData();
+      assert.equal(roundId, 1n);
+      assert.equal(latestAnswer, answer);
+      assert.equal(startedAt, now - 5n);
+      const attested = await proxy.read.getRoundSigners([1n]);
+      assert.deepEqual(
+        [...attested].sort(),
+        signers
+          .slice(0, 2)
+          .map((signer) => getAddress(signer.account.address))
+          .sort()
+      );
+    });
+
+    it("Should reject reports below the threshold or with bad signatures", async function () {
+      const round = [2n, answer + 1n, now + 1n, now + 1n, 2n] as const;
+      const [one] = await signAll(signers.slice(0, 1), proxy, round);
+      const pair = await signAll(signers.slice(0, 2), proxy, round);
+
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned([...round, [one]], {
+          account: unauthorizedSender.account,
+        }),
+        /InsufficientSignatures/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned([...round, [one, one]], {
+          account: unauthorizedSender.account,
+        }),
+        /InvalidSignature/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned([...round, [...pair].reverse()], {
+          account: unauthorizedSender.account,
+        }),
+        /InvalidSignature/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned(
+          [2n, answer + 2n, now + 1n, now + 1n, 2n, pair],
+          { account: unauthorizedSender.account }
+        ),
+        /InvalidSignature/
+      );
+      const outsiders = await signAll([owner, authorizedSender], proxy, round);
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned([...round, outsiders], {
+          account: unauthorizedSender.account,
+        }),
+        /InvalidSignature/
+      );
+    });
+
+    it("Should accept reports signed by the relayer", async function () {
+      const accounts = [generatePrivateKey(), generatePrivateKey()].map((key) =>
+        privateKeyToAccount(key)
+      );
+      await proxy.write.setSigners(
+        [accounts.map((account) => account.address), 2n],
+        { account: owner.account }
+      );
+      const round = {
+        roundId: 3n,
+        answer: answer + 3n,
+        startedAt: now + 3n,
+        updatedAt: now + 3n,
+        answeredInRound: 3n,
+      };
+      const destination = {
+        chainId: BigInt(publicClient.chain.id),
+        proxy: proxy.address,
+      } as Destination;
+      const signed = await Promise.all(
+        accounts.map((account) => signReport(account, destination, round))
+      );
+      signed.sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1));
+
+      await proxy.write.updateRoundDataSigned(
+        [
+          round.roundId,
+          round.answer,
+          round.startedAt,
+          round.updatedAt,
+          round.answeredInRound,
+          signed.map(({ signature }) => signature),
+        ],
+        { account: unauthorizedSender.account }
+      );
+      assert.deepEqual(
+        await proxy.read.getRoundSigners([3n]),
+        signed.map(({ signer }) => signer)
+      );
+    });
+
+    it("Should not record signers for a quarantined report", async function () {
+      await proxy.write.setSigners(
+        [signers.map((signer) => signer.account.address), 2n],
+        { account: owner.account }
+      );
+      await proxy.write.setPriceGuards([0n, 0n, 1000n, true], {
+        account: owner.account,
+      });
+      const at = (await publicClient.getBlock()).timestamp;
+      const round = [4n, answer * 2n, at, at, 4n] as const;
+      const signatures = await signAll(signers.slice(0, 2), proxy, round);
+
+      const hash = await proxy.write.updateRoundDataSigned(
+        [...round, signatures],
+        { account: unauthorizedSender.account }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const logs = parseEventLogs({ abi: proxy.abi, logs: receipt.logs });
+      assert.deepEqual(
+        logs.map((log: any) => log.eventName),
+        ["RoundQuarantined"]
+      );
+      assert.deepEqual(await proxy.read.getRoundSigners([4n]), []);
+      const [latestRound] = await proxy.read.latestRoundData();
+      assert.equal(latestRound, 3n);
+    });
+
+    it("Should bind reports to one proxy", async function () {
+      const other = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      const round = [2n, answer + 1n, now + 1n, now + 1n, 2n] as const;
+      const signatures = await signAll(signers.slice(0, 2), other, round);
+
+      await assert.rejects(
+        proxy.write.updateRoundDataSigned([...round, signatures], {
+          account: unauthorizedSender.account,
+        }),
+        /InvalidSignature/
+      );
+    });
+  });
+
+  describe("Price Guards", function () {
+    let proxy: any;
+    let now: bigint;
+    const answer = parseUnits("3000", decimals);
+    const GuardViolation = {
+      BelowMinAnswer: 1,
+      AboveMaxAnswer: 2,
+      DeviationTooLarge: 3,
+    };
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+      await proxy.write.updateRoundData([1n, answer, now, 1n], {
+        account: authorizedSender.account,
+      });
+    });
+
+    it("Should let only the owner set valid guards", async function () {
+      const min = parseUnits("100", decimals);
+      const max = parseUnits("100000", decimals);
+      await viem.assertions.emitWithArgs(
+        proxy.write.setPriceGuards([min, max, 1000n, false], {
+          account: owner.account,
+        }),
+        proxy,
+        "PriceGuardsUpdated",
+        [min, max, 1000n, false]
+      );
+      assert.equal(await proxy.read.minAnswer(), min);
+      assert.equal(await proxy.read.maxDeviationBps(), 1000n);
+
+      await assert.rejects(
+        proxy.write.setPriceGuards([max, min, 0n, false], {
+          account: owner.account,
+        }),
+        /InvalidPriceGuards/
+      );
+      await assert.rejects(
+        proxy.write.setPriceGuards([min, max, 1000n, false], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+    });
+
+    it("Should reject out-of-bounds answers and large jumps", async function () {
+      await assert.rejects(
+        proxy.write.updateRoundData(
+          [2n, parseUnits("50", decimals), now + 1n, 2n],
+          { account: authorizedSender.account }
+        ),
+        /PriceGuardTripped/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundData(
+          [2n, parseUnits("200000", decimals), now + 1n, 2n],
+          { account: authorizedSender.account }
+        ),
+        /PriceGuardTripped/
+      );
+      // 10% is allowed, anything above is not
+      await assert.rejects(
+        proxy.write.updateRoundData(
+          [2n, (answer * 11n) / 10n + 1n, now + 1n, 2n],
+          {
+            account: authorizedSender.account,
+          }
+        ),
+        /PriceGuardTripped/
+      );
+      await proxy.write.updateRoundData(
+        [2n, (answer * 11n) / 10n, now + 1n, 2n],
+        {
+          account: authorizedSender.account,
+        }
+      );
+      const [roundId] = await proxy.read.latestRoundData();
+      assert.equal(roundId, 2n);
+    });
+
+    it("Should quarantine tripping rounds when enabled", async function () {
+      await proxy.write.setPriceGuards([0n, 0n, 1000n, true], {
+        account: owner.account,
+      });
+      const spike = answer * 100n;
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundData([3n, spike, now + 2n, 3n], {
+          account: authorizedSender.account,
+        }),
+        proxy,
+        "RoundQuarantined",
+        [3n, spike, GuardViolation.DeviationTooLarge]
+      );
+
+      const [latestRoundId] = await proxy.read.latestRoundData();
+      assert.equal(latestRoundId, 2n);
+      const [quarantinedAnswer] = await proxy.read.getQuarantinedRound([3n]);
+      assert.equal(quarantinedAnswer, spike);
+      assert.equal(await proxy.read.totalUpdates(), 2n);
+    });
+
+    it("Should let the owner apply or discard quarantined rounds", async function () {
+      await assert.rejects(
+        proxy.write.applyQuarantinedRound([3n], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+      await viem.assertions.emitWithArgs(
+        proxy.write.applyQuarantinedRound([3n], { account: owner.account }),
+        proxy,
+        "QuarantinedRoundApplied",
+        [3n]
+      );
+      const [roundId, latestAnswer] = await proxy.read.latestRoundData();
+      assert.equal(roundId, 3n);
+      assert.equal(latestAnswer, answer * 100n);
+      await assert.rejects(
+        proxy.read.getQuarantinedRound([3n]),
+        /NoDataAvailable/
+      );
+
+      await proxy.write.updateRoundData([4n, answer, now + 3n, 4n], {
+        account: authorizedSender.account,
+      });
+      await proxy.write.discardQuarantinedRound([4n], {
+        account: owner.account,
+      });
+      await assert.rejects(
+        proxy.write.applyQuarantinedRound([4n], { account: owner.account }),
+        /NoDataAvailable/
+      );
+    });
+  });
+
+  describe("Phases", function () {
+    let proxy: any;
+    let now: bigint;
+    const phaseRound = (phase: bigint, aggregatorRound: bigint) =>
+      (phase << 64n) | aggregatorRound;
+    const answer = parseUnits("3000", decimals);
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+    });
+
+    it("Should track the phase of Chainlink proxy round IDs", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundData(
+          [phaseRound(1n, 500n), answer, now, phaseRound(1n, 500n)],
+          { account: authorizedSender.account }
+        ),
+        proxy,
+        "PhaseChanged",
+        [0, 1, phaseRound(1n, 500n)]
+      );
+      assert.equal(await proxy.read.phaseId(), 1);
+    });
+
+    it("Should accept the restarted round IDs of a new phase", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.updateRoundData(
+          [phaseRound(2n, 1n), answer + 1n, now + 1n, phaseRound(2n, 1n)],
+          { account: authorizedSender.account }
+        ),
+        proxy,
+        "PhaseChanged",
+        [1, 2, phaseRound(2n, 1n)]
+      );
+
+      const [latestRoundId] = await proxy.read.latestRoundData();
+      assert.equal(latestRoundId, phaseRound(2n, 1n));
+      const [oldRoundId, oldAnswer] = await proxy.read.getRoundData([
+        phaseRound(1n, 500n),
+      ]);
+      assert.equal(oldRoundId, phaseRound(1n, 500n));
+      assert.equal(oldAnswer, answer);
+      await assert.rejects(
+        proxy.read.getRoundData([phaseRound(2n, 500n)]),
+        /NoDataAvailable/
+      );
+    });
+
+    it("Should reject rounds from an older phase or without an aggregator round", async function () {
+      await assert.rejects(
+        proxy.write.updateRoundData(
+          [phaseRound(1n, 501n), answer, now + 2n, phaseRound(1n, 501n)],
+          { account: authorizedSender.account }
+        ),
+        /InvalidRound/
+      );
+      await assert.rejects(
+        proxy.write.updateRoundData(
+          [phaseRound(3n, 0n), answer, now + 2n, phaseRound(3n, 0n)],
+          { account: authorizedSender.account }
+        ),
+        /InvalidRound/
+      );
+    });
+
+    it("Should let the owner record phase aggregators", async function () {
+      const aggregator = "0x694AA1769357215DE4FAC081bf1f309aDC325306";
+      await viem.assertions.emitWithArgs(
+        proxy.write.setPhaseAggregator([2, aggregator], {
+          account: owner.account,
+        }),
+        proxy,
+        "PhaseAggregatorUpdated",
+        [2, aggregator]
+      );
+      assert.equal(await proxy.read.phaseAggregators([2]), aggregator);
+      await assert.rejects(
+        proxy.write.setPhaseAggregator([2, aggregator], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+    });
+  });
+
+  describe("Staleness Policy", function () {
+    let proxy: any;
+    let now: bigint;
+    const answer = parseUnits("3000", decimals);
+    const StalenessPolicy = { PassThrough: 0, RevertOnStale: 1, FlagStale: 2 };
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+      await proxy.write.addAuthorizedSender(
+        [authorizedSender.account.address],
+        { account: owner.account }
+      );
+      now = (await publicClient.getBlock()).timestamp;
+      await proxy.write.updateRoundData([1n, answer, now, 1n], {
+        account: authorizedSender.account,
+      });
+    });
+
+    it("Should let only the owner change the heartbeat", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.setHeartbeat([600n], { account: owner.account }),
+        proxy,
+        "HeartbeatUpdated",
+        [heartbeat, 600n]
+      );
+      assert.equal(await proxy.read.heartbeat(), 600n);
+      assert.equal(await proxy.read.staleRejectionWindow(), 1200n);
+
+      await assert.rejects(
+        proxy.write.setHeartbeat([0n], { account: owner.account }),
+        /InvalidStalenessConfig/
+      );
+      await assert.rejects(
+        proxy.write.setHeartbeat([60n], { account: authorizedSender.account }),
+        /Unauthorized/
+      );
+    });
+
+    it("Should reject updates outside the configured window", async function () {
+      await viem.assertions.emitWithArgs(
+        proxy.write.setStaleRejectionWindow([3000n], {
+          account: owner.account,
+        }),
+        proxy,
+        "StaleRejectionWindowUpdated",
+        [3000n]
+      );
+      now = (await publicClient.getBlock()).timestamp;
+
+      await proxy.write.updateRoundData([2n, answer, now - 2000n, 2n], {
+        account: authorizedSender.account,
+      });
+      await assert.rejects(
+        proxy.write.updateRoundData([3n, answer, now - 4000n, 3n], {
+          account: authorizedSender.account,
+        }),
+        /StaleData/
+      );
+      await assert.rejects(
+        proxy.write.setStaleRejectionWindow([60n], { account: owner.account }),
+        /InvalidStalenessConfig/
+      );
+      await assert.rejects(
+        proxy.write.setHeartbeat([3600n], { account: owner.account }),
+        /InvalidStalenessConfig/
+      );
+    });
+
+    it("Should serve stale reads according to the policy", async function () {
+      // Round 2 is older than the 600s heartbeat
+      assert.equal(await proxy.read.isFeedFresh(), false);
+      assert.equal(
+        await proxy.read.stalenessPolicy(),
+        StalenessPolicy.PassThrough
+      );
+      const [, , , , passedThrough] = await proxy.read.latestRoundData();
+      assert.equal(passedThrough, 2n);
+
+      await viem.assertions.emitWithArgs(
+        proxy.write.setStalenessPolicy([StalenessPolicy.FlagStale], {
+          account: owner.account,
+        }),
+        proxy,
+        "StalenessPolicyUpdated",
+        [StalenessPolicy.FlagStale]
+      );
+      const [roundId, flaggedAnswer, , , answeredInRound] =
+        await proxy.read.latestRoundData();
+      assert.equal(roundId, 2n);
+      assert.equal(flaggedAnswer, answer);
+      assert.equal(answeredInRound, 0n);
+
+      await proxy.write.setStalenessPolicy([StalenessPolicy.RevertOnStale], {
+        account: owner.account,
+      });
+      await assert.rejects(proxy.read.latestRoundData(), /StaleData/);
+      await assert.rejects(proxy.read.latestAnswer(), /StaleData/);
+      assert.deepEqual(await proxy.read.getRoundData([2n]), [
+        2n,
+        answer,
+        now - 2000n,
+        now - 2000n,
+        2n,
+      ]);
+    });
+
+    it("Should serve fresh rounds unchanged under every policy", async function () {
+      now = (await publicClient.getBlock()).timestamp;
+      await proxy.write.updateRoundData([3n, answer, now, 3n], {
+        account: authorizedSender.account,
+      });
+      const [, , , , answeredInRound] = await proxy.read.latestRoundData();
+      assert.equal(answeredInRound, 3n);
+
+      await networkHelpers.time.increase(601);
+      await assert.rejects(proxy.read.latestRoundData(), /StaleData/);
+      await proxy.write.setHeartbeat([1800n], { account: owner.account });
+      assert.equal(await proxy.read.latestAnswer(), answer);
+    });
+  });
+
+  describe("Timelock", function () {
+    let proxy: any;
+    const delay = 3600n;
+
+    before(async function () {
+      proxy = await viem.deployContract("FeedProxy", [
+        decimals,
+        description,
+        heartbeat,
+      ]);
+    });
+
+    it("Should require queueing once the timelock is on", async function () {
+      await assert.rejects(
+        proxy.write.queueAction(["0x"], { account: owner.account }),
+        /TimelockDisabled/
+      );
+      await viem.assertions.emitWithArgs(
+        proxy.write.setTimelockDelay([delay], { account: owner.account }),
+        proxy,
+        "TimelockDelayUpdated",
+        [delay]
+      );
+
+      await assert.rejects(
+        proxy.write.addAuthorizedSender([authorizedSender.account.address], {
+          account: owner.account,
+        }),
+        /TimelockRequired/
+      );
+      await assert.rejects(
+        proxy.write.setTimelockDelay([0n], { account: owner.account }),
+        /TimelockRequired/
+      );
+      for (const [functionName, args] of [
+        ["setHeartbeat", [7200n]],
+        ["setStaleRejectionWindow", [7200n]],
+        ["setStalenessPolicy", [1]],
+        ["setPhaseAggregator", [1, authorizedSender.account.address]],
+        ["setBackfillMode", [true]],
+      ] as const) {
+        await assert.rejects(
+          proxy.write[functionName](args, { account: owner.account }),
+          /TimelockRequired/
+        );
+      }
+      // Emergency actions stay immediate
+      await proxy.write.pause({ account: owner.account });
+      assert.equal(await proxy.read.paused(), true);
+    });
+
+    it("Should execute queued actions after the delay", async function () {
+      const data = encodeFunctionData({
+        abi: proxy.abi,
+        functionName: "addAuthorizedSender",
+        args: [authorizedSender.account.address],
+      });
+      const hash = await proxy.write.queueAction([data], {
+        account: owner.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [queued] = parseEventLogs({
+        abi: proxy.abi,
+        eventName: "ActionQueued",
+        logs: receipt.logs,
+      }) as any[];
+      const { actionId, eta } = queued.args;
+
+      const [action] = await proxy.read.getQueuedActions();
+      assert.equal(action.id, actionId);
+      assert.equal(action.data, data);
+      assert.equal(action.eta, eta);
+
+      await assert.rejects(
+        proxy.write.executeAction([actionId], { account: owner.account }),
+        /ActionNotReady/
+      );
+      await networkHelpers.time.increase(delay);
+      await assert.rejects(
+        proxy.write.executeAction([actionId], {
+          account: authorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+      await viem.assertions.emitWithArgs(
+        proxy.write.executeAction([actionId], { account: owner.account }),
+        proxy,
+        "ActionExecuted",
+        [actionId]
+      );
+
+      assert.equal(
+        await proxy.read.authorizedSenders([authorizedSender.account.address]),
+        true
+      );
+      assert.deepEqual(await proxy.read.getQueuedActions(), []);
+      await assert.rejects(
+        proxy.write.executeAction([actionId], { account: owner.account }),
+        /ActionNotQueued/
+      );
+    });
+
+    it("Should let the owner cancel queued actions", async function () {
+      const data = encodeFunctionData({
+        abi: proxy.abi,
+        functionName: "unpause",
+      });
+      await proxy.write.queueAction([data], { account: owner.account });
+      const [{ id }] = await proxy.read.getQueuedActions();
+
+      await viem.assertions.emitWithArgs(
+        proxy.write.cancelAction([id], { account: owner.account }),
+        proxy,
+        "ActionCancelled",
+        [id]
+      );
+      assert.deepEqual(await proxy.read.getQueuedActions(), []);
+      await networkHelpers.time.increase(delay);
+      await assert.rejects(
+        proxy.write.executeAction([id], { account: owner.account }),
+        /ActionNotQueued/
+      );
+      assert.equal(await proxy.read.paused(), true);
+    });
+  });
 });
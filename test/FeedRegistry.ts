@@ -0,0 +1,339 @@
+import assert from "node:assert/strict";
+import { describe, it, before } from "node:test";
+import { network } from "hardhat";
+import { getAddress, keccak256, parseUnits, toHex } from "viem";
+
+describe("FeedRegistry", async function () {
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner, authorizedSender, unauthorizedSender] =
+    await viem.getWalletClients();
+
+  let registry: any;
+  let now: bigint;
+  const decimals = 8;
+  const heartbeat = 3600n;
+  const ethUsd = keccak256(toHex("ETH/USD"));
+  const btcUsd = keccak256(toHex("BTC/USD"));
+  const ETH = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+  const BTC = "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB";
+  const USD = "0x0000000000000000000000000000000000000348";
+  const ethPrice = parseUnits("3000", decimals);
+  const btcPrice = parseUnits("60000", decimals);
+
+  before(async function () {
+    registry = await viem.deployContract("FeedRegistry");
+    await registry.write.addAuthorizedSender(
+      [authorizedSender.account.address],
+      { account: owner.account }
+    );
+    now = (await publicClient.getBlock()).timestamp;
+  });
+
+  describe("Feed Management", function () {
+    it("Should register feeds by feedId and pair", async function () {
+      await viem.assertions.emitWithArgs(
+        registry.write.registerFeed(
+          [ethUsd, ETH, USD, decimals, "ETH/USD", heartbeat],
+          { account: owner.account }
+        ),
+        registry,
+        "FeedRegistered",
+        [
+          ethUsd,
+          getAddress(ETH),
+          getAddress(USD),
+          decimals,
+          "ETH/USD",
+          heartbeat,
+        ]
+      );
+      await registry.write.registerFeed(
+        [btcUsd, BTC, USD, decimals, "BTC/USD", heartbeat],
+        { account: owner.account }
+      );
+
+      assert.deepEqual(await registry.read.getAllFeeds(), [ethUsd, btcUsd]);
+      assert.equal(await registry.read.pairFeeds([ETH, USD]), ethUsd);
+      assert.equal(await registry.read.decimals([BTC, USD]), decimals);
+      assert.equal(await registry.read.description([BTC, USD]), "BTC/USD");
+    });
+
+    it("Should reject duplicate feeds, pairs and non-owners", async function () {
+      await assert.rejects(
+        registry.write.registerFeed(
+          [ethUsd, BTC, ETH, decimals, "dup", heartbeat],
+          { account: owner.account }
+        ),
+        /FeedAlreadyRegistered/
+      );
+      await assert.rejects(
+        registry.write.registerFeed(
+          [keccak256(toHex("other")), ETH, USD, decimals, "dup", heartbeat],
+          { account: owner.account }
+        ),
+        /FeedAlreadyRegistered/
+      );
+      await assert.rejects(
+        registry.write.registerFeed(
+          [keccak256(toHex("half")), ETH, "0x" + "0".repeat(40), 8, "", 1n],
+          { account: owner.account }
+        ),
+        /InvalidAddress/
+      );
+      await assert.rejects(
+        registry.write.registerFeed(
+          [keccak256(toHex("other")), BTC, ETH, decimals, "x", heartbeat],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+    });
+  });
+
+  describe("Updates", function () {
+    it("Should store rounds and serve them by pair and feedId", async function () {
+      await viem.assertions.emitWithArgs(
+        registry.write.updateRoundData(
+          [ethUsd, 1n, ethPrice, now - 10n, now, 1n],
+          { account: authorizedSender.account }
+        ),
+        registry,
+        "RoundUpdated",
+        [ethUsd, 1n, ethPrice, now - 10n, now]
+      );
+
+      const byPair = await registry.read.latestRoundData([ETH, USD]);
+      assert.deepEqual(byPair, [1n, ethPrice, now - 10n, now, 1n]);
+      assert.deepEqual(
+        await registry.read.latestRoundDataByFeedId([ethUsd]),
+        byPair
+      );
+      assert.deepEqual(
+        await registry.read.getRoundData([ETH, USD, 1n]),
+        byPair
+      );
+      assert.equal(await registry.read.latestAnswer([ETH, USD]), ethPrice);
+      assert.equal(await registry.read.latestRound([ETH, USD]), 1n);
+    });
+
+    it("Should update many feeds in one batch", async function () {
+      await registry.write.updateRoundDataBatch(
+        [
+          [
+            {
+              feedId: ethUsd,
+              roundId: 2n,
+              answer: ethPrice + 1n,
+              startedAt: now + 1n,
+              updatedAt: now + 1n,
+              answeredInRound: 2n,
+            },
+            {
+              feedId: btcUsd,
+              roundId: 5n,
+              answer: btcPrice,
+              startedAt: now + 1n,
+              updatedAt: now + 1n,
+              answeredInRound: 5n,
+            },
+          ],
+        ],
+        { account: authorizedSender.account }
+      );
+
+      assert.equal(await registry.read.latestAnswer([ETH, USD]), ethPrice + 1n);
+      assert.equal(await registry.read.latestAnswer([BTC, USD]), btcPrice);
+      assert.equal(await registry.read.getAnswer([ETH, USD, 1n]), ethPrice);
+      assert.equal(await registry.read.totalUpdates(), 3n);
+    });
+
+    it("Should apply FeedProxy's round validation per feed", async function () {
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [ethUsd, 2n, ethPrice, now + 2n, now + 2n, 2n],
+          { account: authorizedSender.account }
+        ),
+        /InvalidRound/
+      );
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [ethUsd, 3n, 0n, now + 2n, now + 2n, 3n],
+          { account: authorizedSender.account }
+        ),
+        /InvalidAnswer/
+      );
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [ethUsd, 3n, ethPrice, now + 3n, now + 2n, 3n],
+          { account: authorizedSender.account }
+        ),
+        /InvalidTimestamp/
+      );
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [keccak256(toHex("missing")), 1n, ethPrice, now, now, 1n],
+          { account: authorizedSender.account }
+        ),
+        /FeedNotFound/
+      );
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [ethUsd, 3n, ethPrice, now + 2n, now + 2n, 3n],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+    });
+
+    it("Should block updates while paused", async function () {
+      await registry.write.pause({ account: owner.account });
+      await assert.rejects(
+        registry.write.updateRoundData(
+          [ethUsd, 3n, ethPrice, now + 2n, now + 2n, 3n],
+          { account: authorizedSender.account }
+        ),
+        /Paused/
+      );
+      await registry.write.unpause({ account: owner.account });
+    });
+
+    it("Should distinguish missing data in V2 and V3 reads", async function () {
+      const feedId = keccak256(toHex("LINK/USD"));
+      await registry.write.registerFeed(
+        [feedId, USD, ETH, decimals, "LINK/USD", heartbeat],
+        { account: owner.account }
+      );
+
+      assert.equal(await registry.read.latestAnswer([USD, ETH]), 0n);
+      assert.equal(await registry.read.getTimestamp([USD, ETH, 1n]), 0n);
+      await assert.rejects(
+        registry.read.latestRoundData([USD, ETH]),
+        /NoDataAvailable/
+      );
+      await assert.rejects(
+        registry.read.latestRoundData([ETH, BTC]),
+        /FeedNotFound/
+      );
+    });
+  });
+
+  describe("Aggregator views", function () {
+    let aggregator: any;
+
+    before(async function () {
+      await registry.write.deployAggregator([ethUsd], {
+        account: owner.account,
+      });
+      const { aggregator: address } = await registry.read.getFeedConfig([
+        ethUsd,
+      ]);
+      aggregator = await viem.getContractAt("FeedRegistryAggregator", address);
+    });
+
+    it("Should expose one feed as AggregatorV2V3Interface", async function () {
+      assert.equal(
+        await registry.read.getFeed([ETH, USD]),
+        getAddress(aggregator.address)
+      );
+      assert.equal(await aggregator.read.decimals(), decimals);
+      assert.equal(await aggregator.read.description(), "ETH/USD");
+      assert.deepEqual(
+        await aggregator.read.latestRoundData(),
+        await registry.read.latestRoundData([ETH, USD])
+      );
+      assert.equal(await aggregator.read.latestAnswer(), ethPrice + 1n);
+      assert.equal(await aggregator.read.getAnswer([1n]), ethPrice);
+      assert.equal(await aggregator.read.getTimestamp([9n]), 0n);
+      await assert.rejects(
+        registry.write.deployAggregator([ethUsd], { account: owner.account }),
+        /FeedAlreadyRegistered/
+      );
+    });
+
+    it("Should pass updates from registry senders through to the registry", async function () {
+      await aggregator.write.updateRoundData(
+        [3n, ethPrice + 2n, now + 2n, now + 3n, 3n],
+        { account: authorizedSender.account }
+      );
+      await aggregator.write.updateRoundData(
+        [4n, ethPrice + 3n, now + 4n, 4n],
+        {
+          account: authorizedSender.account,
+        }
+      );
+
+      const [roundId, answer, startedAt] =
+        await registry.read.getRoundDataByFeedId([ethUsd, 3n]);
+      assert.equal(roundId, 3n);
+      assert.equal(answer, ethPrice + 2n);
+      assert.equal(startedAt, now + 2n);
+      assert.equal(await registry.read.latestRound([ETH, USD]), 4n);
+
+      await assert.rejects(
+        aggregator.write.updateRoundData([5n, ethPrice, now + 4n, 5n], {
+          account: unauthorizedSender.account,
+        }),
+        /Unauthorized/
+      );
+      await assert.rejects(
+        registry.write.updateRoundDataFromAggregator(
+          [authorizedSender.account.address, 5n, ethPrice, now, now, 5n],
+          { account: authorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+    });
+
+    it("Should accept Reactive Network callbacks through the view", async function () {
+      const rvmId = owner.account.address;
+      await assert.rejects(
+        aggregator.write.updateRoundDataCallback(
+          [rvmId, 5n, ethPrice, now + 5n, now + 5n, 5n],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+      await registry.write.setReactiveCallback(
+        [unauthorizedSender.account.address, rvmId],
+        { account: owner.account }
+      );
+
+      await aggregator.write.updateRoundDataCallback(
+        [rvmId, 5n, ethPrice + 4n, now + 5n, now + 5n, 5n],
+        { account: unauthorizedSender.account }
+      );
+      assert.equal(await aggregator.read.latestAnswer(), ethPrice + 4n);
+
+      await assert.rejects(
+        aggregator.write.updateRoundDataCallback(
+          [
+            authorizedSender.account.address,
+            6n,
+            ethPrice,
+            now + 6n,
+            now + 6n,
+            6n,
+          ],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+      await assert.rejects(
+        registry.write.updateRoundDataCallbackFromAggregator(
+          [
+            unauthorizedSender.account.address,
+            rvmId,
+            6n,
+            ethPrice,
+            now,
+            now,
+            6n,
+          ],
+          { account: unauthorizedSender.account }
+        ),
+        /Unauthorized/
+      );
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Hex } from "viem";
+import type { RelayerConfig } from "../scripts/relayer/config.js";
+import type { RelayerContext } from "../scripts/relayer/context.js";
+import { FeedScheduler } from "../scripts/relayer/scheduler.js";
+import type { PipelineResult } from "../scripts/relayer/types.js";
+
+describe("FeedScheduler", function () {
+  const feedA: Hex = `0x${"a".repeat(64)}`;
+  const feedB: Hex = `0x${"b".repeat(64)}`;
+  const ctx = {
+    config: { shutdownTimeoutMs: 1000 } as RelayerConfig,
+  } as RelayerContext;
+
+  // A runner whose runs finish only when released
+  function gatedRunner() {
+    const runs: Hex[][] = [];
+    const gates: (() => void)[] = [];
+    const runner = async (_: RelayerContext, feedIds: Hex[]) => {
+      runs.push(feedIds);
+      await new Promise<void>((resolve) => gates.push(resolve));
+      return feedIds.map((feedId): PipelineResult => ({
+        feedId,
+        status: "already-processed",
+        roundId: 1n,
+      }));
+    };
+    const started = async (count: number) => {
+      for (let tick = 0; tick < 100 && runs.length < count; tick++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      assert.equal(runs.length, count);
+    };
+    return { runs, gates, runner, started };
+  }
+
+  it("Should batch triggers that arrive while the feeds are queued", async function () {
+    const { runs, gates, runner, started } = gatedRunner();
+    const scheduler = new FeedScheduler(ctx, {
+      polling: false,
+      runner,
+      recover: async () => [],
+    });
+
+    const triggered = [
+      scheduler.trigger(feedA),
+      scheduler.trigger(feedB),
+      scheduler.trigger(feedA),
+    ];
+    await started(1);
+    gates[0]();
+
+    assert.deepEqual(await Promise.all(triggered), [true, true, true]);
+    assert.deepEqual(runs, [[feedA, feedB]]);
+  });
+
+  it("Should run a feed once more when triggered while its run is in progress", async function () {
+    const { runs, gates, runner, started } = gatedRunner();
+    const scheduler = new FeedScheduler(ctx, {
+      polling: false,
+      runner,
+      recover: async () => [],
+    });
+
+    const first = scheduler.trigger(feedA);
+    await started(1);
+    // Both arrive mid-run and share a single follow-up run
+    const second = scheduler.trigger(feedA);
+    const third = scheduler.trigger(feedA);
+    gates[0]();
+    assert.equal(await first, true);
+
+    await started(2);
+    assert.deepEqual(runs, [[feedA], [feedA]]);
+    gates[1]();
+    assert.deepEqual(await Promise.all([second, third]), [true, true]);
+    assert.equal(runs.length, 2);
+  });
+});
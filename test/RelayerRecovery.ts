@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it, before, after } from "node:test";
+import { network } from "hardhat";
+import { parseUnits, type Address, type Hex } from "viem";
+import { UpdateReason } from "../frontend/src/decision.js";
+import type { RelayerConfig } from "../scripts/relayer/config.js";
+import type { RelayerContext } from "../scripts/relayer/context.js";
+import { ForwardJournal } from "../scripts/relayer/journal.js";
+import { recoverPendingForwards } from "../scripts/relayer/recovery.js";
+
+describe("Relayer recovery", async function () {
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner] = await viem.getWalletClients();
+
+  const destinationChainId = 84532n;
+  const decimals = 8;
+  const price = parseUnits("3000", decimals);
+  let reactor: any;
+  let proxy: any;
+  let feedId: Hex;
+  let stateDir: string;
+  let ctx: RelayerContext;
+
+  // Journal a forward the relayer decided on but never finished
+  const journalForward = (roundId: bigint, answer: bigint, updatedAt: bigint) =>
+    ctx.journal.record({
+      feedId,
+      destination: 0,
+      step: "forward-decided",
+      round: {
+        roundId,
+        answer,
+        startedAt: updatedAt,
+        updatedAt,
+        answeredInRound: roundId,
+      },
+      reason: UpdateReason.DeviationThreshold,
+    });
+
+  before(async function () {
+    const systemContract = await viem.deployContract("SystemContractMock");
+    reactor = await viem.deployContract(
+      "ChainlinkFeedReactor",
+      [systemContract.address],
+      {
+        libraries: {
+          AdminTimelock: (await viem.deployContract("AdminTimelock")).address,
+          DerivedFeeds: (await viem.deployContract("DerivedFeeds")).address,
+          FeedArchive: (await viem.deployContract("FeedArchive")).address,
+        },
+      }
+    );
+    proxy = await viem.deployContract("FeedProxy", [
+      decimals,
+      "ETH/USD",
+      3600n,
+    ]);
+    await proxy.write.addAuthorizedSender([owner.account.address]);
+    await reactor.write.registerFeed([
+      11155111n,
+      "0x694AA1769357215DE4FAC081bf1f309aDC325306",
+      destinationChainId,
+      proxy.address,
+      decimals,
+      "ETH/USD",
+      50n,
+      3600n,
+    ]);
+    [feedId] = await reactor.read.getAllFeeds();
+
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-"));
+    ctx = {
+      config: {
+        reactorAddress: reactor.address as Address,
+        destinationGasLimit: 500000n,
+        updateMode: "sender",
+      } as RelayerConfig,
+      reactive: { publicClient, walletClient: owner } as any,
+      reactorAbi: reactor.abi,
+      feedProxyAbi: proxy.abi,
+      aggregatorAbi: [],
+      journal: new ForwardJournal(stateDir),
+      origin: () => publicClient as any,
+      originWebSocket: () => undefined,
+      destinationReader: () => publicClient as any,
+      destination: () => ({ publicClient, walletClient: owner }) as any,
+    };
+  });
+
+  after(function () {
+    ctx.journal.close();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("Should journal a quarantined replay as finished and never resend it", async function () {
+    const now = (await publicClient.getBlock()).timestamp;
+    await proxy.write.updateRoundData([1n, price, now, 1n]);
+    // Any move over 10% is held back for the owner
+    await proxy.write.setPriceGuards([0n, 0n, 1000n, true]);
+
+    journalForward(2n, price * 2n, now);
+    const [outcome] = await recoverPendingForwards(ctx);
+    assert.equal(outcome.action, "quarantined");
+    assert.equal(ctx.journal.get(feedId, 0, 2n)?.step, "quarantined");
+    assert.deepEqual(ctx.journal.pending(), []);
+
+    await proxy.write.discardQuarantinedRound([2n]);
+    const sent = await publicClient.getTransactionCount({
+      address: owner.account.address,
+    });
+    assert.deepEqual(await recoverPendingForwards(ctx), []);
+    assert.equal(
+      await publicClient.getTransactionCount({
+        address: owner.account.address,
+      }),
+      sent
+    );
+    const [latestRound] = await proxy.read.latestRoundData();
+    assert.equal(latestRound, 1n);
+  });
+
+  it("Should abandon a replay the FeedProxy rejects as stale without sending it", async function () {
+    const now = (await publicClient.getBlock()).timestamp;
+    // Older than the proxy's stale rejection window of two heartbeats
+    journalForward(3n, price, now - 3n * 3600n);
+
+    const sent = await publicClient.getTransactionCount({
+      address: owner.account.address,
+    });
+    const [outcome] = await recoverPendingForwards(ctx);
+    assert.equal(outcome.action, "abandoned");
+    const entry = ctx.journal.get(feedId, 0, 3n);
+    assert.equal(entry?.step, "abandoned");
+    assert.match(entry?.note ?? "", /StaleData/);
+    assert.deepEqual(ctx.journal.pending(), []);
+    assert.equal(
+      await publicClient.getTransactionCount({
+        address: owner.account.address,
+      }),
+      sent
+    );
+  });
+});